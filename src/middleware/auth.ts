@@ -2,11 +2,8 @@ import { Request, Response, NextFunction, RequestHandler } from 'express';
 import jwt from 'jsonwebtoken';
 import mongoose, { Types } from 'mongoose';
 import User from '../models/User';
-
-// Define the structure of our JWT payload
-interface JwtPayload {
-  id: string;
-}
+import { IPermission } from '../models/Permission';
+import sessionService from '../services/session.service';
 
 // Define the structure of our authenticated request
 export interface AuthenticatedRequest extends Request {
@@ -17,6 +14,7 @@ export interface AuthenticatedRequest extends Request {
     lastName: string;
     role: string;
     permissions: string[];
+    stations: mongoose.Types.ObjectId[];
     createdAt: Date;
     updatedAt: Date;
   }
@@ -46,8 +44,12 @@ export function createAuthenticatedHandler(
   };
 }
 
-// Middleware to authenticate requests
-export const auth: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+interface AuthOptions {
+  // Let users who still have to replace an administrator-set password through
+  allowPendingPasswordChange?: boolean;
+}
+
+const authenticate = (options: AuthOptions = {}): RequestHandler => async (req: Request, res: Response, next: NextFunction) => {
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
@@ -58,8 +60,31 @@ export const auth: RequestHandler = async (req: Request, res: Response, next: Ne
       });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as JwtPayload;
-    const user = await User.findById(decoded.id);
+    let decoded;
+    try {
+      decoded = sessionService.verifyAccessToken(token);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        // Clients refresh the access token when they see this code
+        return res.status(401).json({
+          message: 'Token has expired',
+          code: 'TOKEN_EXPIRED'
+        });
+      }
+      throw error;
+    }
+
+    // Tokens issued before sessions existed cannot be revoked, so they are refused,
+    // as are tokens naming a user other than the one the session was opened for
+    if (!decoded.sid || !(await sessionService.isActive(decoded.sid, String(decoded.id)))) {
+      return res.status(401).json({
+        message: 'Session has ended, please log in again',
+        code: 'SESSION_REVOKED'
+      });
+    }
+
+    const user = await User.findById(decoded.id)
+      .populate<{ permissions: IPermission[] }>('permissions', 'name');
 
     if (!user) {
       return res.status(401).json({
@@ -68,8 +93,17 @@ export const auth: RequestHandler = async (req: Request, res: Response, next: Ne
       });
     }
 
-    // Convert string permissions to ObjectIds if they aren't already
-    const permissions = user.permissions.map(perm => perm.toString());
+    if (user.mustChangePassword && !options.allowPendingPasswordChange) {
+      return res.status(403).json({
+        message: 'You must change your password before continuing',
+        code: 'PASSWORD_CHANGE_REQUIRED'
+      });
+    }
+
+    // Resolve permission references to their names so routes can check them directly
+    const permissions = user.permissions
+      .filter(perm => perm && perm.name)
+      .map(perm => perm.name);
 
     (req as AuthenticatedRequest).user = {
       _id: user._id as unknown as mongoose.Types.ObjectId,
@@ -78,9 +112,11 @@ export const auth: RequestHandler = async (req: Request, res: Response, next: Ne
       lastName: user.lastName,
       role: user.role,
       permissions: permissions,
+      stations: user.stations || [],
       createdAt: user.createdAt,
       updatedAt: user.updatedAt
     };
+    req.sessionId = decoded.sid;
 
     next();
   } catch (error) {
@@ -92,6 +128,12 @@ export const auth: RequestHandler = async (req: Request, res: Response, next: Ne
   }
 };
 
+// Middleware to authenticate requests
+export const auth = authenticate();
+
+// For the few routes a user must reach while a password change is pending (change password, logout, profile)
+export const authAllowingPasswordChange = authenticate({ allowPendingPasswordChange: true });
+
 // Middleware to check role authorization
 export const checkRole = (allowedRoles: string[]) => {
   return createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import { Model, Types } from 'mongoose';
+import { AuthenticatedRequest, createAuthenticatedHandler } from './auth';
+import stationService from '../services/station.service';
+
+// Resolves the user who owns the resource targeted by the request (usually `foundBy`)
+export type OwnerResolver = (req: AuthenticatedRequest) => Promise<unknown>;
+
+interface RequirePermissionOptions {
+  owner?: OwnerResolver;
+}
+
+// Permissions such as `edit_own_items` only apply to resources the user owns
+const isOwnPermission = (name: string): boolean => name.includes('_own_');
+
+// Admins implicitly hold every permission
+export const hasPermission = (user: AuthenticatedRequest['user'], name: string): boolean => {
+  return user.role === 'admin' || user.permissions.includes(name);
+};
+
+// Extract the id from a user reference that may or may not be populated
+export const getUserId = (ref: unknown): string | null => {
+  if (!ref) {
+    return null;
+  }
+  if (typeof ref === 'object' && '_id' in (ref as object)) {
+    return String((ref as { _id: unknown })._id);
+  }
+  return String(ref);
+};
+
+// Build an owner resolver that reads `foundBy` from the document at `req.params.id`
+export const ownerOf = (model: Model<any>): OwnerResolver => {
+  return async (req: AuthenticatedRequest) => {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return null;
+    }
+    const doc = await model.findById(req.params.id).select('foundBy');
+    return doc ? doc.foundBy : null;
+  };
+};
+
+/**
+ * Middleware to check named permissions. Access is granted when the user holds
+ * any of the given permissions. When only an `_own_` variant is held, the
+ * request is restricted to resources whose owner matches the current user:
+ * with an `owner` resolver the check happens here, otherwise
+ * `req.permissionScope` is set to `'own'` so list routes can filter by `foundBy`.
+ */
+export const requirePermission = (permissions: string | string[], options: RequirePermissionOptions = {}) => {
+  const required = Array.isArray(permissions) ? permissions : [permissions];
+
+  return createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const granted = required.filter(name => hasPermission(req.user, name));
+
+    if (granted.length === 0) {
+      return res.status(403).json({
+        message: 'Access denied',
+        code: 'ACCESS_DENIED',
+        required
+      });
+    }
+
+    if (granted.some(name => !isOwnPermission(name))) {
+      req.permissionScope = 'all';
+      return next();
+    }
+
+    req.permissionScope = 'own';
+    if (!options.owner) {
+      return next();
+    }
+
+    const ownerId = getUserId(await options.owner(req));
+
+    // Let the route handler report missing resources
+    if (!ownerId) {
+      return next();
+    }
+
+    if (ownerId !== req.user._id.toString()) {
+      return res.status(403).json({
+        message: 'Access denied. You can only access items you created',
+        code: 'NOT_OWNER'
+      });
+    }
+
+    next();
+  });
+};
+
+// Restrict a query to the current user's items when only `_own_` permissions apply
+export const applyPermissionScope = (req: Request, query: Record<string, any>) => {
+  if (req.permissionScope === 'own' && req.user) {
+    query.foundBy = req.user._id;
+  }
+  return query;
+};
+
+/**
+ * Middleware refusing access to the document at `req.params.id` when it
+ * belongs to a station the user is not assigned to. Admins work across
+ * stations. Missing documents are left to the route handler to report.
+ */
+export const requireStationAccess = (model: Model<any>) => {
+  return createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (stationService.isCrossStation(req.user) || !Types.ObjectId.isValid(req.params.id)) {
+      return next();
+    }
+
+    const doc = await model.findById(req.params.id).select('station');
+    if (doc && !stationService.hasAccess(req.user, doc.station)) {
+      return res.status(403).json({
+        message: 'Access denied. This item belongs to another station',
+        code: 'STATION_ACCESS_DENIED'
+      });
+    }
+
+    next();
+  });
+};
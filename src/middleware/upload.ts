@@ -0,0 +1,39 @@
+import { RequestHandler } from 'express';
+import multer from 'multer';
+import { MAX_IMAGE_BYTES } from '../services/imageProcessing.service';
+
+// Files are kept in memory only long enough to be checked and re-encoded
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 10 }
+});
+
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+// Flight schedules and other data imports
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CSV_BYTES, files: 1 }
+});
+
+// Answer multer limit errors with a 4xx instead of letting them reach the generic error handler
+const withUploadErrors = (handler: RequestHandler, maxBytes = MAX_IMAGE_BYTES): RequestHandler => (req, res, next) => {
+  handler(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          message: `Files must be ${maxBytes / (1024 * 1024)} MB or smaller`,
+          code: 'FILE_TOO_LARGE'
+        });
+      }
+      return res.status(400).json({ message: error.message, code: error.code });
+    }
+    next(error);
+  });
+};
+
+export const uploadImages = (field: string, maxCount = 5) => withUploadErrors(imageUpload.array(field, maxCount));
+
+export const uploadImageFields = (fields: multer.Field[]) => withUploadErrors(imageUpload.fields(fields));
+
+export const uploadCsv = (field: string) => withUploadErrors(csvUpload.single(field), MAX_CSV_BYTES);
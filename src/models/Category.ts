@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ItemHandling, ITEM_HANDLINGS } from './LostItem';
+
+export type CategoryAttributeType = 'text' | 'number' | 'boolean' | 'select';
+
+export const CATEGORY_ATTRIBUTE_TYPES: CategoryAttributeType[] = ['text', 'number', 'boolean', 'select'];
+
+// A detail recorded on items of a category, e.g. brand or IMEI
+export interface ICategoryAttribute {
+  key: string;
+  label: string;
+  type: CategoryAttributeType;
+  // Allowed values of a `select` attribute
+  options?: string[];
+  required: boolean;
+}
+
+export interface ICategory extends Document {
+  name: string;
+  // Lowercased name with single spaces, unique across the taxonomy
+  key: string;
+  parent?: mongoose.Types.ObjectId;
+  // Parent chain, root first
+  ancestors: mongoose.Types.ObjectId[];
+  // Other spellings that resolve to this category, normalized like `key`
+  aliases: string[];
+  // Attributes of this category; subcategories also require their ancestors' attributes
+  attributes: ICategoryAttribute[];
+  // Handling of items in this category; unset inherits the parent's
+  handling?: ItemHandling;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CategoryAttributeSchema = new Schema({
+  key: { type: String, required: true },
+  label: { type: String, required: true },
+  type: { type: String, enum: CATEGORY_ATTRIBUTE_TYPES, default: 'text' },
+  options: [String],
+  required: { type: Boolean, default: false }
+}, { _id: false });
+
+const CategorySchema: Schema = new Schema({
+  name: { type: String, required: true, trim: true },
+  key: { type: String, required: true, unique: true },
+  parent: { type: Schema.Types.ObjectId, ref: 'Category' },
+  ancestors: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+  aliases: [String],
+  attributes: [CategoryAttributeSchema],
+  handling: { type: String, enum: ITEM_HANDLINGS },
+  active: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+CategorySchema.index({ aliases: 1 });
+CategorySchema.index({ ancestors: 1 });
+
+export default mongoose.model<ICategory>('Category', CategorySchema);
@@ -1,10 +1,15 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { ILostItem } from './LostItem';
+import { ILostItem, ItemHandling, ITEM_HANDLINGS } from './LostItem';
+import { DeliveryRecordSchema, IDeliveryRecord } from './DeliveryRecord';
+import { ItemWitnessSchema, CashCountSchema, DeliveryApprovalSchema, IItemWitness, ICashCount, IDeliveryApproval } from './ItemControls';
 
 interface ImageInfo {
   url: string;
   publicId: string;
   thumbnailUrl?: string;
+  thumbnailPublicId?: string;
+  provider?: 'cloudinary' | 'local' | 'gcs';
+  private?: boolean;
 }
 
 interface UserInfo {
@@ -17,12 +22,29 @@ interface UserInfo {
 export interface IDeliveredItem extends Document {
   itemName: string;
   description: string;
+  station: mongoose.Types.ObjectId;
   location: string;
+  // Canonical name of the category, see models/Category.ts
   category: string;
+  // The category and its ancestors, root first
+  categoryPath: mongoose.Types.ObjectId[];
+  // Values of the category's attributes, e.g. `{ brand: 'Apple', imei: '...' }`
+  attributes?: Record<string, string | number | boolean>;
+  handling: ItemHandling;
+  witness?: IItemWitness;
+  cash?: ICashCount;
+  deliveryApproval?: IDeliveryApproval;
   images: ImageInfo[];
   foundBy: mongoose.Types.ObjectId | UserInfo;
+  supervisor?: mongoose.Types.ObjectId | UserInfo;
   deliveredBy?: mongoose.Types.ObjectId | UserInfo;
+  // Normalized carrier and number, e.g. `AC123`
   flightNumber: string;
+  flightDate?: Date;
+  origin?: string;
+  destination?: string;
+  // Schedule entry the flight details came from
+  flight?: mongoose.Types.ObjectId;
   dateFound: Date;
   dateDelivered: Date;
   archived: boolean;
@@ -31,25 +53,49 @@ export interface IDeliveredItem extends Document {
     email: string;
     phone: string;
     identification: string;
+    identificationType?: string;
+    identificationPhotos?: ImageInfo[];
     signature: string;
   };
   deliveryNotes?: string;
   deliveryPhotos?: ImageInfo[];
+  receiptCode?: string;
+  referenceCode?: string;
+  claimReport?: number;
+  deliveryHistory: IDeliveryRecord[];
+  createdAt: Date;
 }
 
 const DeliveredItemSchema: Schema = new Schema({
   itemName: { type: String, required: true },
   description: { type: String, required: true },
+  station: { type: Schema.Types.ObjectId, ref: 'Station' },
   location: { type: String, required: true },
   category: { type: String, required: true },
+  categoryPath: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+  attributes: Schema.Types.Mixed,
+  // Copied from the lost item, along with its witness, cash count and delivery approval
+  handling: { type: String, enum: ITEM_HANDLINGS, default: 'standard' },
+  witness: ItemWitnessSchema,
+  cash: CashCountSchema,
+  deliveryApproval: DeliveryApprovalSchema,
   images: [{
     url: String,
     publicId: String,
-    thumbnailUrl: String
+    thumbnailUrl: String,
+    thumbnailPublicId: String,
+    // Storage backend holding the file; missing on files uploaded to Cloudinary before it was recorded
+    provider: String,
+    private: Boolean
   }],
   foundBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  supervisor: { type: Schema.Types.ObjectId, ref: 'User' },
   deliveredBy: { type: Schema.Types.ObjectId, ref: 'User' },
   flightNumber: { type: String, required: true },
+  flightDate: Date,
+  origin: { type: String, uppercase: true },
+  destination: { type: String, uppercase: true },
+  flight: { type: Schema.Types.ObjectId, ref: 'Flight' },
   dateFound: { type: Date, required: true },
   dateDelivered: { type: Date, required: true },
   archived: { type: Boolean, default: false },
@@ -58,18 +104,66 @@ const DeliveredItemSchema: Schema = new Schema({
     email: { type: String, required: true },
     phone: { type: String, required: true },
     identification: { type: String, required: true },
+    identificationType: String,
+    // Scans of the receiver's ID, stored privately and shown through signed URLs
+    identificationPhotos: [{
+      url: String,
+      publicId: String,
+      thumbnailUrl: String,
+      thumbnailPublicId: String,
+      provider: String,
+      private: Boolean
+    }],
     signature: { type: String, required: true }
   },
   deliveryNotes: String,
   deliveryPhotos: [{
     url: String,
     publicId: String,
-    thumbnailUrl: String
-  }]
+    thumbnailUrl: String,
+    thumbnailPublicId: String,
+    provider: String,
+    private: Boolean
+  }],
+  // Printed on the delivery receipt so it can be verified later
+  receiptCode: { type: String, unique: true, sparse: true },
+  // Carried over from the lost item so its label still scans
+  referenceCode: { type: String, unique: true, sparse: true },
+  // Carried over from the lost item so a revert restores it unchanged
+  claimReport: Number,
+  deliveryHistory: [DeliveryRecordSchema]
 }, {
   timestamps: true
 });
 
+// Indexes backing the filtered, sorted listings
+DeliveredItemSchema.index({ archived: 1, dateDelivered: -1 });
+DeliveredItemSchema.index({ station: 1, dateDelivered: -1 });
+DeliveredItemSchema.index({ foundBy: 1, dateDelivered: -1 });
+DeliveredItemSchema.index({ flightNumber: 1 });
+DeliveredItemSchema.index({ origin: 1, destination: 1, flightDate: -1 });
+DeliveredItemSchema.index({ category: 1 });
+DeliveredItemSchema.index({ categoryPath: 1 });
+DeliveredItemSchema.index({ handling: 1 });
+DeliveredItemSchema.index({ 'deliveryHistory.receiptCode': 1 }, { sparse: true });
+
+// Full-text search, weighted towards the fields agents usually type
+DeliveredItemSchema.index(
+  {
+    itemName: 'text',
+    flightNumber: 'text',
+    category: 'text',
+    description: 'text',
+    location: 'text',
+    'customerInfo.name': 'text',
+    'customerInfo.email': 'text'
+  },
+  {
+    name: 'DeliveredItemTextIndex',
+    weights: { itemName: 10, flightNumber: 8, 'customerInfo.name': 6, category: 5, description: 3, location: 2, 'customerInfo.email': 2 }
+  }
+);
+
 // Ensure references are always populated
 DeliveredItemSchema.pre('find', function() {
   this.populate('foundBy');
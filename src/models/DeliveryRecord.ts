@@ -0,0 +1,61 @@
+import mongoose, { Schema } from 'mongoose';
+
+interface ImageInfo {
+  url: string;
+  publicId: string;
+  thumbnailUrl?: string;
+  thumbnailPublicId?: string;
+  provider?: 'cloudinary' | 'local' | 'gcs';
+  private?: boolean;
+}
+
+// A delivery that was later reverted, kept on the item instead of being discarded
+export interface IDeliveryRecord {
+  customerInfo: {
+    name: string;
+    email: string;
+    phone: string;
+    identification: string;
+    identificationType?: string;
+    identificationPhotos?: ImageInfo[];
+    signature: string;
+  };
+  deliveryNotes?: string;
+  deliveryPhotos?: ImageInfo[];
+  deliveredBy?: mongoose.Types.ObjectId;
+  dateDelivered: Date;
+  receiptCode?: string;
+  revertedBy: mongoose.Types.ObjectId;
+  revertedAt: Date;
+  revertReason: string;
+}
+
+const ImageInfoSchema = new Schema({
+  url: String,
+  publicId: String,
+  thumbnailUrl: String,
+  thumbnailPublicId: String,
+  provider: String,
+  private: Boolean
+});
+
+// Embedded in both LostItem and DeliveredItem so the history follows the item
+export const DeliveryRecordSchema = new Schema<IDeliveryRecord>({
+  customerInfo: {
+    name: String,
+    email: String,
+    phone: String,
+    identification: String,
+    identificationType: String,
+    identificationPhotos: [ImageInfoSchema],
+    signature: String
+  },
+  deliveryNotes: String,
+  deliveryPhotos: [ImageInfoSchema],
+  deliveredBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  dateDelivered: { type: Date, required: true },
+  receiptCode: String,
+  revertedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  revertedAt: { type: Date, required: true },
+  revertReason: { type: String, required: true }
+});
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DisposalMethod = 'donated' | 'destroyed' | 'returned_to_police';
+export type DisposalStatus = 'pending_approval' | 'approved' | 'rejected';
+
+export interface DisposalBatchItem {
+  item: mongoose.Types.ObjectId;
+  itemName: string;
+  description: string;
+  category: string;
+  flightNumber: string;
+  location: string;
+  station?: mongoose.Types.ObjectId;
+  dateFound: Date;
+  daysHeld: number;
+  retentionDays: number;
+}
+
+export interface IDisposalBatch extends Document {
+  batchNumber: string;
+  method: DisposalMethod;
+  status: DisposalStatus;
+  items: DisposalBatchItem[];
+  recipient?: string;
+  reference?: string;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DisposalBatchSchema: Schema = new Schema({
+  batchNumber: { type: String, required: true, unique: true },
+  method: {
+    type: String,
+    enum: ['donated', 'destroyed', 'returned_to_police'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending_approval', 'approved', 'rejected'],
+    default: 'pending_approval'
+  },
+  // Item details are copied so the manifest stays accurate after the items are archived
+  items: [{
+    _id: false,
+    item: { type: Schema.Types.ObjectId, ref: 'LostItem', required: true },
+    itemName: String,
+    description: String,
+    category: String,
+    flightNumber: String,
+    location: String,
+    station: { type: Schema.Types.ObjectId, ref: 'Station' },
+    dateFound: Date,
+    daysHeld: Number,
+    retentionDays: Number
+  }],
+  // Charity, police station or destruction contractor
+  recipient: String,
+  // Police file number or donation receipt
+  reference: String,
+  notes: String,
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: Date,
+  rejectionReason: String
+}, {
+  timestamps: true
+});
+
+DisposalBatchSchema.index({ status: 1, createdAt: -1 });
+DisposalBatchSchema.index({ 'items.item': 1 });
+DisposalBatchSchema.index({ 'items.station': 1, createdAt: -1 });
+
+export default mongoose.model<IDisposalBatch>('DisposalBatch', DisposalBatchSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One scheduled operation of a flight, imported from the schedule CSV
+export interface IFlight extends Document {
+  // Normalized, e.g. `AC123`
+  flightNumber: string;
+  carrier: string;
+  // Departure day, midnight UTC
+  date: Date;
+  origin: string;
+  destination: string;
+  // Local times at origin and destination as `HH:MM`
+  departureTime?: string;
+  arrivalTime?: string;
+  importedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FlightSchema: Schema = new Schema({
+  flightNumber: { type: String, required: true },
+  carrier: { type: String, required: true },
+  date: { type: Date, required: true },
+  origin: { type: String, required: true, uppercase: true },
+  destination: { type: String, required: true, uppercase: true },
+  departureTime: String,
+  arrivalTime: String,
+  importedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true
+});
+
+// Re-importing a schedule updates flights instead of duplicating them
+FlightSchema.index({ flightNumber: 1, date: 1 }, { unique: true });
+FlightSchema.index({ date: 1, origin: 1 });
+FlightSchema.index({ date: 1, destination: 1 });
+
+export default mongoose.model<IFlight>('Flight', FlightSchema);
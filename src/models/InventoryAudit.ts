@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AuditStatus = 'open' | 'closed' | 'cancelled';
+
+export const AUDIT_STATUSES: AuditStatus[] = ['open', 'closed', 'cancelled'];
+
+// Why a scanned code does not count towards the items on file for the audit
+export type UnrecordedReason = 'unknown_code' | 'not_on_hand' | 'other_station';
+
+export const UNRECORDED_REASONS: UnrecordedReason[] = ['unknown_code', 'not_on_hand', 'other_station'];
+
+export interface AuditScan {
+  // Code as read by the scanner, normalized
+  code: string;
+  // Lost or delivered item with this reference code, if any
+  item?: mongoose.Types.ObjectId;
+  // Where the item was found, when the agent scanned the bin label first
+  location?: mongoose.Types.ObjectId;
+  scannedBy: mongoose.Types.ObjectId;
+  scannedAt: Date;
+}
+
+// An item on file, with where the system and the count put it
+export interface AuditItemEntry {
+  item: mongoose.Types.ObjectId;
+  referenceCode?: string;
+  itemName: string;
+  category: string;
+  expectedLocation?: mongoose.Types.ObjectId;
+  foundLocation?: mongoose.Types.ObjectId;
+}
+
+// A scanned code with no item on hand at the station to match
+export interface AuditUnrecordedEntry {
+  code: string;
+  item?: mongoose.Types.ObjectId;
+  reason: UnrecordedReason;
+  foundLocation?: mongoose.Types.ObjectId;
+  scannedAt: Date;
+}
+
+export interface AuditReport {
+  // Items the system says are in the audited area
+  expected: number;
+  // Expected items that were scanned, wherever they were found
+  counted: number;
+  missing: AuditItemEntry[];
+  unrecorded: AuditUnrecordedEntry[];
+  misplaced: AuditItemEntry[];
+  generatedAt: Date;
+}
+
+// A physical count of the items at a station, or in one room, shelf or bin of it
+export interface IInventoryAudit extends Document {
+  auditNumber: string;
+  station: mongoose.Types.ObjectId;
+  // Room, shelf or bin counted; unset for the whole station
+  area?: mongoose.Types.ObjectId;
+  status: AuditStatus;
+  notes?: string;
+  startedBy: mongoose.Types.ObjectId;
+  scans: AuditScan[];
+  // Discrepancies found, stored when the audit is closed
+  report?: AuditReport;
+  closedBy?: mongoose.Types.ObjectId;
+  closedAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancelledAt?: Date;
+  cancelReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuditItemEntrySchema = new Schema({
+  item: { type: Schema.Types.ObjectId, ref: 'LostItem', required: true },
+  referenceCode: String,
+  itemName: String,
+  category: String,
+  expectedLocation: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
+  foundLocation: { type: Schema.Types.ObjectId, ref: 'StorageLocation' }
+}, { _id: false });
+
+const AuditUnrecordedEntrySchema = new Schema({
+  code: { type: String, required: true },
+  item: Schema.Types.ObjectId,
+  reason: { type: String, enum: UNRECORDED_REASONS, required: true },
+  foundLocation: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
+  scannedAt: Date
+}, { _id: false });
+
+const AuditReportSchema = new Schema({
+  expected: Number,
+  counted: Number,
+  missing: [AuditItemEntrySchema],
+  unrecorded: [AuditUnrecordedEntrySchema],
+  misplaced: [AuditItemEntrySchema],
+  generatedAt: Date
+}, { _id: false });
+
+const InventoryAuditSchema: Schema = new Schema({
+  auditNumber: { type: String, required: true, unique: true },
+  station: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+  area: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
+  status: { type: String, enum: AUDIT_STATUSES, default: 'open' },
+  notes: String,
+  startedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  // Every scan is kept, including repeats, oldest first
+  scans: [{
+    _id: false,
+    code: { type: String, required: true },
+    item: Schema.Types.ObjectId,
+    location: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
+    scannedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    scannedAt: { type: Date, required: true }
+  }],
+  report: AuditReportSchema,
+  closedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  closedAt: Date,
+  cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  cancelledAt: Date,
+  cancelReason: String
+}, {
+  timestamps: true
+});
+
+InventoryAuditSchema.index({ station: 1, status: 1, createdAt: -1 });
+
+export default mongoose.model<IInventoryAudit>('InventoryAudit', InventoryAuditSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'revoked', 'expired'];
+
+export type UserRole = 'admin' | 'supervisor' | 'employee';
+
+export interface IInvitation extends Document {
+  // SHA-256 of the invitation token; the token itself is only shown once, when the invitation is created
+  tokenHash: string;
+  employeeNumber: string;
+  role: UserRole;
+  // Stations the account is assigned to once the invitation is accepted
+  stations: mongoose.Types.ObjectId[];
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvitationSchema: Schema = new Schema({
+  tokenHash: { type: String, required: true, unique: true, select: false },
+  employeeNumber: { type: String, required: true, trim: true },
+  role: {
+    type: String,
+    enum: ['admin', 'supervisor', 'employee'],
+    default: 'employee',
+    required: true
+  },
+  stations: [{ type: Schema.Types.ObjectId, ref: 'Station' }],
+  firstName: { type: String, trim: true },
+  lastName: { type: String, trim: true },
+  email: { type: String, trim: true, lowercase: true },
+  invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  expiresAt: { type: Date, required: true },
+  acceptedAt: Date,
+  acceptedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  revokedAt: Date,
+  revokedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+InvitationSchema.index({ employeeNumber: 1, createdAt: -1 });
+InvitationSchema.index({ invitedBy: 1, createdAt: -1 });
+
+export default mongoose.model<IInvitation>('Invitation', InvitationSchema);
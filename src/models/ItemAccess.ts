@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ItemAccessAction = 'listed' | 'viewed' | 'images_viewed' | 'receipt_downloaded' | 'identification_viewed' | 'history_viewed';
+
+export const ITEM_ACCESS_ACTIONS: ItemAccessAction[] = ['listed', 'viewed', 'images_viewed', 'receipt_downloaded', 'identification_viewed', 'history_viewed'];
+
+// Read access to a high-value or sensitive item. Changes are in the item's history.
+export interface IItemAccess extends Document {
+  item: mongoose.Types.ObjectId;
+  itemModel: 'LostItem' | 'DeliveredItem';
+  action: ItemAccessAction;
+  user: mongoose.Types.ObjectId;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const ItemAccessSchema: Schema = new Schema({
+  item: { type: Schema.Types.ObjectId, required: true, refPath: 'itemModel' },
+  itemModel: {
+    type: String,
+    enum: ['LostItem', 'DeliveredItem'],
+    required: true
+  },
+  action: { type: String, enum: ITEM_ACCESS_ACTIONS, required: true },
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  ipAddress: String,
+  userAgent: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+ItemAccessSchema.index({ item: 1, createdAt: -1 });
+ItemAccessSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IItemAccess>('ItemAccess', ItemAccessSchema);
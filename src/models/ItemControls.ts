@@ -0,0 +1,47 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Second employee who confirmed, with their own password, that a high-value item was logged as described
+export interface IItemWitness {
+  user: mongoose.Types.ObjectId;
+  witnessedAt: Date;
+}
+
+// Cash found with an item, counted by one employee in front of another
+export interface ICashCount {
+  amount: number;
+  // ISO 4217 code, e.g. `CAD`
+  currency: string;
+  countedBy: mongoose.Types.ObjectId;
+  witnessedBy: mongoose.Types.ObjectId;
+  countedAt: Date;
+}
+
+// Supervisor sign-off required before a high-value item is handed over
+export interface IDeliveryApproval {
+  approvedBy: mongoose.Types.ObjectId;
+  approvedAt: Date;
+  // Claim the approval was given for; handing the item to someone else needs a new approval
+  claimReport?: number;
+  notes?: string;
+}
+
+// Embedded in both LostItem and DeliveredItem so the controls follow the item
+export const ItemWitnessSchema = new Schema<IItemWitness>({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  witnessedAt: { type: Date, required: true }
+}, { _id: false });
+
+export const CashCountSchema = new Schema<ICashCount>({
+  amount: { type: Number, required: true },
+  currency: { type: String, required: true, uppercase: true },
+  countedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  witnessedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  countedAt: { type: Date, required: true }
+}, { _id: false });
+
+export const DeliveryApprovalSchema = new Schema<IDeliveryApproval>({
+  approvedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  approvedAt: { type: Date, required: true },
+  claimReport: Number,
+  notes: String
+}, { _id: false });
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type ItemEventAction = 'created' | 'updated' | 'images_added' | 'delivered' | 'reverted' | 'deleted' | 'disposed' | 'dispatched' | 'received' | 'delivery_approved' | 'moved';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface IItemEvent extends Document {
+  item: mongoose.Types.ObjectId;
+  itemModel: 'LostItem' | 'DeliveredItem';
+  relatedItem?: mongoose.Types.ObjectId;
+  relatedItemModel?: 'LostItem' | 'DeliveredItem';
+  action: ItemEventAction;
+  performedBy: mongoose.Types.ObjectId;
+  changes: FieldChange[];
+  snapshot?: Record<string, unknown>;
+  notes?: string;
+  createdAt: Date;
+}
+
+const ItemEventSchema: Schema = new Schema({
+  item: { type: Schema.Types.ObjectId, required: true, refPath: 'itemModel' },
+  itemModel: {
+    type: String,
+    enum: ['LostItem', 'DeliveredItem'],
+    required: true
+  },
+  // The item on the other side of a deliver or revert, which gets a new document
+  relatedItem: { type: Schema.Types.ObjectId, refPath: 'relatedItemModel' },
+  relatedItemModel: {
+    type: String,
+    enum: ['LostItem', 'DeliveredItem']
+  },
+  action: {
+    type: String,
+    enum: ['created', 'updated', 'images_added', 'delivered', 'reverted', 'deleted', 'disposed', 'dispatched', 'received', 'delivery_approved', 'moved'],
+    required: true
+  },
+  performedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed
+  }],
+  // Full copy of the item for events that remove it
+  snapshot: Schema.Types.Mixed,
+  notes: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+ItemEventSchema.index({ item: 1, createdAt: 1 });
+ItemEventSchema.index({ relatedItem: 1 });
+
+export default mongoose.model<IItemEvent>('ItemEvent', ItemEventSchema);
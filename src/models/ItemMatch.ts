@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type MatchStatus = 'suggested' | 'accepted' | 'rejected';
+
+export interface MatchBreakdown {
+  category: number;
+  flight: number;
+  date: number;
+  location: number;
+  description: number;
+}
+
+export interface IItemMatch extends Document {
+  item: mongoose.Types.ObjectId;
+  reportId: number;
+  score: number;
+  breakdown: MatchBreakdown;
+  status: MatchStatus;
+  decidedBy?: mongoose.Types.ObjectId;
+  decidedAt?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ItemMatchSchema: Schema = new Schema({
+  item: { type: Schema.Types.ObjectId, ref: 'LostItem', required: true },
+  // Prisma Report id of the passenger lost report
+  reportId: { type: Number, required: true },
+  score: { type: Number, required: true, min: 0, max: 1 },
+  breakdown: {
+    category: { type: Number, default: 0 },
+    flight: { type: Number, default: 0 },
+    date: { type: Number, default: 0 },
+    location: { type: Number, default: 0 },
+    description: { type: Number, default: 0 }
+  },
+  status: {
+    type: String,
+    enum: ['suggested', 'accepted', 'rejected'],
+    default: 'suggested'
+  },
+  decidedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  decidedAt: Date,
+  notes: String
+}, {
+  timestamps: true
+});
+
+ItemMatchSchema.index({ item: 1, reportId: 1 }, { unique: true });
+ItemMatchSchema.index({ reportId: 1, score: -1 });
+
+export default mongoose.model<IItemMatch>('ItemMatch', ItemMatchSchema);
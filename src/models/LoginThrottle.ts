@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoginThrottle extends Document {
+  // `account:<employee number>` or `ip:<address>`
+  key: string;
+  failures: number;
+  lastFailureAt?: Date;
+  // Next login attempt accepted for this key, while delays are in effect
+  nextAttemptAt?: Date;
+  lockedUntil?: Date;
+  // Counters are forgotten once this passes without further failures
+  expiresAt: Date;
+}
+
+const LoginThrottleSchema: Schema = new Schema({
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: Date,
+  nextAttemptAt: Date,
+  lockedUntil: Date,
+  expiresAt: { type: Date, required: true }
+});
+
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginThrottle>('LoginThrottle', LoginThrottleSchema);
@@ -1,11 +1,26 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { DeliveryRecordSchema, IDeliveryRecord } from './DeliveryRecord';
+import { ItemWitnessSchema, CashCountSchema, DeliveryApprovalSchema, IItemWitness, ICashCount, IDeliveryApproval } from './ItemControls';
 
 interface ImageInfo {
   url: string;
   publicId: string;
   thumbnailUrl?: string;
+  thumbnailPublicId?: string;
+  provider?: 'cloudinary' | 'local' | 'gcs';
+  private?: boolean;
 }
 
+export type ItemStatus = 'onHand' | 'pending' | 'inTransit' | 'delivered' | 'archived';
+
+// Transitions between these are defined in services/itemStatus.service.ts
+export const ITEM_STATUSES: ItemStatus[] = ['onHand', 'pending', 'inTransit', 'delivered', 'archived'];
+
+// High-value and sensitive items need a witness when logged and supervisor approval before delivery
+export type ItemHandling = 'standard' | 'highValue' | 'sensitive';
+
+export const ITEM_HANDLINGS: ItemHandling[] = ['standard', 'highValue', 'sensitive'];
+
 interface UserInfo {
   _id: mongoose.Types.ObjectId;
   firstName: string;
@@ -16,9 +31,24 @@ interface UserInfo {
 export interface ILostItem extends Document {
   itemName: string;
   description: string;
+  // Short code printed on the item's label and read by scanners, e.g. `7KQ2-M9XD`
+  referenceCode?: string;
+  // Station holding the item; `location` is where it was found within the station
+  station: mongoose.Types.ObjectId;
   location: string;
+  // Bin, shelf or room the item is kept in now, see models/StorageAssignment.ts for earlier ones
+  storageLocation?: mongoose.Types.ObjectId;
+  // Canonical name of the category, see models/Category.ts
   category: string;
-  status: 'pending' | 'onHand' | 'delivered' | 'archived';
+  // The category and its ancestors, root first
+  categoryPath: mongoose.Types.ObjectId[];
+  // Values of the category's attributes, e.g. `{ brand: 'Apple', imei: '...' }`
+  attributes?: Record<string, string | number | boolean>;
+  handling: ItemHandling;
+  witness?: IItemWitness;
+  cash?: ICashCount;
+  deliveryApproval?: IDeliveryApproval;
+  status: ItemStatus;
   images: ImageInfo[];
   foundBy: mongoose.Types.ObjectId | UserInfo;
   supervisor: mongoose.Types.ObjectId | UserInfo;
@@ -30,24 +60,54 @@ export interface ILostItem extends Document {
   };
   deliveredBy?: mongoose.Types.ObjectId | UserInfo;
   deliveredAt?: Date;
+  // Normalized carrier and number, e.g. `AC123`
   flightNumber: string;
+  flightDate?: Date;
+  origin?: string;
+  destination?: string;
+  // Schedule entry the flight details came from
+  flight?: mongoose.Types.ObjectId;
   dateFound: Date;
+  claimReport?: number;
+  transfer?: mongoose.Types.ObjectId;
+  disposal?: {
+    batch: mongoose.Types.ObjectId;
+    method: 'donated' | 'destroyed' | 'returned_to_police';
+    disposedAt: Date;
+    approvedBy: mongoose.Types.ObjectId;
+  };
+  deliveryHistory: IDeliveryRecord[];
+  createdAt: Date;
 }
 
 const LostItemSchema: Schema = new Schema({
   itemName: { type: String, required: true },
   description: { type: String, required: true },
+  referenceCode: { type: String, unique: true, sparse: true },
+  station: { type: Schema.Types.ObjectId, ref: 'Station' },
   location: { type: String, required: true },
+  storageLocation: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
   category: { type: String, required: true },
+  categoryPath: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+  attributes: Schema.Types.Mixed,
+  // Set from the category when the item is logged; counted cash makes any item high-value
+  handling: { type: String, enum: ITEM_HANDLINGS, default: 'standard' },
+  witness: ItemWitnessSchema,
+  cash: CashCountSchema,
+  deliveryApproval: DeliveryApprovalSchema,
   status: { 
     type: String, 
-    enum: ['pending', 'onHand', 'delivered', 'archived'],
+    enum: ITEM_STATUSES,
     default: 'onHand'
   },
   images: [{
     url: String,
     publicId: String,
-    thumbnailUrl: String
+    thumbnailUrl: String,
+    thumbnailPublicId: String,
+    // Storage backend holding the file; missing on files uploaded to Cloudinary before it was recorded
+    provider: String,
+    private: Boolean
   }],
   foundBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   supervisor: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -60,11 +120,48 @@ const LostItemSchema: Schema = new Schema({
   deliveredBy: { type: Schema.Types.ObjectId, ref: 'User' },
   deliveredAt: Date,
   flightNumber: { type: String, required: true },
-  dateFound: { type: Date, required: true }
+  flightDate: Date,
+  origin: { type: String, uppercase: true },
+  destination: { type: String, uppercase: true },
+  flight: { type: Schema.Types.ObjectId, ref: 'Flight' },
+  dateFound: { type: Date, required: true },
+  // Passenger report whose match was accepted; the item is `pending` pickup while set
+  claimReport: Number,
+  // Transfer carrying the item to another station; the item is `inTransit` while set
+  transfer: { type: Schema.Types.ObjectId, ref: 'Transfer' },
+  // Set when an approved disposal batch archives the item
+  disposal: {
+    batch: { type: Schema.Types.ObjectId, ref: 'DisposalBatch' },
+    method: { type: String, enum: ['donated', 'destroyed', 'returned_to_police'] },
+    disposedAt: Date,
+    approvedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+  },
+  // Deliveries of this item that were reverted, oldest first
+  deliveryHistory: [DeliveryRecordSchema]
 }, {
   timestamps: true
 });
 
+// Indexes backing the filtered, sorted listings
+LostItemSchema.index({ status: 1, dateFound: -1 });
+LostItemSchema.index({ station: 1, status: 1, dateFound: -1 });
+LostItemSchema.index({ createdAt: -1 });
+LostItemSchema.index({ flightNumber: 1 });
+LostItemSchema.index({ origin: 1, destination: 1, flightDate: -1 });
+LostItemSchema.index({ category: 1 });
+LostItemSchema.index({ categoryPath: 1 });
+LostItemSchema.index({ handling: 1 });
+LostItemSchema.index({ storageLocation: 1 });
+LostItemSchema.index({ foundBy: 1, createdAt: -1 });
+LostItemSchema.index({ supervisor: 1 });
+LostItemSchema.index({ 'deliveryHistory.receiptCode': 1 }, { sparse: true });
+
+// Full-text search, weighted towards the fields agents usually type
+LostItemSchema.index(
+  { itemName: 'text', flightNumber: 'text', category: 'text', description: 'text', location: 'text' },
+  { name: 'LostItemTextIndex', weights: { itemName: 10, flightNumber: 8, category: 5, description: 3, location: 2 } }
+);
+
 // Ensure user references are always populated
 LostItemSchema.pre('find', function() {
   this.populate('foundBy', 'firstName lastName employeeNumber')
@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRetentionPolicy extends Document {
+  category: string;
+  retentionDays: number;
+  description?: string;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RetentionPolicySchema: Schema = new Schema({
+  // Item category this policy applies to, or `default` for every other category
+  category: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  retentionDays: { type: Number, required: true, min: 1 },
+  description: String,
+  updatedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IRetentionPolicy>('RetentionPolicy', RetentionPolicySchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SecurityEventType =
+  | 'account_locked'
+  | 'ip_locked'
+  | 'account_unlocked'
+  | 'password_reset_issued'
+  | 'password_reset';
+
+export const SECURITY_EVENT_TYPES: SecurityEventType[] = [
+  'account_locked',
+  'ip_locked',
+  'account_unlocked',
+  'password_reset_issued',
+  'password_reset'
+];
+
+export interface ISecurityEvent extends Document {
+  type: SecurityEventType;
+  // Employee number as typed at login; may not belong to an existing user
+  employeeNumber?: string;
+  user?: mongoose.Types.ObjectId;
+  ipAddress?: string;
+  userAgent?: string;
+  // User who triggered the event, e.g. the admin unlocking an account
+  actor?: mongoose.Types.ObjectId;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const SecurityEventSchema: Schema = new Schema({
+  type: { type: String, enum: SECURITY_EVENT_TYPES, required: true },
+  employeeNumber: String,
+  user: { type: Schema.Types.ObjectId, ref: 'User' },
+  ipAddress: String,
+  userAgent: String,
+  actor: { type: Schema.Types.ObjectId, ref: 'User' },
+  details: Schema.Types.Mixed
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+SecurityEventSchema.index({ createdAt: -1 });
+SecurityEventSchema.index({ type: 1, createdAt: -1 });
+SecurityEventSchema.index({ employeeNumber: 1, createdAt: -1 });
+
+export default mongoose.model<ISecurityEvent>('SecurityEvent', SecurityEventSchema);
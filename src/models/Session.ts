@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  // SHA-256 of the current refresh token; the token itself is only ever sent to the client
+  refreshTokenHash: string;
+  // Hash of the token it replaced, kept to detect a stolen token being replayed
+  previousRefreshTokenHash?: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  refreshTokenHash: { type: String, required: true },
+  previousRefreshTokenHash: String,
+  deviceName: { type: String, trim: true, maxlength: 100 },
+  userAgent: String,
+  ipAddress: String,
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  revokedAt: Date,
+  revokedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  revokedReason: String
+}, {
+  timestamps: true
+});
+
+SessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+// Let MongoDB purge sessions a week after they stop being usable
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
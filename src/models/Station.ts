@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface StationAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface IStation extends Document {
+  // IATA airport code, e.g. `YUL`
+  code: string;
+  name: string;
+  // IANA time zone, e.g. `America/Toronto`
+  timezone: string;
+  address?: StationAddress;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StationSchema: Schema = new Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/
+  },
+  name: { type: String, required: true, trim: true },
+  timezone: { type: String, required: true },
+  address: {
+    line1: String,
+    line2: String,
+    city: String,
+    region: String,
+    postalCode: String,
+    country: String
+  },
+  active: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IStation>('Station', StationSchema);
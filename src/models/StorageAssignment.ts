@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Why an item left a storage location
+export type StorageReleaseReason = 'moved' | 'delivered' | 'dispatched' | 'disposed' | 'deleted';
+
+export const STORAGE_RELEASE_REASONS: StorageReleaseReason[] = ['moved', 'delivered', 'dispatched', 'disposed', 'deleted'];
+
+// A stay of an item in a storage location. The open stay has no `releasedAt`.
+export interface IStorageAssignment extends Document {
+  // Lost item `_id`, which the delivered item keeps
+  item: mongoose.Types.ObjectId;
+  location: mongoose.Types.ObjectId;
+  station: mongoose.Types.ObjectId;
+  assignedBy: mongoose.Types.ObjectId;
+  assignedAt: Date;
+  notes?: string;
+  releasedBy?: mongoose.Types.ObjectId;
+  releasedAt?: Date;
+  releaseReason?: StorageReleaseReason;
+}
+
+const StorageAssignmentSchema: Schema = new Schema({
+  item: { type: Schema.Types.ObjectId, required: true },
+  location: { type: Schema.Types.ObjectId, ref: 'StorageLocation', required: true },
+  station: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+  assignedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  assignedAt: { type: Date, required: true },
+  notes: String,
+  releasedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  releasedAt: Date,
+  releaseReason: { type: String, enum: STORAGE_RELEASE_REASONS }
+});
+
+StorageAssignmentSchema.index({ item: 1, assignedAt: -1 });
+StorageAssignmentSchema.index({ location: 1, assignedAt: -1 });
+
+export default mongoose.model<IStorageAssignment>('StorageAssignment', StorageAssignmentSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type StorageLocationType = 'room' | 'shelf' | 'bin';
+
+// Each level sits inside the one before it: rooms hold shelves, shelves hold bins
+export const STORAGE_LOCATION_TYPES: StorageLocationType[] = ['room', 'shelf', 'bin'];
+
+// A place in a station's lost and found office where items are kept
+export interface IStorageLocation extends Document {
+  station: mongoose.Types.ObjectId;
+  type: StorageLocationType;
+  // Short label printed on the room door, shelf or bin, e.g. `B-03`; unique within the station
+  code: string;
+  name: string;
+  parent?: mongoose.Types.ObjectId;
+  // Room and shelf above this location, room first
+  ancestors: mongoose.Types.ObjectId[];
+  // Most items this location and everything inside it can hold; unset means no limit
+  capacity?: number;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StorageLocationSchema: Schema = new Schema({
+  station: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+  type: { type: String, enum: STORAGE_LOCATION_TYPES, required: true },
+  code: { type: String, required: true, uppercase: true, trim: true },
+  name: { type: String, required: true, trim: true },
+  parent: { type: Schema.Types.ObjectId, ref: 'StorageLocation' },
+  ancestors: [{ type: Schema.Types.ObjectId, ref: 'StorageLocation' }],
+  capacity: { type: Number, min: 1 },
+  active: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+StorageLocationSchema.index({ station: 1, code: 1 }, { unique: true });
+StorageLocationSchema.index({ parent: 1 });
+StorageLocationSchema.index({ ancestors: 1 });
+
+export default mongoose.model<IStorageLocation>('StorageLocation', StorageLocationSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TransferStatus = 'preparing' | 'in_transit' | 'received' | 'cancelled';
+
+export const TRANSFER_STATUSES: TransferStatus[] = ['preparing', 'in_transit', 'received', 'cancelled'];
+
+export type CustodyAction = 'created' | 'dispatched' | 'received' | 'cancelled';
+
+export interface TransferItem {
+  item: mongoose.Types.ObjectId;
+  itemName: string;
+  description: string;
+  category: string;
+  flightNumber: string;
+  location: string;
+  dateFound: Date;
+  // Passenger report the item is held for, if any
+  claimReport?: number;
+}
+
+export interface CustodyEntry {
+  action: CustodyAction;
+  // Station holding the items once the step is done
+  station: mongoose.Types.ObjectId;
+  by: mongoose.Types.ObjectId;
+  at: Date;
+  notes?: string;
+}
+
+export interface ITransfer extends Document {
+  transferNumber: string;
+  fromStation: mongoose.Types.ObjectId;
+  toStation: mongoose.Types.ObjectId;
+  status: TransferStatus;
+  items: TransferItem[];
+  // Flight or courier carrying the items
+  carrier?: string;
+  trackingNumber?: string;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  dispatchedAt?: Date;
+  expectedArrivalAt?: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+  custody: CustodyEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TransferSchema: Schema = new Schema({
+  transferNumber: { type: String, required: true, unique: true },
+  fromStation: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+  toStation: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+  status: {
+    type: String,
+    enum: TRANSFER_STATUSES,
+    default: 'preparing'
+  },
+  // Item details are copied so the manifest stays accurate after the items are delivered
+  items: [{
+    _id: false,
+    item: { type: Schema.Types.ObjectId, ref: 'LostItem', required: true },
+    itemName: String,
+    description: String,
+    category: String,
+    flightNumber: String,
+    location: String,
+    dateFound: Date,
+    claimReport: Number
+  }],
+  carrier: String,
+  trackingNumber: String,
+  notes: String,
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  dispatchedAt: Date,
+  // Transfers still in transit after this are reported as overdue
+  expectedArrivalAt: Date,
+  receivedAt: Date,
+  cancelledAt: Date,
+  // Who held the items and when, oldest first
+  custody: [{
+    _id: false,
+    action: {
+      type: String,
+      enum: ['created', 'dispatched', 'received', 'cancelled'],
+      required: true
+    },
+    station: { type: Schema.Types.ObjectId, ref: 'Station', required: true },
+    by: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    at: { type: Date, required: true },
+    notes: String
+  }]
+}, {
+  timestamps: true
+});
+
+TransferSchema.index({ fromStation: 1, status: 1, createdAt: -1 });
+TransferSchema.index({ toStation: 1, status: 1, createdAt: -1 });
+TransferSchema.index({ status: 1, expectedArrivalAt: 1 });
+TransferSchema.index({ 'items.item': 1 });
+
+export default mongoose.model<ITransfer>('Transfer', TransferSchema);
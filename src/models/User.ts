@@ -8,11 +8,26 @@ export interface IUser extends mongoose.Document {
   lastName: string;
   role: string;
   permissions: mongoose.Types.ObjectId[];
+  // Stations the user works at; their items and lists are limited to these
+  stations: mongoose.Types.ObjectId[];
+  // Earlier password hashes, newest first, to refuse reusing them
+  passwordHistory: string[];
+  passwordChangedAt?: Date;
+  // Set when an administrator chose the password; the user has to pick their own
+  mustChangePassword: boolean;
+  // SHA-256 of the outstanding one-time reset token
+  passwordResetTokenHash?: string;
+  passwordResetExpiresAt?: Date;
+  passwordResetIssuedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  needsRehash(): boolean;
 }
 
+// Work factor for new password hashes. Existing hashes are upgraded at the next login.
+export const getBcryptRounds = (): number => Number(process.env.BCRYPT_ROUNDS) || 10;
+
 const userSchema = new mongoose.Schema({
   employeeNumber: {
     type: String,
@@ -40,7 +55,30 @@ const userSchema = new mongoose.Schema({
   permissions: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Permission'
-  }]
+  }],
+  stations: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Station'
+  }],
+  passwordHistory: {
+    type: [String],
+    select: false,
+    default: []
+  },
+  passwordChangedAt: Date,
+  mustChangePassword: {
+    type: Boolean,
+    default: false
+  },
+  passwordResetTokenHash: {
+    type: String,
+    select: false
+  },
+  passwordResetExpiresAt: Date,
+  passwordResetIssuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
 }, {
   timestamps: true
 });
@@ -48,7 +86,7 @@ const userSchema = new mongoose.Schema({
 // Hash password before saving
 userSchema.pre('save', async function(next) {
   if (this.isModified('password')) {
-    this.password = await bcrypt.hash(this.password, 8);
+    this.password = await bcrypt.hash(this.password, getBcryptRounds());
   }
   next();
 });
@@ -58,4 +96,9 @@ userSchema.methods.comparePassword = async function(candidatePassword: string):
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Whether the stored hash was made with a different work factor than the configured one
+userSchema.methods.needsRehash = function(): boolean {
+  return bcrypt.getRounds(this.password) !== getBcryptRounds();
+};
+
 export default mongoose.model<IUser>('User', userSchema);
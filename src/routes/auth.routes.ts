@@ -1,70 +1,59 @@
 import express, { Request, Response, RequestHandler } from 'express';
-import { body } from 'express-validator';
-import jwt from 'jsonwebtoken';
+import { body, validationResult } from 'express-validator';
 import mongoose, { Document, Types } from 'mongoose';
 import User, { IUser } from '../models/User';
 import Permission, { IPermission } from '../models/Permission';
-import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { ISession } from '../models/Session';
+import { auth, authAllowingPasswordChange, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { hasPermission, requirePermission } from '../middleware/permissions';
+import sessionService, { SessionClient } from '../services/session.service';
+import loginProtectionService, { LoginThrottledError } from '../services/loginProtection.service';
+import invitationService from '../services/invitation.service';
+import passwordService from '../services/password.service';
+import { ServiceError } from '../utils/errors';
 
 const router = express.Router();
 
-// Register route
+// Device details recorded with a new or refreshed session
+const getClient = (req: Request): SessionClient => ({
+  deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName : undefined,
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip
+});
+
+const toSessionResponse = (session: ISession, currentSessionId?: string) => ({
+  _id: session._id,
+  deviceName: session.deviceName,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  current: String(session._id) === currentSessionId
+});
+
+// Register route: only possible with a pending invitation, which fixes the employee number and role
 router.post('/register',
   [
-    body('employeeNumber').notEmpty(),
-    body('password').isLength({ min: 6 }),
-    body('firstName').notEmpty(),
-    body('lastName').notEmpty(),
+    body('invitationToken').isString().notEmpty(),
+    body('password').isString(),
   ],
   async (req: Request, res: Response) => {
     try {
-      const { employeeNumber, password, firstName, lastName } = req.body;
-      
-      const existingUser = await User.findOne({ employeeNumber }) as IUser | null;
-      if (existingUser) {
-        return res.status(400).json({ message: 'Employee number already exists' });
-      }
-
-      // Get default permissions for employees
-      const defaultPermissions = await Permission.find({
-        name: { 
-          $in: [
-            'view_items',
-            'view_dashboard',
-            'edit_items',
-            'view_reports'
-          ]
-        }
-      });
-
-      if (defaultPermissions.length === 0) {
-        console.error('Default permissions not found');
-        return res.status(500).json({ message: 'Error setting up user permissions' });
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
       }
 
-      const user = await User.create({
-        employeeNumber,
-        password,
-        firstName,
-        lastName,
-        role: 'employee', // Default role
-        permissions: defaultPermissions.map(p => p._id) // Assign all default permissions
-      }) as any;
-
-      const tokenPayload = {
-        id: user._id.toString(),
-        employeeNumber: user.employeeNumber,
-        role: user.role
-      };
+      const { invitationToken, employeeNumber, password, firstName, lastName } = req.body;
+      const user = await invitationService.accept({ token: invitationToken, employeeNumber, password, firstName, lastName });
 
-      const token = jwt.sign(
-        tokenPayload,
-        process.env.JWT_SECRET || 'your-secret-key',
-        { expiresIn: '24h' }
-      );
+      const { token, refreshToken, expiresIn } = await sessionService.create(user, getClient(req));
 
       res.status(201).json({
         token,
+        refreshToken,
+        expiresIn,
         user: {
           _id: user._id,
           employeeNumber: user.employeeNumber,
@@ -75,6 +64,9 @@ router.post('/register',
         }
       });
     } catch (error) {
+      if (error instanceof ServiceError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
       console.error('Registration error:', error);
       res.status(500).json({ message: 'Error registering user' });
     }
@@ -85,9 +77,16 @@ router.post('/register',
 router.post('/login', async (req: Request, res: Response) => {
   try {
     const { employeeNumber, password } = req.body;
+    if (typeof employeeNumber !== 'string' || typeof password !== 'string') {
+      return res.status(401).json({ message: 'Invalid credentials' });
+    }
+
+    const client = { employeeNumber, ipAddress: req.ip, userAgent: req.get('User-Agent') };
+    await loginProtectionService.assertAllowed(client);
 
     const userDoc = await User.findOne({ employeeNumber }).select('+password').exec();
     if (!userDoc) {
+      await loginProtectionService.recordFailure(client);
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
@@ -95,26 +94,21 @@ router.post('/login', async (req: Request, res: Response) => {
 
     const isMatch = await userDoc.comparePassword(password);
     if (!isMatch) {
+      await loginProtectionService.recordFailure(client, user._id);
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
-    // Create token payload
-    const tokenPayload = {
-      id: user._id.toString(),
-      employeeNumber: user.employeeNumber,
-      role: user.role
-    };
+    await loginProtectionService.recordSuccess(client);
+    await passwordService.rehashIfNeeded(userDoc, password);
 
-    // Sign token
-    const token = jwt.sign(
-      tokenPayload,
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '24h' }
-    );
+    // Start a session for this device
+    const { token, refreshToken, expiresIn } = await sessionService.create(user, getClient(req));
 
-    // Return user data and token
+    // Return user data and tokens
     res.json({
       token,
+      refreshToken,
+      expiresIn,
       user: {
         _id: user._id,
         employeeNumber: user.employeeNumber,
@@ -122,30 +116,96 @@ router.post('/login', async (req: Request, res: Response) => {
         lastName: user.lastName,
         role: user.role,
         permissions: user.permissions
-      }
+      },
+      // Every other request is refused until the user picks a new password
+      mustChangePassword: !!user.mustChangePassword
     });
   } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      res.set('Retry-After', String(error.retryAfter));
+      return res.status(error.status).json({ message: error.message, code: error.code, retryAfter: error.retryAfter });
+    }
     console.error('Login error:', error);
     res.status(500).json({ message: 'Server error during login' });
   }
 });
 
-// Logout route
-router.post('/logout', auth, (req: Request, res: Response) => {
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req: Request, res: Response) => {
   try {
-    // Since we're using JWT, we don't need to do anything server-side
-    // The client will remove the token
+    const tokens = await sessionService.refresh(req.body.refreshToken, getClient(req));
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ message: 'Error refreshing token' });
+  }
+});
+
+// Logout route: ends the session the request was made with
+router.post('/logout', authAllowingPasswordChange, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (req.sessionId) {
+      await sessionService.revoke(req.sessionId, req.user._id, 'Logged out');
+    }
     res.json({ message: 'Logged out successfully' });
   } catch (error) {
     console.error('Logout error:', error);
     res.status(500).json({ message: 'Error during logout' });
   }
-});
+}));
+
+// List the current user's active sessions
+router.get('/sessions', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const sessions = await sessionService.listForUser(req.user._id);
+    res.json(sessions.map(session => toSessionResponse(session, req.sessionId)));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ message: 'Error fetching sessions' });
+  }
+}));
+
+// Revoke all of the current user's sessions; `keepCurrent=true` stays logged in on this device
+router.delete('/sessions', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const keepCurrent = req.query.keepCurrent === 'true';
+    const revoked = await sessionService.revokeAllForUser(
+      req.user._id,
+      req.user._id,
+      'Logged out of all devices',
+      keepCurrent ? req.sessionId : undefined
+    );
+    res.json({ message: 'Sessions revoked successfully', revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ message: 'Error revoking sessions' });
+  }
+}));
+
+// Revoke one session. Users with manage_users can revoke anyone's session.
+router.delete('/sessions/:sessionId', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const session = await sessionService.findById(req.params.sessionId);
+    const isOwn = session && session.user.toString() === req.user._id.toString();
+    if (!session || (!isOwn && !hasPermission(req.user, 'manage_users'))) {
+      return res.status(404).json({ message: 'Session not found', code: 'SESSION_NOT_FOUND' });
+    }
+
+    await sessionService.revoke(req.params.sessionId, req.user._id, isOwn ? 'Revoked by user' : 'Revoked by administrator');
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ message: 'Error revoking session' });
+  }
+}));
 
 // Get current user route
-router.get('/me', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/me', authAllowingPasswordChange, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const user = await User.findById(req.user._id).select('-password') as IUser | null;
+    const user = await User.findById(req.user._id).select('-password').populate('stations', 'code name timezone') as IUser | null;
     if (!user) {
       return res.status(404).json({
         message: 'User not found',
@@ -162,13 +222,13 @@ router.get('/me', auth, createAuthenticatedHandler(async (req: AuthenticatedRequ
   }
 }));
 
-// Change password route
-router.post('/change-password', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Change password route. Also reachable while a password change is pending.
+router.post('/change-password', authAllowingPasswordChange, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { currentPassword, newPassword } = req.body;
 
     // Find user
-    const user = await User.findById(req.user._id) as IUser | null;
+    const user = await User.findById(req.user._id).select('+password') as IUser | null;
     if (!user) {
       return res.status(404).json({
         message: 'User not found',
@@ -177,7 +237,7 @@ router.post('/change-password', auth, createAuthenticatedHandler(async (req: Aut
     }
 
     // Verify current password
-    const isMatch = await user.comparePassword(currentPassword);
+    const isMatch = typeof currentPassword === 'string' && await user.comparePassword(currentPassword);
     if (!isMatch) {
       return res.status(401).json({
         message: 'Current password is incorrect',
@@ -185,12 +245,18 @@ router.post('/change-password', auth, createAuthenticatedHandler(async (req: Aut
       });
     }
 
-    // Update password
-    user.password = newPassword;
-    await user.save();
+    // Update password, signing out other devices that may have been using the old one
+    await passwordService.setPassword(user._id as Types.ObjectId, newPassword, {
+      actor: req.user._id,
+      keepSessionId: req.sessionId,
+      reason: 'Password changed'
+    });
 
     res.json({ message: 'Password updated successfully' });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Change password error:', error);
     res.status(500).json({
       message: 'Error changing password',
@@ -199,6 +265,26 @@ router.post('/change-password', auth, createAuthenticatedHandler(async (req: Aut
   }
 }));
 
+// Set a new password with a one-time token issued by an administrator
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body;
+    await passwordService.resetWithToken(token, newPassword, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
+    res.json({ message: 'Password reset successfully. Log in with your new password' });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Password reset error:', error);
+    res.status(500).json({ message: 'Error resetting password' });
+  }
+});
+
+// Password rules, so clients can check them before submitting
+router.get('/password-policy', (req: Request, res: Response) => {
+  res.json(passwordService.policy);
+});
+
 // Get available permissions
 router.get('/permissions', async (req: Request, res: Response) => {
   try {
@@ -318,4 +404,34 @@ router.get('/users/:userId/permissions', auth, createAuthenticatedHandler(async
   }
 }));
 
+// List a user's active sessions (admin)
+router.get('/users/:userId/sessions', auth, requirePermission('manage_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(400).json({ message: 'Invalid user id', code: 'INVALID_ID' });
+    }
+
+    const sessions = await sessionService.listForUser(req.params.userId);
+    res.json(sessions.map(session => toSessionResponse(session, req.sessionId)));
+  } catch (error) {
+    console.error('Error fetching user sessions:', error);
+    res.status(500).json({ message: 'Error fetching user sessions' });
+  }
+}));
+
+// Sign a user out of every device, e.g. a lost kiosk login or a departing employee (admin)
+router.delete('/users/:userId/sessions', auth, requirePermission('manage_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(400).json({ message: 'Invalid user id', code: 'INVALID_ID' });
+    }
+
+    const revoked = await sessionService.revokeAllForUser(req.params.userId, req.user._id, 'Revoked by administrator');
+    res.json({ message: 'Sessions revoked successfully', revoked });
+  } catch (error) {
+    console.error('Error revoking user sessions:', error);
+    res.status(500).json({ message: 'Error revoking user sessions' });
+  }
+}));
+
 export default router;
@@ -0,0 +1,79 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import categoryService from '../services/category.service';
+import { ServiceError } from '../utils/errors';
+
+const router = Router();
+
+// List the category taxonomy. Each category has its `parent` and `ancestors` to build the tree from.
+router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const categories = await categoryService.list(includeInactive);
+    res.json(categories);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({ message: 'Error fetching categories' });
+  }
+}));
+
+// Attributes items of a category need, including the ones inherited from its parents
+router.get('/:id/attributes', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const category = await categoryService.findById(req.params.id);
+    res.json(await categoryService.effectiveAttributes(category));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching category attributes:', error);
+    res.status(500).json({ message: 'Error fetching category attributes' });
+  }
+}));
+
+// Create a category
+router.post('/', auth, requirePermission('manage_categories'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, parent, aliases, attributes, handling, active } = req.body;
+    const category = await categoryService.create({ name, parent, aliases, attributes, handling, active });
+    res.status(201).json(category);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating category:', error);
+    res.status(500).json({ message: 'Error creating category' });
+  }
+}));
+
+// Update a category. Deactivated categories stay on existing items but cannot be picked for new ones.
+router.put('/:id', auth, requirePermission('manage_categories'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, parent, aliases, attributes, handling, active } = req.body;
+    const category = await categoryService.update(req.params.id, { name, parent, aliases, attributes, handling, active });
+    res.json(category);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error updating category:', error);
+    res.status(500).json({ message: 'Error updating category' });
+  }
+}));
+
+// Merge a duplicate category into the category given as `into`
+router.post('/:id/merge', auth, requirePermission('manage_categories'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await categoryService.merge(req.params.id, req.body.into);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error merging categories:', error);
+    res.status(500).json({ message: 'Error merging categories' });
+  }
+}));
+
+export default router;
@@ -1,93 +1,125 @@
 import express, { Request, Response, RequestHandler } from 'express';
-import multer from 'multer';
-import { auth, checkRole, createAuthenticatedHandler, AuthenticatedRequest } from '../middleware/auth';
+import { auth, createAuthenticatedHandler, AuthenticatedRequest } from '../middleware/auth';
+import { uploadImages } from '../middleware/upload';
+import { requirePermission, hasPermission, ownerOf, getUserId, requireStationAccess } from '../middleware/permissions';
 import DeliveredItem from '../models/DeliveredItem';
-import LostItem from '../models/LostItem';
-import cloudinaryService from '../services/cloudinary.service';
+import storageService from '../services/storage.service';
+import itemHistoryService from '../services/itemHistory.service';
+import receiptPdfService from '../services/receiptPdf.service';
+import deliveredItemsService from '../services/deliveredItems.service';
+import matchingService from '../services/matching.service';
+import itemStatusService from '../services/itemStatus.service';
+import searchService from '../services/search.service';
+import stationService from '../services/station.service';
+import flightService from '../services/flight.service';
+import categoryService from '../services/category.service';
+import itemAccessService from '../services/itemAccess.service';
 import mongoose from 'mongoose';
+import { parseListOptions, paginate } from '../utils/pagination';
+import { buildDeliveredItemFilters, buildLostItemFilters, DELIVERED_ITEM_SORT_FIELDS } from '../utils/itemFilters';
+import { ServiceError } from '../utils/errors';
 
 const router = express.Router();
 
-// Configure multer for file upload
-const upload = multer({ storage: multer.memoryStorage() });
-
-// Helper function to normalize status
-const normalizeStatus = (status: string): string => {
-  const statusMap: { [key: string]: string } = {
-    'on-hand': 'onHand',
-    'in-process': 'inProcess',
-    'delivered': 'delivered'
-  };
-  return statusMap[status.toLowerCase()] || status;
+const deliveredItemOwner = ownerOf(DeliveredItem);
+const deliveredItemStation = requireStationAccess(DeliveredItem);
+
+// Users without view_all_items only see delivered items they found
+const canViewAllItems = (req: AuthenticatedRequest) => hasPermission(req.user, 'view_all_items');
+
+// Only changed through the workflows that own them (delivery, revert). What the
+// receipt attests (receiver, signature, agent, time and photos) is fixed at delivery.
+const PROTECTED_FIELDS = [
+  '_id', 'station', 'flight', 'categoryPath', 'handling', 'witness', 'cash', 'deliveryApproval',
+  'claimReport', 'deliveryHistory', 'receiptCode', 'referenceCode', 'customerInfo', 'deliveredBy',
+  'dateDelivered', 'deliveryPhotos', 'createdAt', 'updatedAt'
+];
+
+const UNKNOWN_USER = {
+  firstName: 'Unknown',
+  lastName: 'User',
+  employeeNumber: 'N/A'
+};
+
+// Replace missing user references so clients can always render a name
+const withUserPlaceholders = (item: Record<string, any>) => {
+  if (!item.foundBy || typeof item.foundBy === 'string') {
+    item.foundBy = { _id: new mongoose.Types.ObjectId(), ...UNKNOWN_USER };
+  }
+  if (!item.deliveredBy || typeof item.deliveredBy === 'string') {
+    item.deliveredBy = { _id: new mongoose.Types.ObjectId(), ...UNKNOWN_USER };
+  }
+  return item;
 };
 
-// Search delivered items
-router.get('/search', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Search delivered items. With `searchTerm` results are ranked by relevance
+// unless `sort` is given; `scope=all` also searches items still on hand.
+router.get('/search', auth, requirePermission('view_delivered_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const searchTerm = req.query.searchTerm as string;
     const includeArchived = req.query.includeArchived === 'true';
+    const scope = searchService.parseScope(req.query.scope, 'delivered');
+    if (scope === 'lost') {
+      return res.status(400).json({ message: 'scope must be delivered or all', code: 'INVALID_SCOPE' });
+    }
+    const options = parseListOptions(req.query, {
+      sortFields: DELIVERED_ITEM_SORT_FIELDS,
+      defaultSort: searchTerm ? '' : '-dateDelivered'
+    });
     
-    let query: any = {};
+    const stationScope = await stationService.scopeFilter(req.user, req.query.station);
+    let query: any = { ...buildDeliveredItemFilters(req.query), ...stationScope };
     
-    // If user is not admin or supervisor, only show their own items
-    if (req.user && req.user.role !== 'admin' && req.user.role !== 'supervisor') {
+    if (!canViewAllItems(req)) {
       query.foundBy = req.user._id;
     }
 
-    if (searchTerm) {
-      query.$or = [
-        { flightNumber: { $regex: searchTerm, $options: 'i' } },
-        { description: { $regex: searchTerm, $options: 'i' } },
-        { 'customerInfo.name': { $regex: searchTerm, $options: 'i' } },
-        { 'customerInfo.email': { $regex: searchTerm, $options: 'i' } },
-        { 'customerInfo.phone': { $regex: searchTerm, $options: 'i' } }
-      ];
-    }
-
-    if (!includeArchived) {
+    if (!includeArchived && query.archived === undefined) {
       query.archived = { $ne: true };
     }
 
-    const items = await DeliveredItem.find(query)
-      .populate({
-        path: 'foundBy',
-        select: 'firstName lastName employeeNumber',
-        options: { allowEmptyPaths: true }
-      })
-      .populate({
-        path: 'deliveredBy',
-        select: 'firstName lastName employeeNumber',
-        options: { allowEmptyPaths: true }
-      })
-      .sort({ dateDelivered: -1 });
-
-    // Clean up any items with missing user references
-    const cleanedItems = items.map(item => {
-      const cleanedItem = item.toObject();
-
-      if (!cleanedItem.foundBy || typeof cleanedItem.foundBy === 'string') {
-        cleanedItem.foundBy = {
-          _id: new mongoose.Types.ObjectId(),
-          firstName: 'Unknown',
-          lastName: 'User',
-          employeeNumber: 'N/A'
-        };
-      }
-      
-      if (!cleanedItem.deliveredBy || typeof cleanedItem.deliveredBy === 'string') {
-        cleanedItem.deliveredBy = {
-          _id: new mongoose.Types.ObjectId(),
-          firstName: 'Unknown',
-          lastName: 'User',
-          employeeNumber: 'N/A'
-        };
+    if (searchTerm) {
+      const lost: Record<string, any> = { ...buildLostItemFilters(req.query), ...stationScope };
+      if (!canViewAllItems(req)) {
+        lost.foundBy = req.user._id;
       }
-      
-      return cleanedItem;
-    });
 
-    res.json(cleanedItems);
+      const { hits, total } = await searchService.search(
+        searchTerm,
+        scope,
+        { lost, delivered: query },
+        options,
+        !req.query.sort
+      );
+      hits.filter(hit => hit.type === 'delivered').forEach(hit => withUserPlaceholders(hit.item));
+      await itemAccessService.recordSearchHits(req, hits);
+      return res.json(paginate(hits, total, options));
+    }
+
+    const [total, items] = await Promise.all([
+      DeliveredItem.countDocuments(query),
+      DeliveredItem.find(query)
+        .populate({
+          path: 'foundBy',
+          select: 'firstName lastName employeeNumber',
+          options: { allowEmptyPaths: true }
+        })
+        .populate({
+          path: 'deliveredBy',
+          select: 'firstName lastName employeeNumber',
+          options: { allowEmptyPaths: true }
+        })
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit)
+    ]);
+
+    await itemAccessService.record(req, items, 'DeliveredItem', 'listed');
+    res.json(paginate(items.map(item => withUserPlaceholders(item.toObject())), total, options));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error searching delivered items:', error);
     res.status(500).json({ 
       message: 'Error searching delivered items',
@@ -96,43 +128,191 @@ router.get('/search', auth, createAuthenticatedHandler(async (req: Authenticated
   }
 }));
 
-// Get all delivered items
-router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Get a page of delivered items matching the filters in the query string
+router.get('/', auth, requirePermission('view_delivered_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const query: any = {};
+    const options = parseListOptions(req.query, { sortFields: DELIVERED_ITEM_SORT_FIELDS, defaultSort: '-dateDelivered' });
+    const query: any = {
+      ...buildDeliveredItemFilters(req.query),
+      ...await stationService.scopeFilter(req.user, req.query.station)
+    };
     
-    // If user is not admin or supervisor, only show their own items
-    if (req.user && req.user.role !== 'admin' && req.user.role !== 'supervisor') {
+    if (!canViewAllItems(req)) {
       query.foundBy = req.user._id;
     }
     
-    const items = await DeliveredItem.find(query)
-      .populate('foundBy', 'firstName lastName employeeNumber')
-      .populate('deliveredBy', 'firstName lastName employeeNumber')
-      .sort({ dateDelivered: -1 });
-    res.json(items);
+    const [total, items] = await Promise.all([
+      DeliveredItem.countDocuments(query),
+      DeliveredItem.find(query)
+        .populate('foundBy', 'firstName lastName employeeNumber')
+        .populate('deliveredBy', 'firstName lastName employeeNumber')
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit)
+    ]);
+    await itemAccessService.record(req, items, 'DeliveredItem', 'listed');
+    res.json(paginate(items, total, options));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error getting delivered items:', error);
     res.status(500).json({ message: 'Error getting delivered items' });
   }
 }));
 
 // Get all delivered items for the current user
-router.get('/my', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/my', auth, requirePermission('view_delivered_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const items = await DeliveredItem.find({ foundBy: req.user?._id })
-      .populate('foundBy', 'firstName lastName employeeNumber')
-      .populate('deliveredBy', 'firstName lastName employeeNumber')
-      .sort({ dateDelivered: -1 });
-    res.json(items);
+    const options = parseListOptions(req.query, { sortFields: DELIVERED_ITEM_SORT_FIELDS, defaultSort: '-dateDelivered' });
+    const query = buildDeliveredItemFilters(req.query, await stationService.scopeFilter(req.user, req.query.station));
+    query.foundBy = req.user._id;
+
+    const [total, items] = await Promise.all([
+      DeliveredItem.countDocuments(query),
+      DeliveredItem.find(query)
+        .populate('foundBy', 'firstName lastName employeeNumber')
+        .populate('deliveredBy', 'firstName lastName employeeNumber')
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit)
+    ]);
+    await itemAccessService.record(req, items, 'DeliveredItem', 'listed');
+    res.json(paginate(items, total, options));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error getting user delivered items:', error);
     res.status(500).json({ message: 'Error getting delivered items' });
   }
 }) as RequestHandler);
 
+// Verify a delivery receipt by its code. Public so a printed receipt can be
+// checked without an account, so only non-sensitive details are returned.
+router.get('/receipts/verify/:code', async (req: Request, res: Response) => {
+  try {
+    const item = await receiptPdfService.findByCode(req.params.code);
+    if (!item) {
+      if (await receiptPdfService.isRevoked(req.params.code)) {
+        return res.status(410).json({ valid: false, message: 'This delivery was reverted', code: 'RECEIPT_REVOKED' });
+      }
+      return res.status(404).json({ valid: false, message: 'Receipt not found', code: 'RECEIPT_NOT_FOUND' });
+    }
+
+    res.json({
+      valid: true,
+      receiptCode: item.receiptCode,
+      itemName: item.itemName,
+      category: item.category,
+      flightNumber: item.flightNumber,
+      dateDelivered: item.dateDelivered,
+      receiverName: item.customerInfo.name
+    });
+  } catch (error) {
+    console.error('Error verifying receipt:', error);
+    res.status(500).json({ message: 'Error verifying receipt' });
+  }
+});
+
+// Download the signed delivery receipt for a delivered item
+router.get('/:id/receipt', auth, requirePermission('view_delivered_items'), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await DeliveredItem.findById(req.params.id)
+      .populate('foundBy', 'firstName lastName employeeNumber')
+      .populate('deliveredBy', 'firstName lastName employeeNumber');
+
+    if (!item) {
+      return res.status(404).json({ message: 'Delivered item not found' });
+    }
+
+    const currentUserId = req.user._id.toString();
+    if (!canViewAllItems(req) &&
+        getUserId(item.foundBy) !== currentUserId &&
+        getUserId(item.deliveredBy) !== currentUserId) {
+      return res.status(403).json({ message: 'Not authorized to view this receipt' });
+    }
+
+    await itemAccessService.record(req, [item], 'DeliveredItem', 'receipt_downloaded');
+    const doc = await receiptPdfService.generate(item);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${item.receiptCode}.pdf"`);
+    doc.pipe(res);
+  } catch (error) {
+    console.error('Error generating delivery receipt:', error);
+    res.status(500).json({ message: 'Error generating delivery receipt' });
+  }
+}));
+
+// Get short-lived URLs for the receiver's ID scans, which are stored privately
+router.get('/:id/identification-photos', auth, requirePermission('view_delivered_items'), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await DeliveredItem.findById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Delivered item not found' });
+    }
+
+    const currentUserId = req.user._id.toString();
+    if (!canViewAllItems(req) &&
+        getUserId(item.foundBy) !== currentUserId &&
+        getUserId(item.deliveredBy) !== currentUserId) {
+      return res.status(403).json({ message: 'Not authorized to view these photos' });
+    }
+
+    const photos = await Promise.all((item.customerInfo.identificationPhotos || []).map(async (photo) => ({
+      publicId: photo.publicId,
+      url: await storageService.getSignedUrl(photo)
+    })));
+    await itemAccessService.record(req, [item], 'DeliveredItem', 'identification_viewed');
+    res.json(photos);
+  } catch (error) {
+    console.error('Error getting identification photos:', error);
+    res.status(500).json({ message: 'Error getting identification photos' });
+  }
+}));
+
+// Get viewable URLs for the item's photos; private photos of high-value items get signed URLs
+router.get('/:id/images', auth, requirePermission('view_delivered_items'), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await DeliveredItem.findById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Delivered item not found' });
+    }
+
+    if (!canViewAllItems(req) && getUserId(item.foundBy) !== req.user._id.toString()) {
+      return res.status(403).json({ message: 'Not authorized to view these photos' });
+    }
+
+    const images = await Promise.all(item.images.map(async (image) => ({
+      publicId: image.publicId,
+      url: image.private ? await storageService.getSignedUrl(image) : image.url,
+      thumbnailUrl: image.private && image.thumbnailPublicId
+        ? await storageService.getSignedUrl({ publicId: image.thumbnailPublicId, provider: image.provider, private: true })
+        : image.thumbnailUrl
+    })));
+    await itemAccessService.record(req, [item], 'DeliveredItem', 'images_viewed');
+    res.json(images);
+  } catch (error) {
+    console.error('Error getting delivered item images:', error);
+    res.status(500).json({ message: 'Error getting delivered item images' });
+  }
+}));
+
 // Get a specific delivered item
-router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id', auth, requirePermission('view_delivered_items'), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await DeliveredItem.findById(req.params.id)
       .populate('foundBy', 'firstName lastName employeeNumber')
@@ -147,11 +327,11 @@ router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedReq
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    if (req.user.role !== 'admin' && req.user.role !== 'supervisor' && 
-        item.foundBy._id.toString() !== req.user._id.toString()) {
+    if (!canViewAllItems(req) && getUserId(item.foundBy) !== req.user._id.toString()) {
       return res.status(403).json({ message: 'Not authorized to view this item' });
     }
 
+    await itemAccessService.record(req, [item], 'DeliveredItem', 'viewed');
     res.json(item);
   } catch (error) {
     console.error('Error getting delivered item:', error);
@@ -160,95 +340,102 @@ router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedReq
 }) as RequestHandler);
 
 // Update a delivered item
-router.put('/:id', auth, upload.array('photos', 5), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', auth, requirePermission(['edit_all_items', 'edit_own_items'], { owner: deliveredItemOwner }), deliveredItemStation, uploadImages('photos'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await DeliveredItem.findById(req.params.id);
     if (!item) {
       return res.status(404).json({ message: 'Delivered item not found' });
     }
 
-    // Check if user has permission to update this item
-    if (!req.user) {
-      return res.status(401).json({ message: 'User not authenticated' });
+    // Delivered items leave that status only through a revert, which the state machine points to
+    const { status, dateFound, flightId, flightNumber, flightDate, origin, destination, category, attributes, ...otherUpdates } = req.body;
+    if (status !== undefined) {
+      const target = itemStatusService.normalize(status);
+      if (target !== 'delivered') {
+        itemStatusService.assertTransition('delivered', target, { user: req.user, direct: true });
+      }
     }
-
-    if (req.user.role !== 'admin' && req.user.role !== 'supervisor' && 
-        item.foundBy.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Not authorized to update this item' });
+    // Dotted paths such as `customerInfo.name` are protected with their parent
+    for (const field of Object.keys(otherUpdates)) {
+      if (PROTECTED_FIELDS.includes(field.split('.')[0])) {
+        delete otherUpdates[field];
+      }
     }
-
-    const { status, dateFound, ...otherUpdates } = req.body;
+    // A delivered item keeps the handling it was delivered under
+    const { handling, ...categoryFields } = await categoryService.resolveForItem(
+      { category, attributes },
+      { category: item.category, categoryPath: item.categoryPath, attributes: item.attributes }
+    );
     const updates = {
       ...otherUpdates,
-      dateFound: dateFound ? new Date(dateFound) : item.dateFound || new Date(),
-      ...(status && { status: normalizeStatus(status) })
+      ...await flightService.resolveItemFlight(
+        { flightId, flightNumber, flightDate, origin, destination },
+        { flightNumber: item.flightNumber, flightDate: item.flightDate }
+      ),
+      ...categoryFields,
+      dateFound: dateFound ? new Date(dateFound) : item.dateFound || new Date()
     };
 
     // Handle file uploads if any
     if (req.files && Array.isArray(req.files) && req.files.length > 0) {
-      // Delete old photos from Cloudinary
+      // Check and store the new photos first so a rejected upload keeps the old ones
+      const newPhotos = await storageService.uploadImages(req.files, { type: 'delivered', flightNumber: item.flightNumber });
+
+      // Delete old photos from storage
       for (const photo of item.images) {
         if (photo.publicId) {
-          await cloudinaryService.deleteFile(photo.publicId);
+          await storageService.deleteFile(photo);
         }
       }
 
-      // Upload new photos to Cloudinary
-      const uploadPromises = req.files.map(async (file) => {
-        return await cloudinaryService.uploadFile(
-          file.buffer,
-          file.mimetype,
-          file.originalname,
-          'delivered',
-          item.flightNumber
-        );
-      });
-
-      const newPhotos = await Promise.all(uploadPromises);
       item.images = newPhotos;
     }
 
+    const before = item.toObject();
+
     // Update other fields
     Object.assign(item, updates);
     await item.save();
 
+    await itemHistoryService.record({
+      item: item._id as mongoose.Types.ObjectId,
+      itemModel: 'DeliveredItem',
+      action: 'updated',
+      performedBy: req.user._id,
+      changes: itemHistoryService.diff(before, item.toObject())
+    });
+
     const updatedItem = await DeliveredItem.findById(req.params.id)
       .populate('foundBy', 'firstName lastName employeeNumber')
       .populate('deliveredBy', 'firstName lastName employeeNumber');
 
     res.json(updatedItem);
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error updating delivered item:', error);
     res.status(500).json({ message: 'Error updating delivered item' });
   }
 }) as RequestHandler);
 
 // Delete a delivered item
-router.delete('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/:id', auth, requirePermission(['delete_all_items', 'delete_own_items'], { owner: deliveredItemOwner }), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await DeliveredItem.findById(req.params.id);
     if (!item) {
       return res.status(404).json({ message: 'Delivered item not found' });
     }
 
-    // Check if user has permission to delete this item
-    if (!req.user) {
-      return res.status(401).json({ message: 'User not authenticated' });
-    }
-
-    if (req.user.role !== 'admin' && req.user.role !== 'supervisor' && 
-        item.foundBy.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Not authorized to delete this item' });
-    }
-
-    // Delete images from Cloudinary if they exist
-    if (item.images && item.images.length > 0) {
-      const deletePromises = item.images.map(async (image) => {
+    // Delete images and ID scans from storage if they exist
+    const storedFiles = [...(item.images || []), ...(item.customerInfo.identificationPhotos || [])];
+    if (storedFiles.length > 0) {
+      const deletePromises = storedFiles.map(async (image) => {
         if (image.publicId) {
           try {
-            await cloudinaryService.deleteFile(image.publicId);
+            await storageService.deleteFile(image);
           } catch (error) {
-            console.error(`Failed to delete image ${image.publicId} from Cloudinary:`, error);
+            console.error(`Failed to delete image ${image.publicId} from storage:`, error);
           }
         }
       });
@@ -257,6 +444,14 @@ router.delete('/:id', auth, createAuthenticatedHandler(async (req: Authenticated
 
     // Delete the item from database
     await item.deleteOne();
+
+    await itemHistoryService.record({
+      item: item._id as mongoose.Types.ObjectId,
+      itemModel: 'DeliveredItem',
+      action: 'deleted',
+      performedBy: req.user._id,
+      snapshot: itemHistoryService.snapshot(item.toObject())
+    });
     res.json({ message: 'Item deleted successfully' });
   } catch (error) {
     console.error('Error deleting delivered item:', error);
@@ -267,34 +462,26 @@ router.delete('/:id', auth, createAuthenticatedHandler(async (req: Authenticated
   }
 }) as RequestHandler);
 
-// Revert delivered item to on hand (admin only)
-router.post('/:id/revert', auth, checkRole(['admin']), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
- try {
-    const deliveredItem = await DeliveredItem.findById(req.params.id);
-    if (!deliveredItem) {
-      return res.status(404).json({ message: 'Delivered item not found' });
+// Revert a delivered item to on hand. `reason` is required and the delivery
+// is kept in the item's delivery history.
+router.post('/:id/revert', auth, requirePermission('revert_delivered_status'), deliveredItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
     }
 
-    // Create a new lost item from the delivered item
-    const lostItem = new LostItem({
-      itemName: deliveredItem.itemName,
-      flightNumber: deliveredItem.flightNumber,
-      description: deliveredItem.description,
-      location: deliveredItem.location,
-      category: deliveredItem.category,
-      images: deliveredItem.images,
-      foundBy: deliveredItem.foundBy,
-      supervisor: req.user._id, // Set the current user as supervisor
-      dateFound: deliveredItem.dateDelivered, 
-    });
-
-    await lostItem.save();
+    const lostItem = await deliveredItemsService.revert(req.params.id, req.body.reason, req.user);
 
-    // Delete the delivered item
-    await deliveredItem.deleteOne();
+    // The passenger report goes back to waiting for pickup
+    await matchingService.reopenClaim(lostItem, req.user._id).catch(error => {
+      console.error('Error reopening lost report claim:', error);
+    });
 
     res.json({ message: 'Item reverted successfully', item: lostItem });
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error reverting delivered item:', error);
     res.status(500).json({ message: 'Error reverting item' });
   }
@@ -0,0 +1,222 @@
+import { Router, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import DisposalBatch from '../models/DisposalBatch';
+import retentionService from '../services/retention.service';
+import stationService from '../services/station.service';
+import disposalManifestPdfService from '../services/disposalManifestPdf.service';
+import { ServiceError } from '../utils/errors';
+
+const router = Router();
+
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+// A batch can only be seen or signed off by users assigned to every station its items come from
+const disposalBatchStation = createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (stationService.isCrossStation(req.user) || !Types.ObjectId.isValid(req.params.id)) {
+    return next();
+  }
+
+  const batch = await DisposalBatch.findById(req.params.id).select('items.station');
+  if (batch && batch.items.some(entry => !stationService.hasAccess(req.user, entry.station))) {
+    return res.status(403).json({
+      message: 'Access denied. This batch holds items of another station',
+      code: 'STATION_ACCESS_DENIED'
+    });
+  }
+
+  next();
+});
+
+// Get retention policies per category
+router.get('/policies', auth, requirePermission(['dispose_items', 'manage_retention_policies']), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const policies = await retentionService.getPolicies();
+    res.json(policies);
+  } catch (error) {
+    console.error('Error fetching retention policies:', error);
+    res.status(500).json({ message: 'Error fetching retention policies' });
+  }
+}));
+
+// Create or update the retention period for a category
+router.put('/policies/:category', auth, requirePermission('manage_retention_policies'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const retentionDays = Number(req.body.retentionDays);
+    if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+      return res.status(400).json({
+        message: 'retentionDays must be a positive whole number',
+        code: 'INVALID_RETENTION_DAYS'
+      });
+    }
+
+    const policy = await retentionService.upsertPolicy(
+      req.params.category,
+      retentionDays,
+      req.body.description,
+      req.user._id
+    );
+    res.json(policy);
+  } catch (error) {
+    console.error('Error updating retention policy:', error);
+    res.status(500).json({ message: 'Error updating retention policy' });
+  }
+}));
+
+// Remove a category-specific retention policy
+router.delete('/policies/:category', auth, requirePermission('manage_retention_policies'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deleted = await retentionService.deletePolicy(req.params.category);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Retention policy not found' });
+    }
+    res.json({ message: 'Retention policy deleted successfully' });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error deleting retention policy:', error);
+    res.status(500).json({ message: 'Error deleting retention policy' });
+  }
+}));
+
+// Get items past their retention period
+router.get('/queue', auth, requirePermission('dispose_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = await stationService.scopeFilter(req.user, req.query.station);
+    const queue = await retentionService.getDisposalQueue(scope);
+    res.json(queue);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching disposal queue:', error);
+    res.status(500).json({ message: 'Error fetching disposal queue' });
+  }
+}));
+
+// Get disposal batches
+router.get('/', auth, requirePermission(['dispose_items', 'approve_disposals']), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const query: any = {};
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+    // Batches holding items from any of the caller's stations
+    const scope = await stationService.scopeFilter(req.user, req.query.station);
+    if (scope.station) {
+      query['items.station'] = scope.station;
+    }
+
+    const batches = await DisposalBatch.find(query)
+      .populate('createdBy', USER_FIELDS)
+      .populate('reviewedBy', USER_FIELDS)
+      .sort({ createdAt: -1 });
+    res.json(batches);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching disposal batches:', error);
+    res.status(500).json({ message: 'Error fetching disposal batches' });
+  }
+}));
+
+// Prepare a disposal batch from items in the queue
+router.post('/', auth, requirePermission('dispose_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { itemIds, method, recipient, reference, notes } = req.body;
+    const scope = await stationService.scopeFilter(req.user);
+    const batch = await retentionService.createBatch({ itemIds, method, recipient, reference, notes }, req.user._id, scope);
+    res.status(201).json(batch);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating disposal batch:', error);
+    res.status(500).json({ message: 'Error creating disposal batch' });
+  }
+}));
+
+// Get a single disposal batch
+router.get('/:id', auth, requirePermission(['dispose_items', 'approve_disposals']), disposalBatchStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid batch id', code: 'INVALID_ID' });
+    }
+
+    const batch = await DisposalBatch.findById(req.params.id)
+      .populate('createdBy', USER_FIELDS)
+      .populate('reviewedBy', USER_FIELDS);
+    if (!batch) {
+      return res.status(404).json({ message: 'Disposal batch not found' });
+    }
+    res.json(batch);
+  } catch (error) {
+    console.error('Error fetching disposal batch:', error);
+    res.status(500).json({ message: 'Error fetching disposal batch' });
+  }
+}));
+
+// Supervisor sign-off of a disposal batch
+router.post('/:id/approve', auth, requirePermission('approve_disposals'), disposalBatchStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid batch id', code: 'INVALID_ID' });
+    }
+
+    const batch = await retentionService.approveBatch(req.params.id, req.user._id);
+    res.json(batch);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error approving disposal batch:', error);
+    res.status(500).json({ message: 'Error approving disposal batch' });
+  }
+}));
+
+// Reject a disposal batch, returning its items to the queue
+router.post('/:id/reject', auth, requirePermission('approve_disposals'), disposalBatchStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid batch id', code: 'INVALID_ID' });
+    }
+
+    const batch = await retentionService.rejectBatch(req.params.id, req.user._id, req.body.reason);
+    res.json(batch);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error rejecting disposal batch:', error);
+    res.status(500).json({ message: 'Error rejecting disposal batch' });
+  }
+}));
+
+// Download the disposal manifest PDF for a batch
+router.get('/:id/manifest', auth, requirePermission(['dispose_items', 'approve_disposals']), disposalBatchStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid batch id', code: 'INVALID_ID' });
+    }
+
+    const batch = await DisposalBatch.findById(req.params.id)
+      .populate('createdBy', USER_FIELDS)
+      .populate('reviewedBy', USER_FIELDS);
+    if (!batch) {
+      return res.status(404).json({ message: 'Disposal batch not found' });
+    }
+
+    const doc = disposalManifestPdfService.generate(batch);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="manifest-${batch.batchNumber}.pdf"`);
+    doc.pipe(res);
+  } catch (error) {
+    console.error('Error generating disposal manifest:', error);
+    res.status(500).json({ message: 'Error generating disposal manifest' });
+  }
+}));
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import storageService from '../services/storage.service';
+
+const router = Router();
+
+// Serve files stored by the local filesystem backend. Private files need the
+// `expires` and `signature` parameters of a signed URL.
+router.get('/*', (req: Request, res: Response) => {
+  const local = storageService.local;
+  const publicId = req.params[0];
+  const filePath = local.resolvePath(publicId);
+
+  if (!filePath || !fs.existsSync(filePath)) {
+    return res.status(404).json({ message: 'File not found' });
+  }
+
+  if (local.isPrivate(publicId) &&
+      !local.verifySignature(publicId, String(req.query.expires || ''), String(req.query.signature || ''))) {
+    return res.status(403).json({ message: 'Invalid or expired file signature', code: 'INVALID_SIGNATURE' });
+  }
+
+  res.setHeader('Cache-Control', local.isPrivate(publicId) ? 'private, no-store' : 'public, max-age=86400');
+  res.sendFile(filePath);
+});
+
+export default router;
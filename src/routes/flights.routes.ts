@@ -0,0 +1,47 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { uploadCsv } from '../middleware/upload';
+import flightService from '../services/flight.service';
+import { ServiceError } from '../utils/errors';
+import { parseListOptions, paginate } from '../utils/pagination';
+
+const router = Router();
+
+const FLIGHT_SORT_FIELDS = ['date', 'flightNumber', 'departureTime', 'origin', 'destination'];
+
+// Search the flight schedule, e.g. to pick the flight an item was found on.
+// Filter with `date`, `flightNumber` (prefix), `origin`, `destination` and `station`.
+router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseListOptions(req.query, { sortFields: FLIGHT_SORT_FIELDS, defaultSort: 'date,departureTime' });
+    const { flights, total } = await flightService.list(flightService.buildFilters(req.query), options);
+    res.json(paginate(flights, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching flights:', error);
+    res.status(500).json({ message: 'Error fetching flights' });
+  }
+}));
+
+// Import a flight schedule CSV uploaded as `file`. Rows with errors are skipped and reported.
+router.post('/import', auth, requirePermission('manage_flights'), uploadCsv('file'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'A CSV file is required', code: 'FILE_REQUIRED' });
+    }
+
+    const result = await flightService.importSchedule(req.file.buffer.toString('utf8'), req.user._id);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error importing flight schedule:', error);
+    res.status(500).json({ message: 'Error importing flight schedule' });
+  }
+}));
+
+export default router;
@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { AUDIT_STATUSES, AuditStatus, AuditReport } from '../models/InventoryAudit';
+import inventoryAuditService from '../services/inventoryAudit.service';
+import stationService from '../services/station.service';
+import { ServiceError } from '../utils/errors';
+import { parseListOptions, paginate } from '../utils/pagination';
+
+const router = Router();
+
+const AUDIT_SORT_FIELDS = ['createdAt', 'closedAt'];
+const VIEW_AUDITS = ['conduct_inventory_audits', 'view_inventory_audits'];
+
+// List audits of the caller's stations. Filter with `station` and `status`.
+router.get('/', auth, requirePermission(VIEW_AUDITS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseListOptions(req.query, { sortFields: AUDIT_SORT_FIELDS, defaultSort: '-createdAt' });
+
+    const filters: Record<string, any> = await stationService.scopeFilter(req.user, req.query.station);
+    if (req.query.status) {
+      if (!AUDIT_STATUSES.includes(req.query.status as AuditStatus)) {
+        return res.status(400).json({
+          message: `status must be one of ${AUDIT_STATUSES.join(', ')}`,
+          code: 'INVALID_STATUS'
+        });
+      }
+      filters.status = req.query.status;
+    }
+
+    const { audits, total } = await inventoryAuditService.list(filters, options);
+    res.json(paginate(audits, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching audits:', error);
+    res.status(500).json({ message: 'Error fetching audits' });
+  }
+}));
+
+// Start counting a station, or the room, shelf or bin given as `area`
+router.post('/', auth, requirePermission('conduct_inventory_audits'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { station, area, notes } = req.body;
+    const audit = await inventoryAuditService.start({ station, area, notes }, req.user);
+    res.status(201).json(audit);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error starting audit:', error);
+    res.status(500).json({ message: 'Error starting audit' });
+  }
+}));
+
+// Get an audit with all its scans
+router.get('/:id', auth, requirePermission(VIEW_AUDITS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const audit = await inventoryAuditService.findForUser(req.params.id, req.user, true);
+    res.json(audit);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching audit:', error);
+    res.status(500).json({ message: 'Error fetching audit' });
+  }
+}));
+
+// Record a scanned item `code`, optionally with the bin label scanned before it as `location`
+router.post('/:id/scans', auth, requirePermission('conduct_inventory_audits'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code, location } = req.body;
+    const result = await inventoryAuditService.scan(req.params.id, { code, location }, req.user);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error recording audit scan:', error);
+    res.status(500).json({ message: 'Error recording audit scan' });
+  }
+}));
+
+// Discrepancy report: missing, unrecorded and misplaced items. Open audits get a preview.
+router.get('/:id/report', auth, requirePermission(VIEW_AUDITS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const report = await inventoryAuditService.report(req.params.id, req.user);
+    res.json(report);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching audit report:', error);
+    res.status(500).json({ message: 'Error fetching audit report' });
+  }
+}));
+
+// Finish the count; the discrepancy report is stored with the audit
+router.post('/:id/close', auth, requirePermission('conduct_inventory_audits'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const audit = (await inventoryAuditService.close(req.params.id, req.user)).toObject();
+    res.json({ ...audit, report: await inventoryAuditService.populateReport(audit.report as AuditReport) });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error closing audit:', error);
+    res.status(500).json({ message: 'Error closing audit' });
+  }
+}));
+
+// Abandon an open audit, giving a `reason`
+router.post('/:id/cancel', auth, requirePermission('conduct_inventory_audits'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const audit = await inventoryAuditService.cancel(req.params.id, req.body.reason, req.user);
+    res.json(audit);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error cancelling audit:', error);
+    res.status(500).json({ message: 'Error cancelling audit' });
+  }
+}));
+
+export default router;
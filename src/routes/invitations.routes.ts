@@ -0,0 +1,85 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { INVITATION_STATUSES, InvitationStatus } from '../models/Invitation';
+import invitationService from '../services/invitation.service';
+import { ServiceError } from '../utils/errors';
+import { parseListOptions, paginate } from '../utils/pagination';
+
+const router = Router();
+
+const INVITATION_SORT_FIELDS = ['createdAt', 'expiresAt', 'employeeNumber'];
+
+// List invitations. Only admins see the ones issued by others.
+router.get('/', auth, requirePermission('invite_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseListOptions(req.query, { sortFields: INVITATION_SORT_FIELDS, defaultSort: '-createdAt' });
+
+    let filters: Record<string, any> = {};
+    if (req.query.status) {
+      if (!INVITATION_STATUSES.includes(req.query.status as InvitationStatus)) {
+        return res.status(400).json({
+          message: `status must be one of ${INVITATION_STATUSES.join(', ')}`,
+          code: 'INVALID_STATUS'
+        });
+      }
+      filters = invitationService.statusFilter(req.query.status as InvitationStatus);
+    }
+    if (typeof req.query.employeeNumber === 'string' && req.query.employeeNumber) {
+      filters.employeeNumber = req.query.employeeNumber;
+    }
+    if (req.user.role !== 'admin') {
+      filters.invitedBy = req.user._id;
+    }
+
+    const { invitations, total } = await invitationService.list(filters, options);
+    res.json(paginate(invitations.map(invitation => invitationService.toResponse(invitation)), total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ message: 'Error fetching invitations' });
+  }
+}));
+
+// Issue an invitation. The token is only returned here and must be passed on to the new user.
+router.post('/', auth, requirePermission('invite_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { employeeNumber, role, firstName, lastName, email, stations, expiresInHours } = req.body;
+    const { invitation, token } = await invitationService.create(
+      { employeeNumber, role, firstName, lastName, email, stations, expiresInHours },
+      req.user
+    );
+
+    res.status(201).json({
+      invitation: invitationService.toResponse(invitation),
+      token,
+      ...(process.env.FRONTEND_URL && {
+        registrationUrl: `${process.env.FRONTEND_URL}/register?invitation=${encodeURIComponent(token)}`
+      })
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating invitation:', error);
+    res.status(500).json({ message: 'Error creating invitation' });
+  }
+}));
+
+// Revoke a pending invitation
+router.post('/:id/revoke', auth, requirePermission('invite_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const invitation = await invitationService.revoke(req.params.id, req.user);
+    res.json(invitationService.toResponse(invitation));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ message: 'Error revoking invitation' });
+  }
+}));
+
+export default router;
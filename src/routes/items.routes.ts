@@ -1,16 +1,33 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
-import multer, { Multer } from 'multer';
-import cloudinaryService from '../services/cloudinary.service';
-import LostItem from '../models/LostItem';
+import { uploadImages, uploadImageFields } from '../middleware/upload';
+import { requirePermission, hasPermission, ownerOf, applyPermissionScope, requireStationAccess } from '../middleware/permissions';
+import storageService from '../services/storage.service';
+import itemHistoryService from '../services/itemHistory.service';
+import matchingService from '../services/matching.service';
+import deliveredItemsService from '../services/deliveredItems.service';
+import searchService from '../services/search.service';
+import stationService from '../services/station.service';
+import flightService from '../services/flight.service';
+import categoryService from '../services/category.service';
+import highValueService, { WitnessClient } from '../services/highValue.service';
+import itemAccessService from '../services/itemAccess.service';
+import storageLocationService from '../services/storageLocation.service';
+import labelPdfService from '../services/labelPdf.service';
+import itemStatusService, { ItemStatus } from '../services/itemStatus.service';
+import LostItem, { ILostItem } from '../models/LostItem';
 import DeliveredItem from '../models/DeliveredItem';
-import { Types } from 'mongoose';
-
-interface CloudinaryUploadResult {
-  publicId: string;
-  url: string;
-  thumbnailUrl: string;
-}
+import { Document, Types } from 'mongoose';
+import { parseListOptions, paginate } from '../utils/pagination';
+import {
+  buildLostItemFilters,
+  buildDeliveredItemFilters,
+  LOST_ITEM_SORT_FIELDS,
+  DELIVERED_ITEM_SORT_FIELDS
+} from '../utils/itemFilters';
+import { ServiceError } from '../utils/errors';
+import { normalizeCode } from '../utils/codes';
+import { IMAGE_DATA_URI } from '../utils/pdf';
 
 interface ExpressMulterFile {
   fieldname: string;
@@ -26,33 +43,82 @@ interface ExpressMulterFile {
 
 const router = Router();
 
-// Configure multer for memory storage
-const storage = multer.memoryStorage();
-const upload = multer({ storage });
+const VIEW_ITEMS = ['view_items', 'view_all_items', 'view_own_items'];
+const EDIT_ITEMS = ['edit_all_items', 'edit_own_items'];
+const DELETE_ITEMS = ['delete_all_items', 'delete_own_items'];
+const lostItemOwner = ownerOf(LostItem);
+const lostItemStation = requireStationAccess(LostItem);
+
+// Only changed through the workflows that own them (matching, delivery, transfer, disposal, storage)
+const PROTECTED_FIELDS = [
+  '_id', 'referenceCode', 'station', 'flight', 'categoryPath', 'handling', 'witness', 'cash', 'deliveryApproval', 'storageLocation',
+  'claimReport', 'transfer', 'disposal', 'deliveryHistory', 'createdAt', 'updatedAt'
+];
+
+// Past deliveries of reverted items name their receivers, so they need view_delivered_items
+const visibleItem = (req: AuthenticatedRequest, item: Document | Record<string, any>) => {
+  return hasPermission(req.user, 'view_delivered_items') ? item : itemHistoryService.redactDeliveryHistory(item);
+};
+
+const getWitnessClient = (req: Request): WitnessClient => ({
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Apply a status change requested directly by a client. Transitions with
+// their own endpoint are refused by the state machine.
+const applyStatusChange = async (item: ILostItem, to: ItemStatus, reason: unknown, req: AuthenticatedRequest) => {
+  const transition = itemStatusService.assertTransition(item.status, to, {
+    user: req.user,
+    fields: { ...item.toObject(), status: to, reason },
+    direct: true
+  });
+  if (transition.from === 'pending' && transition.to === 'onHand') {
+    await matchingService.releaseClaim(item, req.user._id, String(reason).trim());
+  }
+};
 
 // Create new item
-router.post('/', auth, upload.array('images', 5), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/', auth, requirePermission('create_items'), uploadImages('images'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { flightNumber, dateFound, location, description, category, itemName, foundBy, supervisor } = req.body;
-    const files = req.files as (ExpressMulterFile & { stream: any })[];
-
-    // Upload images to Cloudinary
-    const uploadPromises = files.map(file => cloudinaryService.uploadFile(file.buffer, file.mimetype, file.originalname, 'lost', flightNumber));
-    const uploadedImages = await Promise.all(uploadPromises);
+    const { flightId, flightNumber, flightDate, origin, destination, dateFound, location, description, category, attributes, itemName, foundBy, supervisor } = req.body;
+    const files = (req.files || []) as ExpressMulterFile[];
+    const station = await stationService.resolveForNewItem(req.user, req.body.station);
+
+    // Either a flight picked from the schedule or one typed in by the agent
+    const flight = await flightService.resolveItemFlight({ flightId, flightNumber, flightDate, origin, destination });
+    if (!flight.flightNumber) {
+      return res.status(400).json({ message: 'flightNumber is required', code: 'FLIGHT_NUMBER_REQUIRED' });
+    }
 
-    const images = uploadedImages.map((result: CloudinaryUploadResult) => ({
-      publicId: result.publicId,
-      url: result.url,
-      thumbnailUrl: result.thumbnailUrl
-    }));
+    // The category has to exist in the taxonomy and its required attributes be filled in
+    const { handling, ...categoryFields } = await categoryService.resolveForItem({ category, attributes });
+
+    // High-value and sensitive items, and items with cash, are witnessed by a second employee
+    const controls = await highValueService.controlsForNewItem(handling || 'standard', {
+      cash: { amount: req.body.cashAmount, currency: req.body.cashCurrency },
+      witness: { employeeNumber: req.body.witnessEmployeeNumber, password: req.body.witnessPassword },
+      foundBy
+    }, req.user, getWitnessClient(req));
+
+    // Check, clean and store the photos in the configured storage backend. Photos of
+    // high-value and sensitive items are private and only shown through signed URLs.
+    const images = await storageService.uploadImages(files, {
+      type: 'lost',
+      flightNumber: flight.flightNumber,
+      private: highValueService.isControlled(controls)
+    });
 
     const item = new LostItem({
       itemName,
-      flightNumber,
+      referenceCode: labelPdfService.generateReferenceCode(),
+      ...flight,
       dateFound: new Date(dateFound),
+      station,
       location,
       description,
-      category,
+      ...categoryFields,
+      ...controls,
       images,
       foundBy,
       supervisor,
@@ -60,12 +126,28 @@ router.post('/', auth, upload.array('images', 5), createAuthenticatedHandler(asy
     });
 
     await item.save();
+
+    await itemHistoryService.record({
+      item: item._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'created',
+      performedBy: req.user._id,
+      snapshot: itemHistoryService.snapshot(item.toObject())
+    });
+
+    // Suggest open passenger reports this item may belong to
+    await matchingService.refreshMatchesForItem(item).catch(error => {
+      console.error('Error matching new item against lost reports:', error);
+    });
     
     const savedItem = await LostItem.findById(item._id)
       .populate('foundBy', 'firstName lastName employeeNumber');
 
     res.status(201).json(savedItem);
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error creating item:', error);
     res.status(500).json({ 
       message: 'Error creating item',
@@ -74,29 +156,37 @@ router.post('/', auth, upload.array('images', 5), createAuthenticatedHandler(asy
   }
 }));
 
-// Get all items
-router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Get a page of items matching the filters in the query string
+router.get('/', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    // Todos los usuarios pueden ver todos los items
-    const query: any = {};
-
-    const items = await LostItem.find(query)
-      .populate({
-        path: 'foundBy',
-        select: 'firstName lastName employeeNumber',
-        options: { allowEmptyPaths: true }
-      })
-      .populate({
-        path: 'supervisor',
-        select: 'firstName lastName employeeNumber',
-        options: { allowEmptyPaths: true }
-      })
-      .populate({
-        path: 'deliveredBy',
-        select: 'firstName lastName employeeNumber',
-        options: { allowEmptyPaths: true }
-      })
-      .sort({ createdAt: -1 });
+    const options = parseListOptions(req.query, { sortFields: LOST_ITEM_SORT_FIELDS, defaultSort: '-createdAt' });
+    const query: any = {
+      ...applyPermissionScope(req, buildLostItemFilters(req.query)),
+      ...await stationService.scopeFilter(req.user, req.query.station)
+    };
+
+    const [total, items] = await Promise.all([
+      LostItem.countDocuments(query),
+      LostItem.find(query)
+        .populate({
+          path: 'foundBy',
+          select: 'firstName lastName employeeNumber',
+          options: { allowEmptyPaths: true }
+        })
+        .populate({
+          path: 'supervisor',
+          select: 'firstName lastName employeeNumber',
+          options: { allowEmptyPaths: true }
+        })
+        .populate({
+          path: 'deliveredBy',
+          select: 'firstName lastName employeeNumber',
+          options: { allowEmptyPaths: true }
+        })
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit)
+    ]);
 
     // Clean up any items with missing user references
     const cleanedItems = items.map(item => {
@@ -124,8 +214,12 @@ router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedReques
       return cleanedItem;
     });
 
-    res.json(cleanedItems);
+    await itemAccessService.record(req, cleanedItems, 'LostItem', 'listed');
+    res.json(paginate(cleanedItems.map(item => visibleItem(req, item)), total, options));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error fetching items:', error);
     res.status(500).json({ 
       message: 'Error fetching items',
@@ -134,8 +228,87 @@ router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedReques
   }
 }));
 
+// Look up an item by the reference code on its label, e.g. from a handheld scanner.
+// Delivered items are found too for users who can see them.
+router.get('/by-code/:code', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const referenceCode = normalizeCode(req.params.code);
+
+    const item = await LostItem.findOne(applyPermissionScope(req, { referenceCode }))
+      .populate('foundBy', 'firstName lastName employeeNumber')
+      .populate('storageLocation', 'type code name');
+    if (item) {
+      if (!stationService.hasAccess(req.user, item.station)) {
+        return res.status(403).json({ message: 'Access denied. This item belongs to another station', code: 'STATION_ACCESS_DENIED' });
+      }
+      await itemAccessService.record(req, [item], 'LostItem', 'viewed');
+      return res.json({ type: 'lost', item: visibleItem(req, item) });
+    }
+
+    if (hasPermission(req.user, 'view_delivered_items')) {
+      // Same scope as the delivered item list: without view_all_items only the user's own
+      const deliveredQuery: Record<string, any> = { referenceCode };
+      if (!hasPermission(req.user, 'view_all_items')) {
+        deliveredQuery.foundBy = req.user._id;
+      }
+      const deliveredItem = await DeliveredItem.findOne(deliveredQuery)
+        .populate('foundBy', 'firstName lastName employeeNumber')
+        .populate('deliveredBy', 'firstName lastName employeeNumber');
+      if (deliveredItem) {
+        if (!stationService.hasAccess(req.user, deliveredItem.station)) {
+          return res.status(403).json({ message: 'Access denied. This item belongs to another station', code: 'STATION_ACCESS_DENIED' });
+        }
+        await itemAccessService.record(req, [deliveredItem], 'DeliveredItem', 'viewed');
+        return res.json({ type: 'delivered', item: deliveredItem });
+      }
+    }
+
+    res.status(404).json({ message: 'No item has this code', code: 'ITEM_NOT_FOUND' });
+  } catch (error) {
+    console.error('Error looking up item code:', error);
+    res.status(500).json({ message: 'Error looking up item code' });
+  }
+}));
+
+// Download a sheet of barcode labels for the items in `itemIds`
+router.post('/labels', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { itemIds } = req.body;
+    if (!Array.isArray(itemIds) || itemIds.length === 0) {
+      return res.status(400).json({ message: 'At least one item is required', code: 'NO_ITEMS' });
+    }
+    if (itemIds.some(id => !Types.ObjectId.isValid(String(id)))) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+    const ids = Array.from(new Set(itemIds.map(String)));
+
+    const items = await LostItem.find(applyPermissionScope(req, { _id: { $in: ids } }));
+    if (items.length !== ids.length) {
+      return res.status(404).json({ message: 'Some items were not found', code: 'ITEM_NOT_FOUND' });
+    }
+    if (items.some(item => !stationService.hasAccess(req.user, item.station))) {
+      return res.status(403).json({ message: 'Access denied. Some items belong to another station', code: 'STATION_ACCESS_DENIED' });
+    }
+
+    for (const item of items) {
+      await labelPdfService.ensureReferenceCode(item);
+    }
+    await LostItem.populate(items, { path: 'station', select: 'code name' });
+    // Keep the order the items were asked for
+    items.sort((a, b) => ids.indexOf(String(a._id)) - ids.indexOf(String(b._id)));
+    const doc = labelPdfService.generate(items.map(item => labelPdfService.itemLabel(item)), 'Item Labels');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="item-labels.pdf"');
+    doc.pipe(res);
+  } catch (error) {
+    console.error('Error generating item labels:', error);
+    res.status(500).json({ message: 'Error generating item labels' });
+  }
+}));
+
 // Get single item
-router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await LostItem.findById(req.params.id)
       .populate('foundBy', 'firstName lastName employeeNumber');
@@ -143,8 +316,9 @@ router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedReq
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
     }
-    
-    res.json(item);
+
+    await itemAccessService.record(req, [item], 'LostItem', 'viewed');
+    res.json(visibleItem(req, item));
   } catch (error) {
     console.error('Error fetching item:', error);
     res.status(500).json({ message: 'Error fetching item' });
@@ -152,18 +326,44 @@ router.get('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedReq
 }));
 
 // Update item
-router.put('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id', auth, requirePermission(EDIT_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await LostItem.findById(req.params.id);
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
     }
 
-    // Update the item fields
-    const updates = { ...req.body };
+    // Update the item fields. Status goes through the state machine and
+    // workflow-owned fields can only be changed by their own endpoints.
+    const {
+      status, reason, flightId, flightNumber, flightDate, origin, destination,
+      category, attributes, witnessEmployeeNumber, witnessPassword, ...updates
+    } = req.body;
+    for (const field of PROTECTED_FIELDS) {
+      delete updates[field];
+    }
     if (updates.dateFound) {
       updates.dateFound = new Date(updates.dateFound);
     }
+    Object.assign(updates, await flightService.resolveItemFlight(
+      { flightId, flightNumber, flightDate, origin, destination },
+      { flightNumber: item.flightNumber, flightDate: item.flightDate }
+    ));
+    const { handling, ...categoryFields } = await categoryService.resolveForItem(
+      { category, attributes },
+      { category: item.category, categoryPath: item.categoryPath, attributes: item.attributes }
+    );
+    Object.assign(updates, categoryFields, await highValueService.controlsForCategoryChange(
+      item,
+      handling,
+      { employeeNumber: witnessEmployeeNumber, password: witnessPassword },
+      req.user,
+      getWitnessClient(req)
+    ));
+
+    if (status !== undefined && itemStatusService.normalize(status) !== item.status) {
+      await applyStatusChange(item, itemStatusService.normalize(status), reason, req);
+    }
 
     // Use findByIdAndUpdate to ensure proper update
     const updatedItem = await LostItem.findByIdAndUpdate(
@@ -176,72 +376,77 @@ router.put('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedReq
     if (!updatedItem) {
       return res.status(404).json({ message: 'Item not found after update' });
     }
+    if (updates.handling) {
+      await highValueService.protectImages(updatedItem);
+    }
+
+    await itemHistoryService.record({
+      item: updatedItem._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'updated',
+      performedBy: req.user._id,
+      changes: itemHistoryService.diff(item.toObject(), updatedItem.toObject())
+    });
 
-    res.json(updatedItem);
+    res.json(visibleItem(req, updatedItem));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error updating item:', error);
     res.status(500).json({ message: 'Error updating item' });
   }
 }));
 
 // Upload images for an item
-router.post('/:id/images', auth, upload.array('images', 5), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/:id/images', auth, requirePermission(EDIT_ITEMS, { owner: lostItemOwner }), lostItemStation, uploadImages('images'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await LostItem.findById(req.params.id);
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
     }
 
-    // Check if user has permission to update this item
-    if (req.user.role !== 'admin' && req.user.role !== 'supervisor' && 
-        item.foundBy.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Not authorized to update this item' });
-    }
-
     const files = req.files as ExpressMulterFile[];
     if (!files || files.length === 0) {
       return res.status(400).json({ message: 'No images provided' });
     }
 
-    // Upload new images to cloudinary
-    const uploadPromises = files.map(async (file) => {
-      try {
-        const result = await cloudinaryService.uploadFile(
-          file.buffer,
-          file.mimetype,
-          file.originalname,
-          'lost',
-          item.flightNumber
-        );
-        return {
-          publicId: result.publicId,
-          url: result.url,
-          thumbnailUrl: result.thumbnailUrl
-        };
-      } catch (error) {
-        console.error('Error uploading to Cloudinary:', error);
-        throw new Error('Failed to upload image to cloud storage');
-      }
+    // Check, clean and store the new images in the configured storage backend
+    const uploadedImages = await storageService.uploadImages(files, {
+      type: 'lost',
+      flightNumber: item.flightNumber,
+      private: highValueService.isControlled(item)
     });
-
-    const uploadedImages = await Promise.all(uploadPromises);
     
+    const previousImages = item.toObject().images;
+
     // Add new images to the existing ones
     item.images = [...item.images, ...uploadedImages];
     
     const updatedItem = await item.save();
+
+    await itemHistoryService.record({
+      item: updatedItem._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'images_added',
+      performedBy: req.user._id,
+      changes: itemHistoryService.diff({ images: previousImages }, { images: updatedItem.toObject().images })
+    });
     const populatedItem = await LostItem.findById(updatedItem._id)
       .populate('foundBy', 'firstName lastName employeeNumber');
     
-    return res.json(populatedItem);
+    return res.json(populatedItem && visibleItem(req, populatedItem));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error uploading images:', error);
     return res.status(500).json({ message: 'Error uploading images' });
   }
 }));
 
 // Mark item as delivered
-router.put('/:id/deliver', auth, upload.array('photos', 5), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.put('/:id/deliver', auth, requirePermission('deliver_items'), lostItemStation, uploadImageFields([{ name: 'photos', maxCount: 5 }, { name: 'idPhotos', maxCount: 2 }]), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await LostItem.findById(req.params.id);
     if (!item) {
@@ -250,62 +455,56 @@ router.put('/:id/deliver', auth, upload.array('photos', 5), createAuthenticatedH
 
     const customerInfo = JSON.parse(req.body.customerInfo);
     const signature = req.body.signature;
-    const files = req.files as (ExpressMulterFile & { stream: any })[];
+    const files = (req.files || {}) as Record<string, ExpressMulterFile[]>;
 
     // Validate required fields
     if (!customerInfo.receiverName || !customerInfo.receiverEmail || 
         !customerInfo.receiverPhone || !customerInfo.receiverIdentification || !signature) {
       return res.status(400).json({ message: 'Missing required fields' });
     }
-
-    // Upload delivery photos to Cloudinary if provided
-    let deliveryPhotos: Array<{ publicId: string; url: string; thumbnailUrl: string }> = [];
-    if (files && files.length > 0) {
-      const uploadPromises = files.map(file => 
-        cloudinaryService.uploadFile(file.buffer, file.mimetype, file.originalname, 'delivered', item.flightNumber)
-      );
-      const uploadedImages = await Promise.all(uploadPromises);
-      deliveryPhotos = uploadedImages.map((result: CloudinaryUploadResult) => ({
-        publicId: result.publicId,
-        url: result.url,
-        thumbnailUrl: result.thumbnailUrl
-      }));
+    if (typeof signature !== 'string' || !IMAGE_DATA_URI.test(signature)) {
+      return res.status(400).json({ message: 'signature must be a PNG or JPEG data URI', code: 'INVALID_SIGNATURE' });
     }
 
-    const currentDate = new Date();
+    // Upload delivery photos and ID scans if provided. ID scans are private
+    // and can only be viewed through signed URLs.
+    const [deliveryPhotos, identificationPhotos] = await Promise.all([
+      storageService.uploadImages(files.photos || [], { type: 'delivered', flightNumber: item.flightNumber }),
+      storageService.uploadImages(files.idPhotos || [], { type: 'delivered', flightNumber: item.flightNumber, private: true })
+    ]);
+
+    let deliveredItem;
+    try {
+      deliveredItem = await deliveredItemsService.deliver(req.params.id, {
+        customerInfo: {
+          name: customerInfo.receiverName,
+          email: customerInfo.receiverEmail,
+          phone: customerInfo.receiverPhone,
+          identification: customerInfo.receiverIdentification,
+          identificationType: customerInfo.receiverIdentificationType,
+          identificationPhotos,
+          signature: signature
+        },
+        deliveryNotes: customerInfo.notes,
+        deliveryPhotos
+      }, req.user);
+    } catch (error) {
+      // Nothing references the new uploads once the delivery is rolled back
+      await Promise.all([...deliveryPhotos, ...identificationPhotos].map(photo =>
+        storageService.deleteFile(photo).catch(() => undefined)
+      ));
+      throw error;
+    }
 
-    // Create a new delivered item
-    const deliveredItem = new DeliveredItem({
-      itemName: item.itemName || item.description,
-      flightNumber: item.flightNumber,
-      dateFound: item.dateFound,
-      location: item.location,
-      description: item.description,
-      category: item.category,
-      foundBy: item.foundBy,
-      supervisor: item.supervisor,
-      images: item.images,
-      customerInfo: {
-        name: customerInfo.receiverName,
-        email: customerInfo.receiverEmail,
-        phone: customerInfo.receiverPhone,
-        identification: customerInfo.receiverIdentification,
-        signature: signature
-      },
-      deliveryNotes: customerInfo.notes,
-      deliveryPhotos,
-      deliveredBy: req.user._id,
-      dateDelivered: currentDate,
-      archived: false
+    await matchingService.completeClaim(item, req.user._id).catch(error => {
+      console.error('Error closing lost report claim:', error);
     });
 
-    await deliveredItem.save();
-
-    // Delete the original lost item
-    await LostItem.findByIdAndDelete(req.params.id);
-
     res.json(deliveredItem);
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error delivering item:', error);
     res.status(500).json({ 
       message: 'Error delivering item',
@@ -314,27 +513,149 @@ router.put('/:id/deliver', auth, upload.array('photos', 5), createAuthenticatedH
   }
 }));
 
+// Approve handing over a high-value or sensitive item to its current claimant
+router.post('/:id/delivery-approval', auth, requirePermission('approve_high_value_deliveries'), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const item = await highValueService.approveDelivery(req.params.id, req.user, req.body.notes);
+    res.json(visibleItem(req, item));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error approving delivery:', error);
+    res.status(500).json({ message: 'Error approving delivery' });
+  }
+}));
+
+// Get viewable URLs for an item's photos; private photos get short-lived signed URLs
+router.get('/:id/images', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await LostItem.findById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    const images = await Promise.all(item.images.map(async (image) => ({
+      publicId: image.publicId,
+      url: image.private ? await storageService.getSignedUrl(image) : image.url,
+      thumbnailUrl: image.private && image.thumbnailPublicId
+        ? await storageService.getSignedUrl({ publicId: image.thumbnailPublicId, provider: image.provider, private: true })
+        : image.thumbnailUrl
+    })));
+    await itemAccessService.record(req, [item], 'LostItem', 'images_viewed');
+    res.json(images);
+  } catch (error) {
+    console.error('Error getting item images:', error);
+    res.status(500).json({ message: 'Error getting item images' });
+  }
+}));
+
+// Who looked at a high-value or sensitive item, newest first
+router.get('/:id/access-log', auth, requirePermission('view_access_logs'), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const options = parseListOptions(req.query, { sortFields: ['createdAt'], defaultSort: '-createdAt' });
+    const { entries, total } = await itemAccessService.list(req.params.id, options);
+    res.json(paginate(entries, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching item access log:', error);
+    res.status(500).json({ message: 'Error fetching item access log' });
+  }
+}));
+
+// Put an item away in a bin, shelf or room of its station, given by id or code
+router.post('/:id/move', auth, requirePermission(EDIT_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const item = await storageLocationService.move(req.params.id, req.body.location, req.user, req.body.notes);
+    res.json(await storageLocationService.whereIs(String(item._id)));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error moving item:', error);
+    res.status(500).json({ message: 'Error moving item' });
+  }
+}));
+
+// Where the item is kept: station, then room, shelf and bin
+router.get('/:id/location', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const whereabouts = await storageLocationService.whereIs(req.params.id);
+    await itemAccessService.record(req, [whereabouts.item], 'LostItem', 'viewed');
+    res.json(whereabouts);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error locating item:', error);
+    res.status(500).json({ message: 'Error locating item' });
+  }
+}));
+
+// Every storage location the item has been kept in, latest first
+router.get('/:id/storage-history', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await LostItem.findById(req.params.id).select('handling');
+    if (item) {
+      await itemAccessService.record(req, [item], 'LostItem', 'history_viewed');
+    }
+
+    res.json(await storageLocationService.itemHistory(req.params.id));
+  } catch (error) {
+    console.error('Error fetching storage history:', error);
+    res.status(500).json({ message: 'Error fetching storage history' });
+  }
+}));
+
 // Delete item
-router.delete('/:id', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.delete('/:id', auth, requirePermission(DELETE_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const item = await LostItem.findById(req.params.id);
     if (!item) {
       return res.status(404).json({ message: 'Item not found' });
     }
 
-    // Delete images from Cloudinary
+    // Delete images from storage
     for (const image of item.images) {
       if (image.publicId) {
         try {
-          await cloudinaryService.deleteFile(image.publicId);
+          await storageService.deleteFile(image);
         } catch (deleteError) {
-          console.error('Error deleting image from Cloudinary:', deleteError);
+          console.error('Error deleting image from storage:', deleteError);
           // Continue with deletion even if image deletion fails
         }
       }
     }
 
     await item.deleteOne();
+    await storageLocationService.release([item._id as Types.ObjectId], req.user._id, 'deleted');
+
+    await itemHistoryService.record({
+      item: item._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'deleted',
+      performedBy: req.user._id,
+      snapshot: itemHistoryService.snapshot(item.toObject())
+    });
+
     res.json({ message: 'Item deleted successfully' });
   } catch (error) {
     console.error('Error deleting item:', error);
@@ -342,22 +663,154 @@ router.delete('/:id', auth, createAuthenticatedHandler(async (req: Authenticated
   }
 }));
 
-// Search items
-router.get('/search/:term', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+// Change the status of an item. Only transitions without a dedicated
+// workflow endpoint are accepted here.
+router.patch('/:id/status', auth, requirePermission(EDIT_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { term } = req.params;
-    const items = await LostItem.find({
-      $or: [
-        { flightNumber: { $regex: term, $options: 'i' } },
-        { description: { $regex: term, $options: 'i' } },
-        { category: { $regex: term, $options: 'i' } },
-        { location: { $regex: term, $options: 'i' } }
-      ]
-    })
-    .populate('foundBy', 'firstName lastName employeeNumber');
-
-    res.json(items);
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await LostItem.findById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    const status = itemStatusService.normalize(req.body.status);
+    if (status !== item.status) {
+      await applyStatusChange(item, status, req.body.reason, req);
+    }
+
+    const updatedItem = await LostItem.findById(item._id)
+      .populate('foundBy', 'firstName lastName employeeNumber')
+      .populate('supervisor', 'firstName lastName employeeNumber');
+    res.json(updatedItem && visibleItem(req, updatedItem));
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error changing item status:', error);
+    res.status(500).json({ message: 'Error changing item status' });
+  }
+}));
+
+// Get the status transitions the current user can make from the item's status
+router.get('/:id/transitions', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await LostItem.findById(req.params.id).select('status');
+    if (!item) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    res.json({
+      status: item.status,
+      transitions: itemStatusService.allowedTransitions(item.status, req.user)
+    });
+  } catch (error) {
+    console.error('Error getting item transitions:', error);
+    res.status(500).json({ message: 'Error getting item transitions' });
+  }
+}));
+
+// Get the change history of an item, including its delivered/reverted lineage
+// Every item in the lineage must be at the user's stations; receiver details need view_delivered_items
+router.get('/:id/history', auth, requirePermission(VIEW_ITEMS, { owner: lostItemOwner }), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const events = await itemHistoryService.getHistory(req.params.id);
+    if (events.length === 0) {
+      return res.status(404).json({ message: 'No history found for this item' });
+    }
+
+    const owners = await itemHistoryService.ownership(events);
+    if (owners.some(owner => !stationService.hasAccess(req.user, owner.station))) {
+      return res.status(403).json({ message: 'Access denied. This item belongs to another station', code: 'STATION_ACCESS_DENIED' });
+    }
+    if (req.permissionScope === 'own' && owners.some(owner => String(owner.foundBy) !== req.user._id.toString())) {
+      return res.status(403).json({ message: 'Access denied. You can only access items you created', code: 'NOT_OWNER' });
+    }
+
+    await itemAccessService.record(req, owners.filter(owner => owner.itemModel === 'LostItem'), 'LostItem', 'history_viewed');
+    await itemAccessService.record(req, owners.filter(owner => owner.itemModel === 'DeliveredItem'), 'DeliveredItem', 'history_viewed');
+
+    res.json(hasPermission(req.user, 'view_delivered_items') ? events : itemHistoryService.redactDelivered(events));
+  } catch (error) {
+    console.error('Error fetching item history:', error);
+    res.status(500).json({ message: 'Error fetching item history' });
+  }
+}));
+
+// Get ranked passenger report suggestions for an item
+router.get('/:id/matches', auth, requirePermission('view_lost_reports'), lostItemStation, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid item id', code: 'INVALID_ID' });
+    }
+
+    const item = await LostItem.findById(req.params.id);
+    if (!item) {
+      return res.status(404).json({ message: 'Item not found' });
+    }
+
+    // Pick up reports filed or edited since the item was logged
+    await matchingService.refreshMatchesForItem(item);
+    const matches = await matchingService.getMatchesForItem(item._id as Types.ObjectId);
+    await itemAccessService.record(req, [item], 'LostItem', 'viewed');
+
+    res.json(matches);
+  } catch (error) {
+    console.error('Error fetching item matches:', error);
+    res.status(500).json({ message: 'Error fetching item matches' });
+  }
+}));
+
+// Relevance-ranked search. `scope` selects lost items (default), delivered
+// items or both; `sort` overrides relevance when searching a single collection.
+router.get('/search/:term', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const scope = searchService.parseScope(req.query.scope, 'lost');
+    if (scope !== 'lost' && !hasPermission(req.user, 'view_delivered_items')) {
+      return res.status(403).json({
+        message: 'Access denied. Searching delivered items requires view_delivered_items',
+        code: 'ACCESS_DENIED'
+      });
+    }
+
+    const options = parseListOptions(req.query, {
+      sortFields: scope === 'delivered' ? DELIVERED_ITEM_SORT_FIELDS : LOST_ITEM_SORT_FIELDS,
+      defaultSort: ''
+    });
+
+    const stationScope = await stationService.scopeFilter(req.user, req.query.station);
+    const delivered = { ...buildDeliveredItemFilters(req.query), ...stationScope };
+    if (!hasPermission(req.user, 'view_all_items')) {
+      delivered.foundBy = req.user._id;
+    }
+    if (delivered.archived === undefined && req.query.includeArchived !== 'true') {
+      delivered.archived = { $ne: true };
+    }
+
+    const { hits, total } = await searchService.search(
+      req.params.term,
+      scope,
+      { lost: { ...applyPermissionScope(req, buildLostItemFilters(req.query)), ...stationScope }, delivered },
+      options,
+      !req.query.sort
+    );
+
+    await itemAccessService.recordSearchHits(req, hits);
+    res.json(paginate(hits.map(hit => (hit.type === 'lost' ? { ...hit, item: visibleItem(req, hit.item) } : hit)), total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error searching items:', error);
     res.status(500).json({ message: 'Error searching items' });
   }
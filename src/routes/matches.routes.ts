@@ -0,0 +1,46 @@
+import { Router, Response } from 'express';
+import { Types } from 'mongoose';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import matchingService from '../services/matching.service';
+import { ServiceError } from '../utils/errors';
+
+const router = Router();
+
+// Accept a suggested match, moving the item into the claim workflow
+router.post('/:id/accept', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid match id', code: 'INVALID_ID' });
+    }
+
+    const match = await matchingService.acceptMatch(req.params.id, req.user);
+    res.json(match);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error accepting match:', error);
+    res.status(500).json({ message: 'Error accepting match' });
+  }
+}));
+
+// Reject a suggested match
+router.post('/:id/reject', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid match id', code: 'INVALID_ID' });
+    }
+
+    const match = await matchingService.rejectMatch(req.params.id, req.user, req.body.notes);
+    res.json(match);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error rejecting match:', error);
+    res.status(500).json({ message: 'Error rejecting match' });
+  }
+}));
+
+export default router;
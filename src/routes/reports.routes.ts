@@ -1,61 +1,434 @@
-import express from 'express';
-import { auth } from '../middleware/auth';
-import { PrismaClient } from '@prisma/client';
+import express, { Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import prisma from '../config/prisma';
+import LostItem from '../models/LostItem';
+import matchingService from '../services/matching.service';
+import reportPdfService, { ReportFilters, ReportGrouping, ReportType } from '../services/reportPdf.service';
+import stationService from '../services/station.service';
+import categoryService from '../services/category.service';
+import { ServiceError } from '../utils/errors';
+import { normalizeFlightNumber } from '../utils/flights';
+import { parseDate } from '../utils/itemFilters';
 
-interface DeliveryInfo {
-    receiverName?: string;
-    deliveryDate?: string;
-}
+const REPORT_TYPES: ReportType[] = ['delivered', 'inHand'];
+const REPORT_GROUPINGS: ReportGrouping[] = ['route'];
 
-interface Item {
-    flightNumber: string;
-    dateFound: string;
-    category?: string;
-    location: string;
-    description: string;
-    deliveryInfo?: DeliveryInfo;
-}
+type LostReportStatus = 'PENDING' | 'FOUND' | 'CLAIMED' | 'CLOSED';
 
-type ReportType = 'delivered' | 'inHand';
+const REPORT_STATUSES: LostReportStatus[] = ['PENDING', 'FOUND', 'CLAIMED', 'CLOSED'];
 
-interface GenerateReportRequest {
-    reportType: ReportType;
-    items: Item[];
+interface ReportStatusTransition {
+    from: LostReportStatus;
+    to: LostReportStatus;
+    // Endpoint that performs the transition; absent when a status change may do it
+    via?: string;
 }
 
+// Allowed report status changes. FOUND and CLAIMED follow the item, so they
+// are left to the match and delivery workflows.
+const REPORT_STATUS_TRANSITIONS: ReportStatusTransition[] = [
+    { from: 'PENDING', to: 'CLOSED' },
+    { from: 'CLOSED', to: 'PENDING' },
+    { from: 'PENDING', to: 'FOUND', via: 'POST /api/matches/:id/accept' },
+    { from: 'FOUND', to: 'PENDING', via: 'PATCH /api/items/:id/status' },
+    { from: 'FOUND', to: 'CLAIMED', via: 'PUT /api/items/:id/deliver' },
+    { from: 'CLAIMED', to: 'FOUND', via: 'POST /api/delivered-items/:id/revert' }
+];
+const REPORT_CHANNELS = ['PHONE', 'COUNTER', 'EMAIL', 'WEB'];
+
+// Fields an agent may set when logging or editing a passenger report
+const EDITABLE_REPORT_FIELDS = [
+    'itemName',
+    'description',
+    'location',
+    'category',
+    'passengerName',
+    'contactInfo',
+    'contactEmail',
+    'contactPhone',
+    'flightNumber',
+    'channel',
+    'notes',
+    'imageUrl'
+];
+
 const router = express.Router();
-const prisma = new PrismaClient();
 
-// Route to generate report data
-router.post('/generate', auth, async (req, res) => {
+const validateLostReport = [
+    body('itemName').notEmpty().withMessage('Item name is required'),
+    body('description').notEmpty().withMessage('Description is required'),
+    body('location').notEmpty().withMessage('Location is required'),
+    body('category').notEmpty().withMessage('Category is required'),
+    body('passengerName').notEmpty().withMessage('Passenger name is required'),
+    body('contactEmail').optional({ values: 'falsy' }).isEmail().withMessage('Invalid contact email'),
+    body('dateLost').optional({ values: 'falsy' }).isISO8601().withMessage('Invalid date lost'),
+    body('channel').optional().isIn(REPORT_CHANNELS).withMessage('Invalid channel')
+];
+
+const pickReportFields = (source: Record<string, any>) => {
+    const data: Record<string, any> = {};
+    for (const field of EDITABLE_REPORT_FIELDS) {
+        if (source[field] !== undefined) {
+            data[field] = source[field];
+        }
+    }
+    if (source.dateLost !== undefined) {
+        data.dateLost = source.dateLost ? new Date(source.dateLost) : null;
+    }
+    // Stored like item flight numbers, so reports and items can be matched and filtered alike
+    if (data.flightNumber) {
+        data.flightNumber = normalizeFlightNumber(data.flightNumber);
+    }
+    return data;
+};
+
+const parseReportId = (req: Request): number | null => {
+    const id = Number(req.params.id);
+    return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const findLostReport = (id: number) => prisma.report.findFirst({
+    where: { id, reportType: 'LOST' }
+});
+
+// Generate a PDF report from the database using the given filters
+router.post('/generate', auth, requirePermission('generate_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
     try {
-        const { reportType, items }: GenerateReportRequest = req.body;
-        
-        if (!reportType || !items || !Array.isArray(items)) {
-            return res.status(400).json({ 
-                error: 'Invalid request data. reportType and items array are required.' 
+        const { reportType, from, to, status, flightNumber, origin, destination, category, station, includePhotos, groupBy } = req.body;
+
+        if (!REPORT_TYPES.includes(reportType)) {
+            return res.status(400).json({
+                message: `reportType must be one of ${REPORT_TYPES.join(', ')}`,
+                code: 'INVALID_REPORT_TYPE'
+            });
+        }
+
+        if (groupBy !== undefined && !REPORT_GROUPINGS.includes(groupBy)) {
+            return res.status(400).json({
+                message: `groupBy must be one of ${REPORT_GROUPINGS.join(', ')}`,
+                code: 'INVALID_GROUP_BY'
             });
         }
 
-        // Here we just send back the data that will be used by the frontend to generate the PDF
-        res.json({
-            success: true,
+        const filters: ReportFilters = {
+            reportType,
+            from,
+            to,
+            status,
+            flightNumber,
+            origin,
+            destination,
+            category,
+            station,
+            stationScope: await stationService.scopeFilter(req.user, station),
+            includePhotos: includePhotos !== false && includePhotos !== 'false',
+            groupBy
+        };
+
+        const doc = await reportPdfService.generate(filters, req.user);
+        const fileName = `${reportType}-report-${new Date().toISOString().split('T')[0]}.pdf`;
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        doc.pipe(res);
+    } catch (error) {
+        if (error instanceof ServiceError) {
+            return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error('Error generating report:', error);
+        res.status(500).json({ message: 'Error generating report' });
+    }
+}));
+
+// Log a passenger lost-item report
+router.post('/', auth, requirePermission('manage_lost_reports'), validateLostReport, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(400).json({ errors: errors.array() });
+        }
+
+        // Store the taxonomy's name so "phone" and "Cellphone" end up as the same category
+        const category = await categoryService.resolve(req.body.category);
+
+        const report = await prisma.report.create({
             data: {
-                reportType,
-                items,
-                generatedAt: new Date().toISOString(),
-                metadata: {
-                    totalItems: items.length,
-                    reportType: reportType === 'delivered' ? 'Artículos Entregados' : 'Artículos En Mano'
-                }
+                ...pickReportFields(req.body),
+                category: category.name,
+                reportType: 'LOST',
+                status: 'PENDING',
+                channel: req.body.channel || 'COUNTER',
+                createdBy: req.user._id.toString(),
+                updatedBy: req.user._id.toString()
             }
         });
+
+        // Suggest found items the passenger's belonging may be among
+        await matchingService.refreshMatchesForReport(report).catch(error => {
+            console.error('Error matching new report against found items:', error);
+        });
+
+        res.status(201).json(report);
     } catch (error) {
-        console.error('Error generating report:', error);
-        res.status(500).json({ 
-            error: 'Error interno del servidor al generar el reporte' 
+        if (error instanceof ServiceError) {
+            return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error('Error creating lost report:', error);
+        res.status(500).json({ message: 'Error creating lost report' });
+    }
+}));
+
+// List passenger lost-item reports
+router.get('/', auth, requirePermission('view_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const { status, category, flightNumber, channel, search, from, to } = req.query as Record<string, string | undefined>;
+        const where: any = { reportType: 'LOST' };
+
+        if (status) {
+            const statuses = status.split(',').map(value => value.trim().toUpperCase());
+            if (statuses.some(value => !REPORT_STATUSES.includes(value as LostReportStatus))) {
+                return res.status(400).json({ message: 'Invalid status filter', code: 'INVALID_STATUS' });
+            }
+            where.status = { in: statuses };
+        }
+        if (category) {
+            // Includes the category's subcategories
+            where.category = { in: await categoryService.subtreeNames(category), mode: 'insensitive' };
+        }
+        if (flightNumber) {
+            where.flightNumber = normalizeFlightNumber(flightNumber);
+        }
+        if (channel) {
+            where.channel = channel.toUpperCase();
+        }
+        if (from || to) {
+            where.createdAt = {
+                ...(from && { gte: parseDate(from, 'from') }),
+                ...(to && { lte: parseDate(to, 'to') })
+            };
+        }
+        if (search) {
+            where.OR = ['itemName', 'description', 'passengerName', 'contactEmail', 'contactPhone'].map(field => ({
+                [field]: { contains: search, mode: 'insensitive' }
+            }));
+        }
+
+        const reports = await prisma.report.findMany({
+            where,
+            orderBy: { createdAt: 'desc' }
         });
+
+        res.json(reports);
+    } catch (error) {
+        if (error instanceof ServiceError) {
+            return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error('Error fetching lost reports:', error);
+        res.status(500).json({ message: 'Error fetching lost reports' });
     }
-});
+}));
+
+// Get a single lost report
+router.get('/:id', auth, requirePermission('view_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        res.json(report);
+    } catch (error) {
+        console.error('Error fetching lost report:', error);
+        res.status(500).json({ message: 'Error fetching lost report' });
+    }
+}));
+
+// Update the details of a lost report
+router.put('/:id', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        if (req.body.channel && !REPORT_CHANNELS.includes(req.body.channel)) {
+            return res.status(400).json({ message: 'Invalid channel', code: 'INVALID_CHANNEL' });
+        }
+
+        const data = pickReportFields(req.body);
+        if (data.category !== undefined) {
+            data.category = (await categoryService.resolve(data.category)).name;
+        }
+
+        const updatedReport = await prisma.report.update({
+            where: { id },
+            data: {
+                ...data,
+                updatedBy: req.user._id.toString()
+            }
+        });
+
+        res.json(updatedReport);
+    } catch (error) {
+        if (error instanceof ServiceError) {
+            return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error('Error updating lost report:', error);
+        res.status(500).json({ message: 'Error updating lost report' });
+    }
+}));
+
+// Change the status of a lost report
+router.patch('/:id/status', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const status = typeof req.body.status === 'string' ? req.body.status.toUpperCase() : '';
+        if (!REPORT_STATUSES.includes(status as LostReportStatus)) {
+            return res.status(400).json({
+                message: `Status must be one of ${REPORT_STATUSES.join(', ')}`,
+                code: 'INVALID_STATUS'
+            });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        const transition = REPORT_STATUS_TRANSITIONS.find(entry => entry.from === report.status && entry.to === status);
+        if (!transition) {
+            const targets = REPORT_STATUS_TRANSITIONS.filter(entry => entry.from === report.status).map(entry => entry.to);
+            return res.status(409).json({
+                message: `Cannot change status from ${report.status} to ${status}. Allowed from ${report.status}: ${targets.join(', ') || 'none'}`,
+                code: 'ILLEGAL_STATUS_TRANSITION'
+            });
+        }
+        if (transition.via) {
+            return res.status(409).json({
+                message: `Use ${transition.via} to change status from ${report.status} to ${status}`,
+                code: 'TRANSITION_REQUIRES_WORKFLOW'
+            });
+        }
+
+        const updatedReport = await prisma.report.update({
+            where: { id },
+            data: {
+                status,
+                updatedBy: req.user._id.toString()
+            }
+        });
+
+        res.json(updatedReport);
+    } catch (error) {
+        console.error('Error updating lost report status:', error);
+        res.status(500).json({ message: 'Error updating lost report status' });
+    }
+}));
+
+// Link a lost report to the LostItem it was matched with
+router.put('/:id/item', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const { itemId } = req.body;
+        if (!itemId || !Types.ObjectId.isValid(itemId)) {
+            return res.status(400).json({ message: 'A valid itemId is required', code: 'INVALID_ITEM_ID' });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        const item = await LostItem.findById(itemId);
+        if (!item) {
+            return res.status(404).json({ message: 'Item not found' });
+        }
+        if (!stationService.hasAccess(req.user, item.station)) {
+            return res.status(403).json({ message: 'Access denied. This item belongs to another station', code: 'STATION_ACCESS_DENIED' });
+        }
+
+        if (report.status !== 'PENDING') {
+            return res.status(409).json({ message: 'Report is no longer pending', code: 'REPORT_NOT_PENDING' });
+        }
+
+        await matchingService.linkReportToItem(report, item, req.user._id);
+        const updatedReport = await findLostReport(id);
+
+        res.json(updatedReport);
+    } catch (error) {
+        if (error instanceof ServiceError) {
+            return res.status(error.status).json({ message: error.message, code: error.code });
+        }
+        console.error('Error linking lost report to item:', error);
+        res.status(500).json({ message: 'Error linking lost report to item' });
+    }
+}));
+
+// Get ranked found item suggestions for a lost report
+router.get('/:id/matches', auth, requirePermission('view_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        // Pick up items logged since the report was filed, at the caller's stations
+        const scope = await stationService.scopeFilter(req.user);
+        await matchingService.refreshMatchesForReport(report, scope);
+        const matches = await matchingService.getMatchesForReport(id, scope);
+
+        res.json(matches);
+    } catch (error) {
+        console.error('Error fetching report matches:', error);
+        res.status(500).json({ message: 'Error fetching report matches' });
+    }
+}));
+
+// Delete a lost report
+router.delete('/:id', auth, requirePermission('manage_lost_reports'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+    try {
+        const id = parseReportId(req);
+        if (!id) {
+            return res.status(400).json({ message: 'Invalid report id', code: 'INVALID_ID' });
+        }
+
+        const report = await findLostReport(id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        await prisma.report.delete({ where: { id } });
+        res.json({ message: 'Report deleted successfully' });
+    } catch (error) {
+        console.error('Error deleting lost report:', error);
+        res.status(500).json({ message: 'Error deleting lost report' });
+    }
+}));
 
 export default router;
@@ -0,0 +1,51 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import stationService from '../services/station.service';
+import { ServiceError } from '../utils/errors';
+
+const router = Router();
+
+// List stations. Users only see the stations they are assigned to; admins see all of them.
+router.get('/', auth, createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const stations = await stationService.list(req.user, includeInactive);
+    res.json(stations);
+  } catch (error) {
+    console.error('Error fetching stations:', error);
+    res.status(500).json({ message: 'Error fetching stations' });
+  }
+}));
+
+// Create a station
+router.post('/', auth, requirePermission('manage_stations'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code, name, timezone, address, active } = req.body;
+    const station = await stationService.create({ code, name, timezone, address, active });
+    res.status(201).json(station);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating station:', error);
+    res.status(500).json({ message: 'Error creating station' });
+  }
+}));
+
+// Update a station. Deactivated stations keep their items but no longer show up in pickers.
+router.put('/:id', auth, requirePermission('manage_stations'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { code, name, timezone, address, active } = req.body;
+    const station = await stationService.update(req.params.id, { code, name, timezone, address, active });
+    res.json(station);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error updating station:', error);
+    res.status(500).json({ message: 'Error updating station' });
+  }
+}));
+
+export default router;
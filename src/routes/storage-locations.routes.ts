@@ -0,0 +1,146 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission, hasPermission, applyPermissionScope } from '../middleware/permissions';
+import storageLocationService from '../services/storageLocation.service';
+import labelPdfService from '../services/labelPdf.service';
+import itemAccessService from '../services/itemAccess.service';
+import itemHistoryService from '../services/itemHistory.service';
+import { parseListOptions, paginate } from '../utils/pagination';
+import { LOST_ITEM_SORT_FIELDS } from '../utils/itemFilters';
+import { ServiceError } from '../utils/errors';
+
+const router = Router();
+
+const VIEW_ITEMS = ['view_items', 'view_all_items', 'view_own_items'];
+
+// List storage locations at the caller's stations with the number of items each holds.
+// Filter with `station`, `type` and `parent`; `includeInactive=true` also lists retired ones.
+router.get('/', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { station, type, parent } = req.query;
+    const locations = await storageLocationService.list(req.user, {
+      station,
+      type,
+      parent,
+      includeInactive: req.query.includeInactive === 'true'
+    });
+    res.json(locations);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching storage locations:', error);
+    res.status(500).json({ message: 'Error fetching storage locations' });
+  }
+}));
+
+// Create a room, a shelf in a room or a bin on a shelf
+router.post('/', auth, requirePermission('manage_storage_locations'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { station, type, code, name, parent, capacity, active } = req.body;
+    const location = await storageLocationService.create({ station, type, code, name, parent, capacity, active }, req.user);
+    res.status(201).json(location);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating storage location:', error);
+    res.status(500).json({ message: 'Error creating storage location' });
+  }
+}));
+
+// Update a storage location. Only empty locations can be deactivated.
+router.put('/:id', auth, requirePermission('manage_storage_locations'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { type, code, name, parent, capacity, active } = req.body;
+    const location = await storageLocationService.update(req.params.id, { type, code, name, parent, capacity, active }, req.user);
+    res.json(location);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error updating storage location:', error);
+    res.status(500).json({ message: 'Error updating storage location' });
+  }
+}));
+
+// Look up the location on a scanned label, e.g. `YYZ:B-03`
+router.get('/by-label/:label', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const location = await storageLocationService.findByLabel(req.params.label, req.user);
+    res.json({
+      ...location.toObject(),
+      path: await storageLocationService.path(location),
+      occupancy: await storageLocationService.occupancy(location)
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error looking up storage location label:', error);
+    res.status(500).json({ message: 'Error looking up storage location label' });
+  }
+}));
+
+// Download a sheet of barcode labels for the given locations. With
+// `includeChildren: true` the shelves and bins inside them get labels too.
+router.post('/labels', auth, requirePermission('manage_storage_locations'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const includeChildren = req.body.includeChildren === true || req.body.includeChildren === 'true';
+    const locations = await storageLocationService.findForLabels(req.body.locationIds, req.user, includeChildren);
+    const labels = await Promise.all(locations.map(async location => labelPdfService.locationLabel(
+      location,
+      await storageLocationService.path(location),
+      storageLocationService.labelValue(location)
+    )));
+    const doc = labelPdfService.generate(labels, 'Storage Location Labels');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="storage-location-labels.pdf"');
+    doc.pipe(res);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error generating storage location labels:', error);
+    res.status(500).json({ message: 'Error generating storage location labels' });
+  }
+}));
+
+// Get a page of the items held in the location or anywhere inside it; `_own_` users only see their own
+router.get('/:id/items', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const location = await storageLocationService.findForUser(req.params.id, req.user);
+    const options = parseListOptions(req.query, { sortFields: LOST_ITEM_SORT_FIELDS, defaultSort: '-dateFound' });
+    const { items, total } = await storageLocationService.items(location, options, applyPermissionScope(req, {}));
+    await itemAccessService.record(req, items, 'LostItem', 'listed');
+    const visible = hasPermission(req.user, 'view_delivered_items')
+      ? items
+      : items.map(item => itemHistoryService.redactDeliveryHistory(item));
+    res.json(paginate(visible, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching storage location items:', error);
+    res.status(500).json({ message: 'Error fetching storage location items' });
+  }
+}));
+
+// Items put in and taken out of the location, latest first
+router.get('/:id/history', auth, requirePermission(VIEW_ITEMS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const location = await storageLocationService.findForUser(req.params.id, req.user);
+    const options = parseListOptions(req.query, { sortFields: ['assignedAt', 'releasedAt'], defaultSort: '-assignedAt' });
+    const { assignments, total } = await storageLocationService.locationHistory(location, options);
+    res.json(paginate(assignments, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching storage location history:', error);
+    res.status(500).json({ message: 'Error fetching storage location history' });
+  }
+}));
+
+export default router;
@@ -0,0 +1,146 @@
+import { Router, Response } from 'express';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { TRANSFER_STATUSES, TransferStatus } from '../models/Transfer';
+import transferService from '../services/transfer.service';
+import transferManifestPdfService from '../services/transferManifestPdf.service';
+import stationService from '../services/station.service';
+import { ServiceError } from '../utils/errors';
+import { parseListOptions, paginate } from '../utils/pagination';
+
+const router = Router();
+
+const TRANSFER_SORT_FIELDS = ['createdAt', 'dispatchedAt', 'expectedArrivalAt', 'receivedAt'];
+const VIEW_TRANSFERS = ['transfer_items', 'receive_transfers'];
+
+// List transfers leaving or arriving at the caller's stations. Filter with
+// `status`, `direction` (incoming or outgoing) and `overdue=true`.
+router.get('/', auth, requirePermission(VIEW_TRANSFERS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseListOptions(req.query, { sortFields: TRANSFER_SORT_FIELDS, defaultSort: '-createdAt' });
+
+    const filters: Record<string, any> = transferService.scopeFilter(req.user);
+    if (req.query.overdue === 'true') {
+      Object.assign(filters, transferService.overdueFilter());
+    } else if (req.query.status) {
+      if (!TRANSFER_STATUSES.includes(req.query.status as TransferStatus)) {
+        return res.status(400).json({
+          message: `status must be one of ${TRANSFER_STATUSES.join(', ')}`,
+          code: 'INVALID_STATUS'
+        });
+      }
+      filters.status = req.query.status;
+    }
+
+    if (req.query.direction === 'incoming' || req.query.direction === 'outgoing') {
+      const field = req.query.direction === 'incoming' ? 'toStation' : 'fromStation';
+      const scope = await stationService.scopeFilter(req.user, req.query.station);
+      if (scope.station) {
+        filters[field] = scope.station;
+      }
+    } else if (req.query.station) {
+      const scope = await stationService.scopeFilter(req.user, req.query.station);
+      filters.$and = [{ $or: [{ fromStation: scope.station }, { toStation: scope.station }] }];
+    }
+
+    const { transfers, total } = await transferService.list(filters, options);
+    res.json(paginate(transfers.map(transfer => transferService.toResponse(transfer)), total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({ message: 'Error fetching transfers' });
+  }
+}));
+
+// Prepare a transfer of items to another station
+router.post('/', auth, requirePermission('transfer_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { itemIds, toStation, notes } = req.body;
+    const transfer = await transferService.create({ itemIds, toStation, notes }, req.user);
+    res.status(201).json(transferService.toResponse(transfer));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error creating transfer:', error);
+    res.status(500).json({ message: 'Error creating transfer' });
+  }
+}));
+
+// Get a single transfer with its custody history
+router.get('/:id', auth, requirePermission(VIEW_TRANSFERS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transfer = await transferService.findForUser(req.params.id, req.user, true);
+    res.json(transferService.toResponse(transfer));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error fetching transfer:', error);
+    res.status(500).json({ message: 'Error fetching transfer' });
+  }
+}));
+
+// Hand the items over to the carrier
+router.post('/:id/dispatch', auth, requirePermission('transfer_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { carrier, trackingNumber, expectedArrivalAt, notes } = req.body;
+    const transfer = await transferService.dispatch(req.params.id, { carrier, trackingNumber, expectedArrivalAt, notes }, req.user);
+    res.json(transferService.toResponse(transfer));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error dispatching transfer:', error);
+    res.status(500).json({ message: 'Error dispatching transfer' });
+  }
+}));
+
+// Confirm the items arrived at the receiving station
+router.post('/:id/receive', auth, requirePermission('receive_transfers'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transfer = await transferService.receive(req.params.id, req.body.notes, req.user);
+    res.json(transferService.toResponse(transfer));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error receiving transfer:', error);
+    res.status(500).json({ message: 'Error receiving transfer' });
+  }
+}));
+
+// Call off a transfer that has not been dispatched
+router.post('/:id/cancel', auth, requirePermission('transfer_items'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transfer = await transferService.cancel(req.params.id, req.body.reason, req.user);
+    res.json(transferService.toResponse(transfer));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error cancelling transfer:', error);
+    res.status(500).json({ message: 'Error cancelling transfer' });
+  }
+}));
+
+// Download the manifest PDF travelling with the items
+router.get('/:id/manifest', auth, requirePermission(VIEW_TRANSFERS), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const transfer = await transferService.findForUser(req.params.id, req.user, true);
+    const doc = transferManifestPdfService.generate(transfer);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="manifest-${transfer.transferNumber}.pdf"`);
+    doc.pipe(res);
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error generating transfer manifest:', error);
+    res.status(500).json({ message: 'Error generating transfer manifest' });
+  }
+}));
+
+export default router;
@@ -1,7 +1,17 @@
 import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import { auth, checkRole, AuthenticatedRequest } from '../middleware/auth';
+import { Types } from 'mongoose';
+import { auth, AuthenticatedRequest, createAuthenticatedHandler } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
 import User from '../models/User';
+import { SECURITY_EVENT_TYPES, SecurityEventType } from '../models/SecurityEvent';
+import sessionService from '../services/session.service';
+import loginProtectionService from '../services/loginProtection.service';
+import securityLogService from '../services/securityLog.service';
+import passwordService from '../services/password.service';
+import stationService from '../services/station.service';
+import { ServiceError } from '../utils/errors';
+import { parseListOptions, paginate } from '../utils/pagination';
 
 const router = express.Router();
 
@@ -12,16 +22,29 @@ const validateUser = [
   body('lastName').notEmpty().withMessage('Last name is required'),
   body('password')
     .optional()
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters long'),
+    .isString()
+    .withMessage('Password must be a string'),
   body('role')
     .optional()
     .isIn(['admin', 'supervisor', 'employee'])
     .withMessage('Invalid role')
 ];
 
+// Admin accounts and roles are managed by admins only, so `manage_users` cannot be used to gain admin rights
+const isAdmin = (req: Request): boolean => req.user?.role === 'admin';
+
+const denyAdminAccount = (res: Response) => res.status(403).json({
+  message: 'Access denied. Only admins can manage admin accounts',
+  code: 'ADMIN_ONLY'
+});
+
+const denyRoleChange = (res: Response) => res.status(403).json({
+  message: 'Access denied. Only admins can assign roles',
+  code: 'ROLE_CHANGE_DENIED'
+});
+
 // Get all users
-router.get('/', auth, checkRole(['admin', 'supervisor']), async (req: Request, res: Response) => {
+router.get('/', auth, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     const users = await User.find().select('-password');
     res.json(users);
@@ -31,8 +54,37 @@ router.get('/', auth, checkRole(['admin', 'supervisor']), async (req: Request, r
   }
 });
 
+// Review lockouts, unlocks and password resets, newest first. Filter with `type` and `employeeNumber`.
+router.get('/security-events', auth, requirePermission('manage_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const options = parseListOptions(req.query, { sortFields: ['createdAt'], defaultSort: '-createdAt' });
+    const filters: Record<string, any> = {};
+    if (req.query.type) {
+      if (!SECURITY_EVENT_TYPES.includes(req.query.type as SecurityEventType)) {
+        return res.status(400).json({
+          message: `type must be one of ${SECURITY_EVENT_TYPES.join(', ')}`,
+          code: 'INVALID_EVENT_TYPE'
+        });
+      }
+      filters.type = req.query.type;
+    }
+    if (typeof req.query.employeeNumber === 'string' && req.query.employeeNumber) {
+      filters.employeeNumber = req.query.employeeNumber;
+    }
+
+    const { events, total } = await securityLogService.list(filters, options);
+    res.json(paginate(events, total, options));
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error getting security events:', error);
+    res.status(500).json({ message: 'Error getting security events' });
+  }
+}));
+
 // Get user by ID
-router.get('/:id', auth, checkRole(['admin', 'supervisor']), async (req: Request, res: Response) => {
+router.get('/:id', auth, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     const user = await User.findById(req.params.id).select('-password');
     if (!user) {
@@ -45,8 +97,73 @@ router.get('/:id', auth, checkRole(['admin', 'supervisor']), async (req: Request
   }
 });
 
+// Get a user's failed login count and lockout
+router.get('/:id/lockout', auth, requirePermission('manage_users'), async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id).select('employeeNumber');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json(await loginProtectionService.getStatus(user.employeeNumber));
+  } catch (error) {
+    console.error('Error getting lockout status:', error);
+    res.status(500).json({ message: 'Error getting lockout status' });
+  }
+});
+
+// Unlock a user locked out by failed logins. Pass `ipAddress` to also clear that address.
+router.post('/:id/unlock', auth, requirePermission('manage_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id).select('employeeNumber role');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.role === 'admin' && !isAdmin(req)) {
+      return denyAdminAccount(res);
+    }
+
+    const ipAddress = typeof req.body.ipAddress === 'string' && req.body.ipAddress ? req.body.ipAddress : undefined;
+    const wasLocked = await loginProtectionService.unlock(user.employeeNumber, req.user._id, {
+      userId: user._id as Types.ObjectId,
+      ipAddress
+    });
+    res.json({ message: 'User unlocked successfully', wasLocked });
+  } catch (error) {
+    console.error('Error unlocking user:', error);
+    res.status(500).json({ message: 'Error unlocking user' });
+  }
+}));
+
+// Issue a one-time password reset token for a user who forgot their password
+router.post('/:id/password-reset', auth, requirePermission('manage_users'), createAuthenticatedHandler(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid user id', code: 'INVALID_ID' });
+    }
+    const target = await User.findById(req.params.id).select('role');
+    if (target?.role === 'admin' && !isAdmin(req)) {
+      return denyAdminAccount(res);
+    }
+
+    const { token, expiresAt } = await passwordService.issueResetToken(req.params.id, req.user._id);
+    res.status(201).json({
+      token,
+      expiresAt,
+      ...(process.env.FRONTEND_URL && {
+        resetUrl: `${process.env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`
+      })
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    console.error('Error issuing password reset:', error);
+    res.status(500).json({ message: 'Error issuing password reset' });
+  }
+}));
+
 // Create new user
-router.post('/', auth, checkRole(['admin']), validateUser, async (req: Request, res: Response) => {
+router.post('/', auth, requirePermission('manage_users'), validateUser, async (req: Request, res: Response) => {
   try {
     // Check for validation errors
     const errors = validationResult(req);
@@ -54,7 +171,7 @@ router.post('/', auth, checkRole(['admin']), validateUser, async (req: Request,
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { employeeNumber, firstName, lastName, password, role = 'employee' } = req.body;
+    const { employeeNumber, firstName, lastName, password, role = 'employee', stations } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ employeeNumber });
@@ -66,14 +183,28 @@ router.post('/', auth, checkRole(['admin']), validateUser, async (req: Request,
     if (!['admin', 'supervisor', 'employee'].includes(role)) {
       return res.status(400).json({ message: 'Invalid role specified' });
     }
+    if (role !== 'employee' && !isAdmin(req)) {
+      return denyRoleChange(res);
+    }
+
+    const problems = passwordService.check(password, employeeNumber);
+    if (problems.length > 0) {
+      return res.status(400).json({ message: `Password must have ${problems.join(', ')}`, code: 'WEAK_PASSWORD' });
+    }
+
+    // Stations as ids or IATA codes; admins work across all stations without being assigned
+    const stationIds = stations === undefined ? [] : await stationService.resolve(stations);
 
-    // Create new user
+    // Create new user. The password is only temporary and must be changed at first login.
     const user = new User({
       employeeNumber,
       firstName,
       lastName,
       password,
-      role
+      role,
+      stations: stationIds,
+      passwordChangedAt: new Date(),
+      mustChangePassword: true
     });
 
     try {
@@ -92,11 +223,15 @@ router.post('/', auth, checkRole(['admin']), validateUser, async (req: Request,
       employeeNumber: user.employeeNumber,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role
+      role: user.role,
+      stations: user.stations
     };
 
     res.status(201).json(userResponse);
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error in user creation:', error);
     res.status(500).json({ 
       message: 'Error creating user',
@@ -106,7 +241,7 @@ router.post('/', auth, checkRole(['admin']), validateUser, async (req: Request,
 });
 
 // Update user
-router.put('/:id', auth, checkRole(['admin']), validateUser, async (req: Request, res: Response) => {
+router.put('/:id', auth, requirePermission('manage_users'), validateUser, async (req: Request, res: Response) => {
   try {
     // Check for validation errors
     const errors = validationResult(req);
@@ -114,20 +249,39 @@ router.put('/:id', auth, checkRole(['admin']), validateUser, async (req: Request
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { employeeNumber, firstName, lastName, password, role } = req.body;
+    const { employeeNumber, firstName, lastName, password, role, stations } = req.body;
 
     // Find user
     const user = await User.findById(req.params.id);
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
+    if (!isAdmin(req)) {
+      if (user.role === 'admin') {
+        return denyAdminAccount(res);
+      }
+      if (role && role !== user.role) {
+        return denyRoleChange(res);
+      }
+    }
+
+    // Resolved before anything is changed so an unknown station rejects the whole update
+    const stationIds = stations === undefined ? undefined : await stationService.resolve(stations);
+
+    // A password set by an administrator is temporary and signs the user out everywhere
+    if (password) {
+      await passwordService.setPassword(user._id as Types.ObjectId, password, {
+        actor: req.user?._id,
+        reason: 'Password set by administrator'
+      });
+    }
 
     // Update user fields
     if (employeeNumber) user.employeeNumber = employeeNumber;
     if (firstName) user.firstName = firstName;
     if (lastName) user.lastName = lastName;
-    if (password) user.password = password;
     if (role) user.role = role;
+    if (stationIds) user.stations = stationIds;
 
     await user.save();
 
@@ -138,12 +292,16 @@ router.put('/:id', auth, checkRole(['admin']), validateUser, async (req: Request
       firstName: user.firstName,
       lastName: user.lastName,
       role: user.role,
+      stations: user.stations,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt
     };
 
     res.json(userResponse);
   } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
     console.error('Error updating user:', error);
     res.status(500).json({ 
       message: 'Error updating user',
@@ -153,14 +311,18 @@ router.put('/:id', auth, checkRole(['admin']), validateUser, async (req: Request
 });
 
 // Delete user
-router.delete('/:id', auth, checkRole(['admin']), async (req: Request, res: Response) => {
+router.delete('/:id', auth, requirePermission('manage_users'), async (req: Request, res: Response) => {
   try {
     const user = await User.findById(req.params.id);
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
+    if (user.role === 'admin' && !isAdmin(req)) {
+      return denyAdminAccount(res);
+    }
 
     await user.deleteOne();
+    await sessionService.revokeAllForUser(user._id as Types.ObjectId, req.user?._id || null, 'User deleted');
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
     console.error('Error deleting user:', error);
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Permission from '../models/Permission';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+// Supervisors could invite users by role alone; keep that now it takes invite_users.
+// Run after initPermissions has created the permission.
+async function addInvitePermission() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    const invitePermission = await Permission.findOne({ name: 'invite_users' });
+    if (!invitePermission) {
+      console.error('invite_users permission not found');
+      process.exit(1);
+    }
+
+    const users = await User.find({
+      role: 'supervisor',
+      permissions: { $ne: invitePermission._id }
+    });
+
+    console.log(`Found ${users.length} supervisors without invite_users permission`);
+
+    for (const user of users) {
+      user.permissions = [...(user.permissions || []), invitePermission._id];
+      await user.save();
+      console.log(`Added invite_users permission to user ${user.employeeNumber}`);
+    }
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  addInvitePermission();
+}
+
+export default addInvitePermission;
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import Category from '../models/Category';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import categoryService from '../services/category.service';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+// Mark items already on file in high-value and sensitive categories, so
+// handing them over needs a supervisor's approval like new ones. They keep
+// no witness, and their photos stay public.
+async function applyItemHandling() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    let lostItems = 0;
+    let deliveredItems = 0;
+    for (const category of await Category.find()) {
+      const handling = await categoryService.effectiveHandling(category);
+      if (handling === 'standard') {
+        continue;
+      }
+      // Handling is never lowered, so only standard items are touched
+      const query = { categoryPath: category._id, category: category.name, handling: { $in: ['standard', null] } };
+      const lost = await LostItem.updateMany(query, { $set: { handling } });
+      const delivered = await DeliveredItem.updateMany(query, { $set: { handling } });
+      lostItems += lost.modifiedCount;
+      deliveredItems += delivered.modifiedCount;
+    }
+
+    console.log(`Marked ${lostItems} lost items and ${deliveredItems} delivered items as high-value or sensitive`);
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  applyItemHandling();
+}
+
+export default applyItemHandling;
@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import Station from '../models/Station';
+import User from '../models/User';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+// Usage: ts-node src/scripts/assignDefaultStation.ts YUL "Montréal-Trudeau" America/Toronto
+async function assignDefaultStation() {
+  try {
+    const [code, name, timezone] = process.argv.slice(2);
+    if (!code) {
+      console.error('Usage: assignDefaultStation <IATA code> [name] [timezone]');
+      process.exit(1);
+    }
+
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    // Create the station if it does not exist yet
+    let station = await Station.findOne({ code: code.toUpperCase() });
+    if (!station) {
+      if (!name || !timezone) {
+        console.error(`Station ${code.toUpperCase()} does not exist; name and timezone are required to create it`);
+        process.exit(1);
+      }
+      station = await Station.create({ code, name, timezone });
+      console.log(`Created station ${station.code}`);
+    }
+
+    // Records created before stations existed belong to the default station
+    const noStation = { station: { $exists: false } };
+    const lostItems = await LostItem.updateMany(noStation, { $set: { station: station._id } });
+    console.log(`Assigned ${lostItems.modifiedCount} lost items to ${station.code}`);
+
+    const deliveredItems = await DeliveredItem.updateMany(noStation, { $set: { station: station._id } });
+    console.log(`Assigned ${deliveredItems.modifiedCount} delivered items to ${station.code}`);
+
+    // Admins see every station and are left unassigned
+    const users = await User.updateMany(
+      { role: { $ne: 'admin' }, $or: [{ stations: { $exists: false } }, { stations: { $size: 0 } }] },
+      { $set: { stations: [station._id] } }
+    );
+    console.log(`Assigned ${users.modifiedCount} users to ${station.code}`);
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  assignDefaultStation();
+}
+
+export default assignDefaultStation;
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import labelPdfService from '../services/labelPdf.service';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+// Give items logged before reference codes existed a code, so their labels
+// can be printed and scanned. Delivered items get one too, as a revert
+// brings the code back to the lost item.
+async function assignReferenceCodes() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    let lostItems = 0;
+    let deliveredItems = 0;
+    for (const item of await LostItem.find({ referenceCode: { $exists: false } }).select('_id')) {
+      const result = await LostItem.updateOne(
+        { _id: item._id, referenceCode: { $exists: false } },
+        { $set: { referenceCode: labelPdfService.generateReferenceCode() } }
+      );
+      lostItems += result.modifiedCount;
+    }
+    for (const item of await DeliveredItem.find({ referenceCode: { $exists: false } }).select('_id')) {
+      const result = await DeliveredItem.updateOne(
+        { _id: item._id, referenceCode: { $exists: false } },
+        { $set: { referenceCode: labelPdfService.generateReferenceCode() } }
+      );
+      deliveredItems += result.modifiedCount;
+    }
+
+    console.log(`Assigned reference codes to ${lostItems} lost items and ${deliveredItems} delivered items`);
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  assignReferenceCodes();
+}
+
+export default assignReferenceCodes;
@@ -14,6 +14,18 @@ const DEFAULT_PERMISSIONS = [
     component: 'items',
     action: 'view'
   },
+  {
+    name: 'view_all_items',
+    description: 'View all lost and found items',
+    component: 'items',
+    action: 'view_all'
+  },
+  {
+    name: 'view_own_items',
+    description: 'View own lost and found items',
+    component: 'items',
+    action: 'view_own'
+  },
   {
     name: 'create_items',
     description: 'Create lost and found items',
@@ -67,6 +79,108 @@ const DEFAULT_PERMISSIONS = [
     description: 'View delivered items',
     component: 'items',
     action: 'view_delivered'
+  },
+  {
+    name: 'revert_delivered_status',
+    description: 'Revert delivered status of items',
+    component: 'items',
+    action: 'revert_delivered'
+  },
+  {
+    name: 'view_lost_reports',
+    description: 'View passenger lost item reports',
+    component: 'lost_reports',
+    action: 'view'
+  },
+  {
+    name: 'manage_lost_reports',
+    description: 'Create and update passenger lost item reports',
+    component: 'lost_reports',
+    action: 'manage'
+  },
+  {
+    name: 'dispose_items',
+    description: 'Prepare disposal batches for unclaimed items',
+    component: 'disposals',
+    action: 'prepare'
+  },
+  {
+    name: 'approve_disposals',
+    description: 'Approve or reject disposal batches',
+    component: 'disposals',
+    action: 'approve'
+  },
+  {
+    name: 'manage_retention_policies',
+    description: 'Configure retention periods per category',
+    component: 'disposals',
+    action: 'manage_policies'
+  },
+  {
+    name: 'invite_users',
+    description: 'Invite new users and revoke their pending invitations',
+    component: 'users',
+    action: 'invite'
+  },
+  {
+    name: 'manage_stations',
+    description: 'Create and update stations',
+    component: 'stations',
+    action: 'manage'
+  },
+  {
+    name: 'transfer_items',
+    description: 'Send items to another station',
+    component: 'transfers',
+    action: 'send'
+  },
+  {
+    name: 'receive_transfers',
+    description: 'Confirm receipt of items sent from another station',
+    component: 'transfers',
+    action: 'receive'
+  },
+  {
+    name: 'manage_flights',
+    description: 'Import the flight schedule',
+    component: 'flights',
+    action: 'manage'
+  },
+  {
+    name: 'manage_categories',
+    description: 'Manage the item category taxonomy',
+    component: 'categories',
+    action: 'manage'
+  },
+  {
+    name: 'approve_high_value_deliveries',
+    description: 'Approve handing over high-value and sensitive items',
+    component: 'items',
+    action: 'approve_delivery'
+  },
+  {
+    name: 'view_access_logs',
+    description: 'View who accessed high-value and sensitive items',
+    component: 'items',
+    action: 'view_access_log'
+  },
+  {
+    name: 'manage_storage_locations',
+    description: 'Manage storage rooms, shelves and bins',
+    component: 'storage_locations',
+    action: 'manage'
+  },
+  {
+    name: 'conduct_inventory_audits',
+    description: 'Start, scan and close inventory audits',
+    component: 'inventory_audits',
+    action: 'conduct'
+  },
+  {
+    name: 'view_inventory_audits',
+    description: 'View inventory audits and their discrepancy reports',
+    component: 'inventory_audits',
+    action: 'view'
   }
 ];
 
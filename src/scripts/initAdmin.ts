@@ -26,6 +26,8 @@ async function createAdminUser() {
       firstName: 'Admin',
       lastName: 'User',
       role: 'admin',
+      // The seeded password is well known, so it has to be replaced at first login
+      mustChangePassword: true,
       permissions: [
         'view_items',
         'create_items',
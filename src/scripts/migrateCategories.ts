@@ -0,0 +1,183 @@
+import mongoose, { Types } from 'mongoose';
+import Category, { ICategory, ICategoryAttribute } from '../models/Category';
+import LostItem, { ItemHandling } from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import prisma from '../config/prisma';
+import { normalizeCategoryKey } from '../services/category.service';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+interface DefaultCategory {
+  name: string;
+  aliases?: string[];
+  handling?: ItemHandling;
+  attributes?: Partial<ICategoryAttribute>[];
+  children?: DefaultCategory[];
+}
+
+const BRAND = { key: 'brand', label: 'Brand', required: true };
+const COLOR = { key: 'color', label: 'Color', required: true };
+
+// Starting taxonomy; admins refine it from the categories endpoints afterwards
+const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  {
+    name: 'Electronics',
+    attributes: [BRAND, { ...COLOR, required: false }],
+    children: [
+      { name: 'Phone', handling: 'highValue', aliases: ['phones', 'cellphone', 'cell phone', 'mobile', 'mobile phone', 'smartphone', 'iphone'], attributes: [{ key: 'imei', label: 'IMEI' }] },
+      { name: 'Laptop', handling: 'highValue', aliases: ['laptops', 'computer', 'notebook'], attributes: [{ key: 'serialNumber', label: 'Serial number' }] },
+      { name: 'Tablet', handling: 'highValue', aliases: ['tablets', 'ipad'], attributes: [{ key: 'serialNumber', label: 'Serial number' }] },
+      { name: 'Headphones', aliases: ['earphones', 'earbuds', 'airpods'] },
+      { name: 'Charger', aliases: ['chargers', 'cable', 'power bank'] }
+    ]
+  },
+  {
+    name: 'Bags',
+    aliases: ['bag', 'luggage'],
+    attributes: [COLOR],
+    children: [
+      { name: 'Backpack', aliases: ['backpacks'] },
+      { name: 'Suitcase', aliases: ['suitcases', 'carry-on', 'carry on'] },
+      { name: 'Handbag', aliases: ['handbags', 'purse'] }
+    ]
+  },
+  {
+    name: 'Clothing',
+    aliases: ['clothes', 'apparel'],
+    attributes: [COLOR],
+    children: [
+      { name: 'Jacket', aliases: ['jackets', 'coat'] },
+      { name: 'Hat', aliases: ['hats', 'cap'] }
+    ]
+  },
+  {
+    name: 'Documents',
+    handling: 'sensitive',
+    aliases: ['document', 'papers'],
+    children: [
+      { name: 'Passport', aliases: ['passports'], attributes: [{ key: 'issuingCountry', label: 'Issuing country' }] },
+      { name: 'ID Card', aliases: ['id', 'identification', 'id card'] }
+    ]
+  },
+  {
+    name: 'Accessories',
+    children: [
+      { name: 'Wallet', aliases: ['wallets'], attributes: [COLOR] },
+      { name: 'Glasses', aliases: ['eyeglasses', 'sunglasses'] },
+      { name: 'Jewelry', handling: 'highValue', aliases: ['jewellery'] },
+      { name: 'Watch', handling: 'highValue', aliases: ['watches'], attributes: [{ ...BRAND, required: false }] }
+    ]
+  },
+  { name: 'Cash', handling: 'highValue', aliases: ['money', 'currency', 'banknotes'] },
+  { name: 'Keys', aliases: ['key'] },
+  { name: 'Perishables', aliases: ['food'] },
+  { name: 'Other', aliases: ['misc', 'miscellaneous'] }
+];
+
+// Categories by normalized name and alias
+const lookup = new Map<string, ICategory>();
+
+const remember = (category: ICategory) => {
+  lookup.set(category.key, category);
+  category.aliases.forEach(alias => lookup.set(alias, category));
+};
+
+async function seedCategory(entry: DefaultCategory, parent?: ICategory) {
+  const key = normalizeCategoryKey(entry.name);
+  let category = lookup.get(key);
+  if (!category) {
+    category = await Category.create({
+      name: entry.name,
+      key,
+      parent: parent?._id,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+      aliases: (entry.aliases || []).map(normalizeCategoryKey).filter(alias => !lookup.has(alias)),
+      attributes: (entry.attributes || []).map(attribute => ({ type: 'text', required: false, ...attribute })),
+      handling: entry.handling
+    });
+    console.log(`Created category ${entry.name}`);
+    remember(category);
+  }
+  for (const child of entry.children || []) {
+    await seedCategory(child, category);
+  }
+}
+
+// Category for a stored free-text value; values that match nothing become top-level categories
+async function categoryFor(value: string): Promise<ICategory> {
+  const key = normalizeCategoryKey(value);
+  let category = lookup.get(key);
+  if (!category) {
+    category = await Category.create({ name: value.trim().replace(/\s+/g, ' '), key, ancestors: [], aliases: [], attributes: [] });
+    console.log(`Created category ${category.name} for unmatched value "${value}"; merge it into another category if it is a duplicate`);
+    remember(category);
+  }
+  return category;
+}
+
+async function migrateCollection(model: mongoose.Model<any>, name: string) {
+  const unlinked = { 'categoryPath.0': { $exists: false } };
+  const values: string[] = (await model.distinct('category', unlinked)).filter((value: unknown) => typeof value === 'string' && value.trim());
+
+  let updated = 0;
+  for (const value of values) {
+    const category = await categoryFor(value);
+    const result = await model.updateMany(
+      { ...unlinked, category: value },
+      { $set: { category: category.name, categoryPath: [...category.ancestors, category._id as Types.ObjectId] } }
+    );
+    updated += result.modifiedCount;
+  }
+  console.log(`Linked ${updated} ${name} to the category taxonomy`);
+}
+
+async function migrateReports() {
+  const reports: { category: string }[] = await prisma.report.findMany({ distinct: ['category'], select: { category: true } });
+
+  let updated = 0;
+  for (const { category: value } of reports) {
+    if (!value || !value.trim()) {
+      continue;
+    }
+    const category = await categoryFor(value);
+    if (category.name !== value) {
+      const result = await prisma.report.updateMany({ where: { category: value }, data: { category: category.name } });
+      updated += result.count;
+    }
+  }
+  console.log(`Renamed the category of ${updated} passenger reports`);
+}
+
+// Seed the category taxonomy and map the free-text categories of items and reports onto it
+async function migrateCategories() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    (await Category.find()).forEach(remember);
+    for (const entry of DEFAULT_CATEGORIES) {
+      await seedCategory(entry);
+    }
+
+    await migrateCollection(LostItem, 'lost items');
+    await migrateCollection(DeliveredItem, 'delivered items');
+    await migrateReports();
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  migrateCategories();
+}
+
+export default migrateCategories;
@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import prisma from '../config/prisma';
+import { parseFlightNumber, formatFlightNumber } from '../utils/flights';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+async function normalizeCollection(model: mongoose.Model<any>, name: string) {
+  let updated = 0;
+  const unparsed: string[] = [];
+
+  const cursor = model.find().select('flightNumber').lean().cursor();
+  for await (const item of cursor) {
+    const flight = parseFlightNumber(item.flightNumber);
+    if (!flight) {
+      unparsed.push(`${item._id} (${item.flightNumber})`);
+      continue;
+    }
+    const flightNumber = formatFlightNumber(flight);
+    if (flightNumber !== item.flightNumber) {
+      await model.updateOne({ _id: item._id }, { $set: { flightNumber } });
+      updated++;
+    }
+  }
+
+  console.log(`Normalized ${updated} ${name} flight numbers`);
+  if (unparsed.length > 0) {
+    console.log(`${unparsed.length} ${name} have a flight number that needs fixing by hand:`);
+    unparsed.forEach(entry => console.log(`  ${entry}`));
+  }
+}
+
+async function normalizeReports() {
+  let updated = 0;
+  const unparsed: string[] = [];
+
+  const reports = await prisma.report.findMany({
+    where: { flightNumber: { not: null } },
+    select: { id: true, flightNumber: true }
+  });
+  for (const report of reports) {
+    const flight = parseFlightNumber(report.flightNumber);
+    if (!flight) {
+      unparsed.push(`#${report.id} (${report.flightNumber})`);
+      continue;
+    }
+    const flightNumber = formatFlightNumber(flight);
+    if (flightNumber !== report.flightNumber) {
+      await prisma.report.update({ where: { id: report.id }, data: { flightNumber } });
+      updated++;
+    }
+  }
+
+  console.log(`Normalized ${updated} report flight numbers`);
+  if (unparsed.length > 0) {
+    console.log(`${unparsed.length} reports have a flight number that needs fixing by hand:`);
+    unparsed.forEach(entry => console.log(`  ${entry}`));
+  }
+}
+
+// Rewrite flight numbers typed as `ac 0123` or `123` to the stored form `AC123`
+async function normalizeFlightNumbers() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    await normalizeCollection(LostItem, 'lost items');
+    await normalizeCollection(DeliveredItem, 'delivered items');
+    await normalizeReports();
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  normalizeFlightNumbers();
+}
+
+export default normalizeFlightNumbers;
@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+import LostItem from '../models/LostItem';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/air-canada-lost-found';
+
+// Items could be set to `pending` by hand before the status workflow; a
+// pending item now needs the report it is reserved for. Put the ones that
+// have none back on hand so they can be matched, delivered or disposed of.
+async function releaseUnclaimedPendingItems() {
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB successfully');
+
+    const result = await LostItem.updateMany(
+      { status: 'pending', claimReport: null },
+      { $set: { status: 'onHand' } }
+    );
+
+    console.log(`Moved ${result.modifiedCount} pending items without a claim back to onHand`);
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running migration:', error);
+    process.exit(1);
+  }
+}
+
+// Run the migration if this script is executed directly
+if (require.main === module) {
+  releaseUnclaimedPendingItems();
+}
+
+export default releaseUnclaimedPendingItems;
@@ -8,6 +8,16 @@ import userRoutes from './routes/user.routes';
 import deliveredItemsRoutes from './routes/delivered-items.routes';
 import reportsRoutes from './routes/reports.routes';
 import permissionRoutes from './routes/permission.routes';
+import matchRoutes from './routes/matches.routes';
+import disposalRoutes from './routes/disposals.routes';
+import fileRoutes from './routes/files.routes';
+import invitationRoutes from './routes/invitations.routes';
+import stationRoutes from './routes/stations.routes';
+import transferRoutes from './routes/transfers.routes';
+import flightRoutes from './routes/flights.routes';
+import categoryRoutes from './routes/categories.routes';
+import storageLocationRoutes from './routes/storage-locations.routes';
+import inventoryAuditRoutes from './routes/inventory-audits.routes';
 
 // Load environment variables
 const result = dotenv.config();
@@ -15,8 +25,19 @@ console.log('Environment variables loaded:', result.parsed ? 'success' : 'failed
 console.log('Environment file path:', result.parsed ? 'found' : 'not found');
 console.log('Current working directory:', process.cwd());
 
+// Access tokens are signed with this secret; without it anyone could forge one
+if (!process.env.JWT_SECRET) {
+  console.error('JWT_SECRET must be set');
+  process.exit(1);
+}
+
 const app = express();
 
+// Behind the hosting proxy `req.ip` must come from X-Forwarded-For, otherwise every
+// login would appear to come from the proxy and share one failed-attempt counter.
+// Off by default: when exposed directly, clients could pick their address through the header.
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || 0);
+
 // CORS configuration
 const corsOptions = {
   origin: 'https://air-canada-lost-found-frontend.onrender.com',
@@ -41,6 +62,16 @@ app.use('/api/users', userRoutes);
 app.use('/api/delivered-items', deliveredItemsRoutes);
 app.use('/api/reports', reportsRoutes);
 app.use('/api/permissions', permissionRoutes);
+app.use('/api/matches', matchRoutes);
+app.use('/api/disposals', disposalRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/stations', stationRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/flights', flightRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/storage-locations', storageLocationRoutes);
+app.use('/api/inventory-audits', inventoryAuditRoutes);
+app.use('/files', fileRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
@@ -0,0 +1,459 @@
+import mongoose, { Types, ClientSession } from 'mongoose';
+import Category, { ICategory, ICategoryAttribute, CATEGORY_ATTRIBUTE_TYPES, CategoryAttributeType } from '../models/Category';
+import LostItem, { ItemHandling, ITEM_HANDLINGS } from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import prisma from '../config/prisma';
+import { ServiceError } from '../utils/errors';
+
+export type AttributeValues = Record<string, string | number | boolean>;
+
+export interface CategoryInput {
+  name?: unknown;
+  parent?: unknown;
+  aliases?: unknown;
+  attributes?: unknown;
+  handling?: unknown;
+  active?: unknown;
+}
+
+// Category and attribute values sent with an item
+export interface ItemCategoryInput {
+  category?: unknown;
+  attributes?: unknown;
+}
+
+// Values to store on the item
+export interface ItemCategoryFields {
+  category?: string;
+  categoryPath?: Types.ObjectId[];
+  attributes?: AttributeValues;
+  // Handling the category calls for; see highValue.service.ts for how it applies to the item
+  handling?: ItemHandling;
+}
+
+export interface CategoryMergeResult {
+  category: ICategory;
+  lostItems: number;
+  deliveredItems: number;
+  reports: number;
+}
+
+// `  Cell  Phone ` and `cell phone` are the same category
+export const normalizeCategoryKey = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const ATTRIBUTE_KEY = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+// Accept an array or a comma separated list
+const toList = (value: unknown): string[] => {
+  const entries = Array.isArray(value) ? value : String(value).split(',');
+  return entries.map(entry => String(entry).trim()).filter(Boolean);
+};
+
+// Attribute values arrive as an object, or as a JSON string in multipart forms
+const parseAttributeValues = (value: unknown): Record<string, unknown> => {
+  let values = value;
+  if (typeof value === 'string') {
+    try {
+      values = JSON.parse(value);
+    } catch {
+      values = undefined;
+    }
+  }
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new ServiceError('attributes must be an object of attribute values', 400, 'INVALID_ATTRIBUTES');
+  }
+  return values as Record<string, unknown>;
+};
+
+// Check a value against its attribute definition; blank values clear the attribute
+const coerceAttribute = (attribute: ICategoryAttribute, value: unknown): string | number | boolean | undefined => {
+  if (isBlank(value)) {
+    return undefined;
+  }
+  switch (attribute.type) {
+    case 'number': {
+      const number = Number(value);
+      if (typeof value === 'boolean' || isNaN(number)) {
+        throw new ServiceError(`${attribute.label} must be a number`, 400, 'INVALID_ATTRIBUTE');
+      }
+      return number;
+    }
+    case 'boolean':
+      if (value === true || value === 'true') {
+        return true;
+      }
+      if (value === false || value === 'false') {
+        return false;
+      }
+      throw new ServiceError(`${attribute.label} must be true or false`, 400, 'INVALID_ATTRIBUTE');
+    case 'select': {
+      const option = (attribute.options || []).find(entry => entry.toLowerCase() === String(value).trim().toLowerCase());
+      if (!option) {
+        throw new ServiceError(`${attribute.label} must be one of ${(attribute.options || []).join(', ')}`, 400, 'INVALID_ATTRIBUTE');
+      }
+      return option;
+    }
+    default:
+      return String(value).trim();
+  }
+};
+
+class CategoryService {
+  async findById(categoryId: unknown): Promise<ICategory> {
+    const category = Types.ObjectId.isValid(String(categoryId)) ? await Category.findById(categoryId) : null;
+    if (!category) {
+      throw new ServiceError('Category not found', 404, 'CATEGORY_NOT_FOUND');
+    }
+    return category;
+  }
+
+  /**
+   * Find a category by id, name or alias, ignoring case and extra spaces.
+   * Throws when there is no such category.
+   */
+  async resolve(value: unknown): Promise<ICategory> {
+    if (isBlank(value) || typeof value === 'object') {
+      throw new ServiceError('category is required', 400, 'CATEGORY_REQUIRED');
+    }
+    const text = String(value);
+    if (Types.ObjectId.isValid(text) && text.length === 24) {
+      const category = await Category.findById(text);
+      if (category) {
+        return category;
+      }
+    }
+    const key = normalizeCategoryKey(text);
+    const category = await Category.findOne({ $or: [{ key }, { aliases: key }] });
+    if (!category) {
+      throw new ServiceError(`Unknown category "${text.trim()}"`, 400, 'INVALID_CATEGORY');
+    }
+    return category;
+  }
+
+  // Attributes items of the category must or may have: its own and its ancestors'
+  async effectiveAttributes(category: ICategory): Promise<ICategoryAttribute[]> {
+    const ancestors = await Category.find({ _id: { $in: category.ancestors } }).select('attributes');
+    const byKey = new Map<string, ICategoryAttribute>();
+    for (const ancestorId of category.ancestors) {
+      const ancestor = ancestors.find(entry => String(entry._id) === String(ancestorId));
+      ancestor?.attributes.forEach(attribute => byKey.set(attribute.key, attribute));
+    }
+    // A subcategory can redefine an attribute of its parent, e.g. to make it required
+    category.attributes.forEach(attribute => byKey.set(attribute.key, attribute));
+    return [...byKey.values()];
+  }
+
+  // The category's own handling, or the nearest ancestor's
+  async effectiveHandling(category: ICategory): Promise<ItemHandling> {
+    if (category.handling) {
+      return category.handling;
+    }
+    const ancestors = await Category.find({ _id: { $in: category.ancestors } }).select('handling');
+    for (const ancestorId of [...category.ancestors].reverse()) {
+      const ancestor = ancestors.find(entry => String(entry._id) === String(ancestorId));
+      if (ancestor?.handling) {
+        return ancestor.handling;
+      }
+    }
+    return 'standard';
+  }
+
+  /**
+   * Work out the category values to store on an item and check its
+   * attributes. `current` holds the item's values when updating; an update
+   * that sends no attributes and no new category leaves them alone. Attribute
+   * values are merged into the current ones, and values the new category does
+   * not define are dropped when the category changes.
+   */
+  async resolveForItem(
+    input: ItemCategoryInput,
+    current?: { category?: string; categoryPath?: Types.ObjectId[]; attributes?: AttributeValues }
+  ): Promise<ItemCategoryFields> {
+    if (current && input.category === undefined && input.attributes === undefined) {
+      return {};
+    }
+
+    const currentId = current?.categoryPath?.length ? current.categoryPath[current.categoryPath.length - 1] : undefined;
+    let category: ICategory;
+    if (input.category !== undefined) {
+      category = await this.resolve(input.category);
+    } else {
+      // Items created before the taxonomy only have the category name
+      category = currentId ? await this.findById(currentId) : await this.resolve(current?.category);
+    }
+    const changed = !currentId || String(currentId) !== String(category._id);
+    if (current && !changed && input.attributes === undefined) {
+      return {};
+    }
+    if (changed && !category.active) {
+      throw new ServiceError(`Category ${category.name} is no longer in use`, 400, 'CATEGORY_INACTIVE');
+    }
+
+    const definitions = await this.effectiveAttributes(category);
+    const values: AttributeValues = {};
+    for (const [key, value] of Object.entries(current?.attributes || {})) {
+      if (definitions.some(attribute => attribute.key === key)) {
+        values[key] = value;
+      }
+    }
+
+    if (!isBlank(input.attributes)) {
+      const sent = parseAttributeValues(input.attributes);
+      for (const [key, value] of Object.entries(sent)) {
+        const attribute = definitions.find(entry => entry.key === key);
+        if (!attribute) {
+          throw new ServiceError(`${category.name} has no attribute "${key}"`, 400, 'INVALID_ATTRIBUTE');
+        }
+        const coerced = coerceAttribute(attribute, value);
+        if (coerced === undefined) {
+          delete values[key];
+        } else {
+          values[key] = coerced;
+        }
+      }
+    }
+
+    const missing = definitions.filter(attribute => attribute.required && values[attribute.key] === undefined);
+    if (missing.length > 0) {
+      throw new ServiceError(
+        `Missing required attributes for ${category.name}: ${missing.map(attribute => attribute.label).join(', ')}`,
+        400,
+        'MISSING_ATTRIBUTES'
+      );
+    }
+
+    return {
+      category: category.name,
+      categoryPath: [...category.ancestors, category._id as Types.ObjectId],
+      attributes: values,
+      handling: await this.effectiveHandling(category)
+    };
+  }
+
+  // Names of a category and its subcategories, to match the category stored on passenger reports
+  async subtreeNames(value: string): Promise<string[]> {
+    const key = normalizeCategoryKey(value);
+    const category = await Category.findOne({ $or: [{ key }, { aliases: key }] });
+    if (!category) {
+      return [value.trim()];
+    }
+    const descendants = await Category.find({ ancestors: category._id }).select('name');
+    return [category.name, ...descendants.map(entry => entry.name)];
+  }
+
+  async list(includeInactive = false): Promise<ICategory[]> {
+    return Category.find(includeInactive ? {} : { active: true }).sort({ name: 1 });
+  }
+
+  private parseName(value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new ServiceError('name is required', 400, 'INVALID_CATEGORY_NAME');
+    }
+    return value.trim().replace(/\s+/g, ' ');
+  }
+
+  private parseAttributes(value: unknown): ICategoryAttribute[] {
+    if (!Array.isArray(value)) {
+      throw new ServiceError('attributes must be a list', 400, 'INVALID_ATTRIBUTE_DEFINITION');
+    }
+    const attributes = value.map((entry): ICategoryAttribute => {
+      const key = typeof entry?.key === 'string' ? entry.key.trim() : '';
+      if (!ATTRIBUTE_KEY.test(key)) {
+        throw new ServiceError('Attribute keys must start with a letter and contain only letters, digits and _', 400, 'INVALID_ATTRIBUTE_DEFINITION');
+      }
+      const type: CategoryAttributeType = entry.type || 'text';
+      if (!CATEGORY_ATTRIBUTE_TYPES.includes(type)) {
+        throw new ServiceError(`Attribute type must be one of ${CATEGORY_ATTRIBUTE_TYPES.join(', ')}`, 400, 'INVALID_ATTRIBUTE_DEFINITION');
+      }
+      const options = type === 'select' ? toList(entry.options || []) : undefined;
+      if (options && options.length === 0) {
+        throw new ServiceError(`Attribute ${key} needs options to choose from`, 400, 'INVALID_ATTRIBUTE_DEFINITION');
+      }
+      const label = typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : key;
+      return { key, label, type, options, required: entry.required === true || entry.required === 'true' };
+    });
+
+    const keys = attributes.map(attribute => attribute.key);
+    const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      throw new ServiceError(`Duplicate attribute: ${duplicates.join(', ')}`, 400, 'INVALID_ATTRIBUTE_DEFINITION');
+    }
+    return attributes;
+  }
+
+  // Names and aliases have to resolve to a single category
+  private async assertKeysFree(keys: string[], excludeId?: unknown) {
+    const taken = await Category.findOne({
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+      $or: [{ key: { $in: keys } }, { aliases: { $in: keys } }]
+    });
+    if (taken) {
+      throw new ServiceError(`The name or an alias is already used by ${taken.name}`, 409, 'CATEGORY_EXISTS');
+    }
+  }
+
+  // Blank clears the handling so the category inherits its parent's
+  private parseHandling(value: unknown): ItemHandling | undefined {
+    if (isBlank(value)) {
+      return undefined;
+    }
+    if (!ITEM_HANDLINGS.includes(value as ItemHandling)) {
+      throw new ServiceError(`handling must be one of ${ITEM_HANDLINGS.join(', ')}`, 400, 'INVALID_HANDLING');
+    }
+    return value as ItemHandling;
+  }
+
+  private async resolveParent(value: unknown, categoryId?: unknown): Promise<ICategory | null> {
+    if (isBlank(value)) {
+      return null;
+    }
+    const parent = await this.resolve(value);
+    if (categoryId && (String(parent._id) === String(categoryId) || parent.ancestors.some(id => String(id) === String(categoryId)))) {
+      throw new ServiceError('A category cannot be moved under itself or one of its subcategories', 400, 'INVALID_PARENT');
+    }
+    return parent;
+  }
+
+  /**
+   * Move a category and everything under it below `ancestors`, rewriting the
+   * ancestor chains of its subcategories and the category paths of items.
+   */
+  private async moveSubtree(categoryId: Types.ObjectId, ancestors: Types.ObjectId[], session: ClientSession) {
+    const rebase = (field: string) => [{
+      $set: {
+        [field]: {
+          $concatArrays: [
+            ancestors,
+            { $slice: [`$${field}`, { $indexOfArray: [`$${field}`, categoryId] }, { $size: `$${field}` }] }
+          ]
+        }
+      }
+    }];
+    await Category.updateOne({ _id: categoryId }, { $set: { ancestors } }, { session });
+    await Category.updateMany({ ancestors: categoryId }, rebase('ancestors'), { session });
+    await LostItem.updateMany({ categoryPath: categoryId }, rebase('categoryPath'), { session });
+    await DeliveredItem.updateMany({ categoryPath: categoryId }, rebase('categoryPath'), { session });
+  }
+
+  async create(input: CategoryInput): Promise<ICategory> {
+    const name = this.parseName(input.name);
+    const aliases = input.aliases === undefined ? [] : toList(input.aliases).map(normalizeCategoryKey);
+    const key = normalizeCategoryKey(name);
+    await this.assertKeysFree([key, ...aliases]);
+    const parent = await this.resolveParent(input.parent);
+
+    return Category.create({
+      name,
+      key,
+      parent: parent?._id,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+      aliases: aliases.filter(alias => alias !== key),
+      attributes: input.attributes === undefined ? [] : this.parseAttributes(input.attributes),
+      handling: this.parseHandling(input.handling),
+      active: input.active !== false && input.active !== 'false'
+    });
+  }
+
+  /**
+   * Update a category. Renaming keeps the old name as an alias and renames
+   * the category on items and passenger reports; moving it under another
+   * parent moves its subcategories along.
+   */
+  async update(categoryId: string, input: CategoryInput): Promise<ICategory> {
+    const category = await this.findById(categoryId);
+    const previousName = category.name;
+
+    const name = input.name === undefined ? category.name : this.parseName(input.name);
+    const key = normalizeCategoryKey(name);
+    let aliases = input.aliases === undefined ? category.aliases : toList(input.aliases).map(normalizeCategoryKey);
+    if (key !== category.key) {
+      aliases = [...aliases, category.key];
+    }
+    aliases = [...new Set(aliases)].filter(alias => alias !== key);
+    await this.assertKeysFree([key, ...aliases], category._id);
+
+    const parent = input.parent === undefined
+      ? undefined
+      : await this.resolveParent(input.parent, category._id);
+
+    if (input.attributes !== undefined) {
+      category.attributes = this.parseAttributes(input.attributes);
+    }
+    if (input.handling !== undefined) {
+      category.handling = this.parseHandling(input.handling);
+    }
+    if (input.active !== undefined) {
+      category.active = input.active === true || input.active === 'true';
+    }
+    category.name = name;
+    category.key = key;
+    category.aliases = aliases;
+
+    await mongoose.connection.transaction(async (session) => {
+      if (parent !== undefined && String(parent?._id) !== String(category.parent)) {
+        category.parent = parent ? parent._id as Types.ObjectId : undefined;
+        category.ancestors = parent ? [...parent.ancestors, parent._id as Types.ObjectId] : [];
+        await this.moveSubtree(category._id as Types.ObjectId, category.ancestors, session);
+      }
+      await category.save({ session });
+      if (name !== previousName) {
+        await LostItem.updateMany({ categoryPath: category._id, category: previousName }, { $set: { category: name } }, { session });
+        await DeliveredItem.updateMany({ categoryPath: category._id, category: previousName }, { $set: { category: name } }, { session });
+      }
+    });
+
+    if (name !== previousName) {
+      await prisma.report.updateMany({
+        where: { category: { equals: previousName, mode: 'insensitive' } },
+        data: { category: name }
+      });
+    }
+    return category;
+  }
+
+  /**
+   * Merge a duplicate category into another one. Items and passenger reports
+   * move to the target, subcategories are moved under it, and the
+   * duplicate's name and aliases become aliases of the target.
+   */
+  async merge(sourceId: string, into: unknown): Promise<CategoryMergeResult> {
+    const source = await this.findById(sourceId);
+    const target = await this.resolve(into);
+    if (String(source._id) === String(target._id)) {
+      throw new ServiceError('A category cannot be merged into itself', 400, 'INVALID_MERGE');
+    }
+    if (target.ancestors.some(id => String(id) === String(source._id))) {
+      throw new ServiceError('A category cannot be merged into one of its subcategories', 400, 'INVALID_MERGE');
+    }
+
+    const path = [...target.ancestors, target._id as Types.ObjectId];
+    const { lostItems, deliveredItems } = await mongoose.connection.transaction(async (session) => {
+      const children = await Category.find({ parent: source._id }).session(session);
+      for (const child of children) {
+        await Category.updateOne({ _id: child._id }, { $set: { parent: target._id } }, { session });
+        await this.moveSubtree(child._id as Types.ObjectId, path, session);
+      }
+
+      // With the subcategories moved away, what is left under the source is its own items
+      const update = { $set: { category: target.name, categoryPath: path } };
+      const lost = await LostItem.updateMany({ categoryPath: source._id }, update, { session });
+      const delivered = await DeliveredItem.updateMany({ categoryPath: source._id }, update, { session });
+
+      target.aliases = [...new Set([...target.aliases, source.key, ...source.aliases])].filter(alias => alias !== target.key);
+      await target.save({ session });
+      await source.deleteOne({ session });
+      return { lostItems: lost.modifiedCount, deliveredItems: delivered.modifiedCount };
+    });
+
+    const reports = await prisma.report.updateMany({
+      where: { category: { equals: source.name, mode: 'insensitive' } },
+      data: { category: target.name }
+    });
+
+    return { category: target, lostItems, deliveredItems, reports: reports.count };
+  }
+}
+
+export default new CategoryService();
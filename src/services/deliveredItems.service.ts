@@ -1,33 +1,176 @@
 import mongoose, { Types, Document } from 'mongoose';
 import DeliveredItemModel, { IDeliveredItem } from '../models/DeliveredItem';
 import LostItemModel, { ILostItem } from '../models/LostItem';
-import { DeliveryData } from '../types/DeliveryData';
+import { IDeliveryRecord } from '../models/DeliveryRecord';
+import itemHistoryService from './itemHistory.service';
+import itemStatusService from './itemStatus.service';
+import highValueService from './highValue.service';
+import storageLocationService from './storageLocation.service';
+import receiptPdfService from './receiptPdf.service';
+import { ServiceError } from '../utils/errors';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+type User = AuthenticatedRequest['user'];
+
+export interface DeliverItemInput {
+  customerInfo: IDeliveredItem['customerInfo'];
+  deliveryNotes?: string;
+  deliveryPhotos?: IDeliveredItem['deliveryPhotos'];
+}
+
+// Populated references are stored back as plain ids
+const refId = (value: any): Types.ObjectId | undefined => (value && value._id ? value._id : value) || undefined;
 
 export class DeliveredItemsService {
-  async markAsDelivered(
-    item: ILostItem & { _id: Types.ObjectId },
-    deliveryInfo: DeliveryData,
-    deliveredBy: Types.ObjectId
-  ): Promise<IDeliveredItem> {
-    try {
-      const deliveredItem = await this.createDeliveredItem(item, {
-        name: deliveryInfo.customerName,
-        email: deliveryInfo.customerEmail,
-        phone: deliveryInfo.customerPhone,
-        deliveryDate: new Date()
-      });
+  /**
+   * Move a lost item to the delivered collection under the same `_id`. The
+   * delivered item is created, the lost item removed and the event recorded
+   * in one transaction, so a failure leaves the item where it was.
+   */
+  async deliver(itemId: string, input: DeliverItemInput, user: User): Promise<IDeliveredItem> {
+    const userId = user._id;
+    return mongoose.connection.transaction(async (session) => {
+      const item = await LostItemModel.findById(itemId).session(session);
+      if (!item) {
+        throw new ServiceError('Item not found', 404, 'ITEM_NOT_FOUND');
+      }
+      itemStatusService.assertTransition(item.status, 'delivered', { user, fields: { customerInfo: input.customerInfo } });
+      highValueService.assertDeliveryApproved(item, user);
+      const source = item.toObject();
 
-      // Update the original item's status
-      await LostItemModel.findByIdAndUpdate(item._id, {
-        status: 'delivered',
-        deliveredBy,
-        deliveredAt: new Date()
+      const deliveredItem = new DeliveredItemModel({
+        _id: source._id,
+        itemName: source.itemName || source.description,
+        referenceCode: source.referenceCode,
+        flightNumber: source.flightNumber,
+        flightDate: source.flightDate,
+        origin: source.origin,
+        destination: source.destination,
+        flight: refId(source.flight),
+        dateFound: source.dateFound,
+        station: refId(source.station),
+        location: source.location,
+        description: source.description,
+        category: source.category,
+        categoryPath: source.categoryPath,
+        attributes: source.attributes,
+        handling: source.handling,
+        witness: source.witness,
+        cash: source.cash,
+        deliveryApproval: source.deliveryApproval,
+        foundBy: refId(source.foundBy),
+        supervisor: refId(source.supervisor),
+        images: source.images,
+        claimReport: source.claimReport,
+        deliveryHistory: source.deliveryHistory,
+        createdAt: source.createdAt,
+        customerInfo: input.customerInfo,
+        deliveryNotes: input.deliveryNotes,
+        deliveryPhotos: input.deliveryPhotos || [],
+        deliveredBy: userId,
+        dateDelivered: new Date(),
+        archived: false,
+        receiptCode: receiptPdfService.generateReceiptCode()
       });
 
+      await deliveredItem.save({ session });
+      await item.deleteOne({ session });
+      await storageLocationService.release([item._id as Types.ObjectId], userId, 'delivered', session);
+
+      await itemHistoryService.record({
+        item: item._id as Types.ObjectId,
+        itemModel: 'LostItem',
+        action: 'delivered',
+        performedBy: userId,
+        relatedItem: deliveredItem._id as Types.ObjectId,
+        relatedItemModel: 'DeliveredItem',
+        changes: itemHistoryService.diff({ status: source.status }, { status: 'delivered' }),
+        snapshot: itemHistoryService.snapshot(source)
+      }, session);
+
       return deliveredItem;
-    } catch (error) {
-      throw error;
-    }
+    });
+  }
+
+  /**
+   * Return a delivered item to the lost items under the same `_id`. The
+   * delivery is not discarded: it is appended to the item's
+   * `deliveryHistory` together with who reverted it and why.
+   */
+  async revert(deliveredItemId: string, reason: string, user: User): Promise<ILostItem> {
+    const userId = user._id;
+    const revertReason = typeof reason === 'string' ? reason.trim() : '';
+
+    return mongoose.connection.transaction(async (session) => {
+      const deliveredItem = await DeliveredItemModel.findById(deliveredItemId).session(session);
+      if (!deliveredItem) {
+        throw new ServiceError('Delivered item not found', 404, 'DELIVERED_ITEM_NOT_FOUND');
+      }
+      const source = deliveredItem.toObject();
+      // An item reserved for a passenger before delivery goes back to being reserved
+      const status = itemStatusService.assertTransition('delivered', source.claimReport ? 'pending' : 'onHand', {
+        user,
+        fields: { reason: revertReason, claimReport: source.claimReport }
+      }).to;
+
+      const record: IDeliveryRecord = {
+        customerInfo: source.customerInfo,
+        deliveryNotes: source.deliveryNotes,
+        deliveryPhotos: source.deliveryPhotos,
+        deliveredBy: refId(source.deliveredBy),
+        dateDelivered: source.dateDelivered,
+        receiptCode: source.receiptCode,
+        revertedBy: userId,
+        revertedAt: new Date(),
+        revertReason
+      };
+
+      const lostItem = new LostItemModel({
+        _id: source._id,
+        itemName: source.itemName,
+        referenceCode: source.referenceCode,
+        flightNumber: source.flightNumber,
+        flightDate: source.flightDate,
+        origin: source.origin,
+        destination: source.destination,
+        flight: refId(source.flight),
+        description: source.description,
+        station: refId(source.station),
+        location: source.location,
+        category: source.category,
+        categoryPath: source.categoryPath,
+        attributes: source.attributes,
+        handling: source.handling,
+        witness: source.witness,
+        cash: source.cash,
+        images: source.images,
+        foundBy: refId(source.foundBy),
+        // Items delivered before the supervisor was kept fall back to whoever reverts them
+        supervisor: refId(source.supervisor) || userId,
+        dateFound: source.dateFound,
+        claimReport: source.claimReport,
+        status,
+        createdAt: source.createdAt,
+        deliveryHistory: [...(source.deliveryHistory || []), record]
+      });
+
+      await lostItem.save({ session });
+      await deliveredItem.deleteOne({ session });
+
+      await itemHistoryService.record({
+        item: deliveredItem._id as Types.ObjectId,
+        itemModel: 'DeliveredItem',
+        action: 'reverted',
+        performedBy: userId,
+        relatedItem: lostItem._id as Types.ObjectId,
+        relatedItemModel: 'LostItem',
+        changes: itemHistoryService.diff({ status: 'delivered' }, { status: lostItem.status }),
+        snapshot: itemHistoryService.snapshot(source),
+        notes: revertReason
+      }, session);
+
+      return lostItem;
+    });
   }
 
   async getDeliveredItems(): Promise<IDeliveredItem[]> {
@@ -38,36 +181,6 @@ export class DeliveredItemsService {
       throw error;
     }
   }
-
-  async createDeliveredItem(
-    lostItem: ILostItem & { _id: Types.ObjectId },
-    customerInfo: any
-  ): Promise<IDeliveredItem> {
-    try {
-      const deliveredItemData = {
-        itemName: lostItem.itemName,
-        description: lostItem.description,
-        location: lostItem.location,
-        category: lostItem.category,
-        images: lostItem.images,
-        foundBy: lostItem.foundBy,
-        flightNumber: lostItem.flightNumber,
-        dateFound: lostItem.dateFound,
-        dateDelivered: new Date(),
-        archived: false,
-        customerInfo: {
-          ...customerInfo,
-          deliveryDate: new Date()
-        }
-      };
-
-      const deliveredItem = new DeliveredItemModel(deliveredItemData);
-      await deliveredItem.save();
-      return deliveredItem;
-    } catch (error) {
-      throw error;
-    }
-  }
 }
 
 export default new DeliveredItemsService();
@@ -0,0 +1,136 @@
+import PDFDocument from 'pdfkit';
+import { IDisposalBatch } from '../models/DisposalBatch';
+import {
+  BRAND_RED,
+  BRAND_BLACK,
+  MUTED,
+  PAGE_MARGIN,
+  formatDate,
+  userName,
+  drawBrandHeader,
+  drawPageFooters
+} from '../utils/pdf';
+
+const TITLE = 'Disposal Manifest';
+
+const METHOD_LABELS: Record<string, string> = {
+  donated: 'Donated',
+  destroyed: 'Destroyed',
+  returned_to_police: 'Returned to police'
+};
+
+// Column x offsets and widths for the item table
+const COLUMNS = [
+  { label: '#', width: 24 },
+  { label: 'Item', width: 150 },
+  { label: 'Category', width: 80 },
+  { label: 'Flight', width: 56 },
+  { label: 'Found', width: 64 },
+  { label: 'Location', width: 98 },
+  { label: 'Days held', width: 60 }
+];
+const ROW_HEIGHT = 16;
+
+class DisposalManifestPdfService {
+  private drawTableHeader(doc: PDFKit.PDFDocument) {
+    let x = PAGE_MARGIN;
+    const top = doc.y;
+    doc.font('Helvetica-Bold').fontSize(8.5).fillColor(BRAND_BLACK);
+    for (const column of COLUMNS) {
+      doc.text(column.label, x, top, { width: column.width, lineBreak: false });
+      x += column.width;
+    }
+    doc.save()
+      .moveTo(PAGE_MARGIN, top + 12)
+      .lineTo(doc.page.width - PAGE_MARGIN, top + 12)
+      .stroke(BRAND_RED)
+      .restore();
+    doc.y = top + ROW_HEIGHT;
+  }
+
+  private drawSignatureLine(doc: PDFKit.PDFDocument, x: number, y: number, label: string, name?: string) {
+    doc.save().moveTo(x, y).lineTo(x + 220, y).stroke(BRAND_BLACK).restore();
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED).text(label, x, y + 4, { width: 220 });
+    if (name) {
+      doc.fillColor(BRAND_BLACK).text(name, x, y + 16, { width: 220 });
+    }
+  }
+
+  /**
+   * Render the manifest for a disposal batch as a finished PDF document,
+   * ready to be piped to the response. Expects `createdBy` and `reviewedBy`
+   * to be populated.
+   */
+  generate(batch: IDisposalBatch): PDFKit.PDFDocument {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `Air Canada Lost & Found - ${TITLE} ${batch.batchNumber}` }
+    });
+
+    drawBrandHeader(doc, TITLE);
+
+    doc.font('Courier-Bold').fontSize(16).fillColor(BRAND_BLACK).text(batch.batchNumber, PAGE_MARGIN);
+    doc.moveDown(0.3).font('Helvetica').fontSize(9.5);
+    const details: [string, string][] = [
+      ['Method', METHOD_LABELS[batch.method] || batch.method],
+      ['Status', batch.status.replace('_', ' ')],
+      ['Recipient', batch.recipient || '—'],
+      ['Reference', batch.reference || '—'],
+      ['Prepared by', `${userName(batch.createdBy)} on ${formatDate(batch.createdAt)}`],
+      ['Reviewed by', batch.reviewedBy ? `${userName(batch.reviewedBy)} on ${formatDate(batch.reviewedAt)}` : 'Pending approval']
+    ];
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED).text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true })
+        .fillColor(BRAND_BLACK).text(value);
+    }
+    if (batch.notes) {
+      doc.fillColor(MUTED).text('Notes: ', { continued: true }).fillColor(BRAND_BLACK).text(batch.notes);
+    }
+    doc.moveDown(0.5).font('Helvetica-Bold').fontSize(11)
+      .text(`Total items: ${batch.items.length}`, PAGE_MARGIN);
+    doc.moveDown(0.5);
+
+    this.drawTableHeader(doc);
+    batch.items.forEach((entry, index) => {
+      if (doc.y + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+        drawBrandHeader(doc, TITLE);
+        this.drawTableHeader(doc);
+      }
+      const values = [
+        String(index + 1),
+        entry.itemName || entry.description,
+        entry.category,
+        entry.flightNumber,
+        formatDate(entry.dateFound),
+        entry.location,
+        `${entry.daysHeld} / ${entry.retentionDays}`
+      ];
+      let x = PAGE_MARGIN;
+      const top = doc.y;
+      doc.font('Helvetica').fontSize(8.5).fillColor(BRAND_BLACK);
+      values.forEach((value, column) => {
+        doc.text(value || '—', x, top, { width: COLUMNS[column].width - 4, lineBreak: false, ellipsis: true });
+        x += COLUMNS[column].width;
+      });
+      doc.y = top + ROW_HEIGHT;
+    });
+
+    if (doc.y + 80 > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      drawBrandHeader(doc, TITLE);
+    }
+    const signatureY = doc.y + 50;
+    this.drawSignatureLine(doc, PAGE_MARGIN, signatureY, 'Supervisor sign-off',
+      batch.reviewedBy ? userName(batch.reviewedBy) : undefined);
+    this.drawSignatureLine(doc, doc.page.width - PAGE_MARGIN - 220, signatureY, 'Received by', batch.recipient);
+
+    drawPageFooters(doc, `Manifest ${batch.batchNumber}`);
+    doc.end();
+    return doc;
+  }
+}
+
+export default new DisposalManifestPdfService();
@@ -0,0 +1,272 @@
+import { Types } from 'mongoose';
+import Flight, { IFlight } from '../models/Flight';
+import { ServiceError } from '../utils/errors';
+import { parseCsv } from '../utils/csv';
+import {
+  parseFlightNumber,
+  formatFlightNumber,
+  normalizeFlightNumber,
+  normalizeAirportCode,
+  parseFlightDate
+} from '../utils/flights';
+import { ListOptions } from '../utils/pagination';
+
+// Flight details sent with an item: a schedule entry, or the individual values
+export interface ItemFlightInput {
+  flightId?: unknown;
+  flightNumber?: unknown;
+  flightDate?: unknown;
+  origin?: unknown;
+  destination?: unknown;
+}
+
+// Values to store on the item; null clears a value
+export interface ItemFlightFields {
+  flight?: Types.ObjectId | null;
+  flightNumber?: string;
+  flightDate?: Date | null;
+  origin?: string | null;
+  destination?: string | null;
+}
+
+export interface ScheduleImportError {
+  line: number;
+  message: string;
+}
+
+export interface ScheduleImportResult {
+  rows: number;
+  created: number;
+  updated: number;
+  errors: ScheduleImportError[];
+}
+
+interface ScheduleRow {
+  flightNumber: string;
+  date: string;
+  origin: string;
+  destination: string;
+  departureTime: string;
+  arrivalTime: string;
+}
+
+// Column headers accepted in schedule files, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<string, keyof ScheduleRow> = {
+  flight: 'flightNumber',
+  flightnumber: 'flightNumber',
+  flightno: 'flightNumber',
+  date: 'date',
+  flightdate: 'date',
+  origin: 'origin',
+  from: 'origin',
+  destination: 'destination',
+  to: 'destination',
+  departure: 'departureTime',
+  departuretime: 'departureTime',
+  std: 'departureTime',
+  arrival: 'arrivalTime',
+  arrivaltime: 'arrivalTime',
+  sta: 'arrivalTime'
+};
+
+const REQUIRED_COLUMNS: (keyof ScheduleRow)[] = ['flightNumber', 'date', 'origin', 'destination'];
+
+const MAX_SCHEDULE_ROWS = 20000;
+
+// Only this many row errors are returned; the rest are counted
+const MAX_REPORTED_ERRORS = 100;
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+// `7:05`, `07:05` and `0705` all give `07:05`
+const parseTime = (value: string, name: string): string | undefined => {
+  const text = value.trim();
+  if (!text) {
+    return undefined;
+  }
+  const match = text.match(/^(\d{1,2}):?(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new ServiceError(`${name} must be a time such as 14:35`, 400, 'INVALID_TIME');
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+class FlightService {
+  /**
+   * Work out the flight values to store on an item. Picking a schedule entry
+   * with `flightId` fills in everything; otherwise the values sent are
+   * validated, and a matching schedule entry fills in the route when it is
+   * not given. `current` holds the item's values when updating.
+   */
+  async resolveItemFlight(input: ItemFlightInput, current: ItemFlightFields = {}): Promise<ItemFlightFields> {
+    if (!isBlank(input.flightId)) {
+      const flight = Types.ObjectId.isValid(String(input.flightId)) ? await Flight.findById(input.flightId) : null;
+      if (!flight) {
+        throw new ServiceError('Flight not found in the schedule', 400, 'INVALID_FLIGHT');
+      }
+      return {
+        flight: flight._id as Types.ObjectId,
+        flightNumber: flight.flightNumber,
+        flightDate: flight.date,
+        origin: flight.origin,
+        destination: flight.destination
+      };
+    }
+
+    const fields: ItemFlightFields = {};
+    if (input.flightNumber !== undefined) {
+      fields.flightNumber = normalizeFlightNumber(input.flightNumber);
+    }
+    if (input.flightDate !== undefined) {
+      fields.flightDate = isBlank(input.flightDate) ? null : parseFlightDate(input.flightDate);
+    }
+    if (input.origin !== undefined) {
+      fields.origin = isBlank(input.origin) ? null : normalizeAirportCode(input.origin, 'origin');
+    }
+    if (input.destination !== undefined) {
+      fields.destination = isBlank(input.destination) ? null : normalizeAirportCode(input.destination, 'destination');
+    }
+
+    if (fields.flightNumber === undefined && fields.flightDate === undefined) {
+      return fields;
+    }
+
+    // The flight or its date changed, so the link to the schedule has to be looked up again
+    const flightNumber = fields.flightNumber ?? current.flightNumber;
+    const flightDate = fields.flightDate === undefined ? current.flightDate : fields.flightDate;
+    const scheduled = flightNumber && flightDate ? await Flight.findOne({ flightNumber, date: flightDate }) : null;
+    fields.flight = scheduled ? scheduled._id as Types.ObjectId : null;
+    if (scheduled && input.origin === undefined) {
+      fields.origin = scheduled.origin;
+    }
+    if (scheduled && input.destination === undefined) {
+      fields.destination = scheduled.destination;
+    }
+    return fields;
+  }
+
+  /**
+   * Query for the schedule listing. `date` is a day, `station` an IATA code
+   * matching either end of the route, `flightNumber` a prefix so agents can
+   * pick from what they are typing.
+   */
+  buildFilters(params: Record<string, any>): Record<string, any> {
+    const query: Record<string, any> = {};
+    if (params.date) {
+      query.date = parseFlightDate(String(params.date), 'date');
+    }
+    if (params.flightNumber) {
+      const compact = String(params.flightNumber).toUpperCase().replace(/[^A-Z0-9]/g, '');
+      const flight = parseFlightNumber(compact);
+      query.flightNumber = flight
+        ? { $regex: `^${formatFlightNumber(flight)}` }
+        : { $regex: `^${compact}` };
+    }
+    if (params.origin) {
+      query.origin = normalizeAirportCode(String(params.origin), 'origin');
+    }
+    if (params.destination) {
+      query.destination = normalizeAirportCode(String(params.destination), 'destination');
+    }
+    if (params.station) {
+      const code = normalizeAirportCode(String(params.station), 'station');
+      query.$or = [{ origin: code }, { destination: code }];
+    }
+    return query;
+  }
+
+  async list(filters: Record<string, any>, options: ListOptions): Promise<{ flights: IFlight[]; total: number }> {
+    const [flights, total] = await Promise.all([
+      Flight.find(filters)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      Flight.countDocuments(filters)
+    ]);
+    return { flights, total };
+  }
+
+  private readRow(header: (keyof ScheduleRow | undefined)[], fields: string[]) {
+    const row: Partial<ScheduleRow> = {};
+    header.forEach((column, index) => {
+      if (column) {
+        row[column] = (fields[index] || '').trim();
+      }
+    });
+
+    const flight = parseFlightNumber(row.flightNumber);
+    if (!flight) {
+      throw new ServiceError(`Invalid flight number "${row.flightNumber || ''}"`, 400, 'INVALID_FLIGHT_NUMBER');
+    }
+    return {
+      flightNumber: formatFlightNumber(flight),
+      carrier: flight.carrier,
+      date: parseFlightDate(row.date, 'date'),
+      origin: normalizeAirportCode(row.origin, 'origin'),
+      destination: normalizeAirportCode(row.destination, 'destination'),
+      departureTime: parseTime(row.departureTime || '', 'departure time'),
+      arrivalTime: parseTime(row.arrivalTime || '', 'arrival time')
+    };
+  }
+
+  /**
+   * Import a flight schedule from CSV with a header row. Required columns are
+   * flight, date, origin and destination; departure and arrival times are
+   * optional. Flights already in the schedule for the same day are updated.
+   * Rows with errors are skipped and reported by line number.
+   */
+  async importSchedule(csv: string, userId: Types.ObjectId): Promise<ScheduleImportResult> {
+    const [headerRow, ...rows] = parseCsv(csv);
+    if (!headerRow) {
+      throw new ServiceError('The schedule file is empty', 400, 'INVALID_SCHEDULE');
+    }
+    if (rows.length > MAX_SCHEDULE_ROWS) {
+      throw new ServiceError(`A schedule file can have at most ${MAX_SCHEDULE_ROWS} flights`, 400, 'SCHEDULE_TOO_LARGE');
+    }
+
+    const header = headerRow.fields.map(name => HEADER_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')]);
+    const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+      throw new ServiceError(`The schedule file is missing columns: ${missing.join(', ')}`, 400, 'INVALID_SCHEDULE');
+    }
+
+    const errors: ScheduleImportError[] = [];
+    let errorCount = 0;
+    const operations = [];
+    for (const { line, fields } of rows) {
+      try {
+        const flight = this.readRow(header, fields);
+        operations.push({
+          updateOne: {
+            filter: { flightNumber: flight.flightNumber, date: flight.date },
+            update: { $set: { ...flight, importedBy: userId } },
+            upsert: true
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof ServiceError)) {
+          throw error;
+        }
+        errorCount++;
+        if (errors.length < MAX_REPORTED_ERRORS) {
+          errors.push({ line, message: error.message });
+        }
+      }
+    }
+
+    let created = 0;
+    let updated = 0;
+    if (operations.length > 0) {
+      const result = await Flight.bulkWrite(operations, { ordered: true });
+      created = result.upsertedCount;
+      updated = result.matchedCount;
+    }
+
+    if (errorCount > errors.length) {
+      errors.push({ line: 0, message: `${errorCount - errors.length} more rows with errors` });
+    }
+    return { rows: rows.length, created, updated, errors };
+  }
+}
+
+export default new FlightService();
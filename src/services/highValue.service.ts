@@ -0,0 +1,229 @@
+import { Types } from 'mongoose';
+import User from '../models/User';
+import LostItem, { ILostItem, ItemHandling } from '../models/LostItem';
+import { ICashCount, IItemWitness } from '../models/ItemControls';
+import { AuthenticatedRequest } from '../middleware/auth';
+import loginProtectionService from './loginProtection.service';
+import itemHistoryService from './itemHistory.service';
+import storageService from './storage.service';
+import { ServiceError } from '../utils/errors';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+// Credentials the witness types in on the logging agent's terminal
+export interface WitnessInput {
+  employeeNumber?: unknown;
+  password?: unknown;
+}
+
+export interface CashInput {
+  amount?: unknown;
+  currency?: unknown;
+}
+
+// Where the witness's credentials were typed in, for the login lockout
+export interface WitnessClient {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ItemControlFields {
+  handling?: ItemHandling;
+  witness?: IItemWitness;
+  cash?: ICashCount;
+}
+
+// A delivery approval is only good for this long
+const getApprovalHours = (): number => Number(process.env.HIGH_VALUE_APPROVAL_HOURS) || 24;
+
+const getDefaultCurrency = (): string => (process.env.DEFAULT_CURRENCY || 'CAD').toUpperCase();
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+// Populated references compare by their id
+const idOf = (value: any): string | undefined => (value && value._id ? String(value._id) : value ? String(value) : undefined);
+
+class HighValueService {
+  isControlled(item: { handling?: ItemHandling }): boolean {
+    return !!item.handling && item.handling !== 'standard';
+  }
+
+  /**
+   * Check the witness's own credentials and return their id. Failed attempts
+   * count towards the witness's login lockout like a failed login.
+   * `excluded` are the employees who cannot witness, such as the agent
+   * logging the item.
+   */
+  async verifyWitness(input: WitnessInput, client: WitnessClient, excluded: unknown[]): Promise<Types.ObjectId> {
+    if (typeof input.employeeNumber !== 'string' || !input.employeeNumber.trim() ||
+        typeof input.password !== 'string' || !input.password) {
+      throw new ServiceError(
+        'A second employee has to witness this item with their employee number and password',
+        400,
+        'WITNESS_REQUIRED'
+      );
+    }
+
+    const loginClient = { ...client, employeeNumber: input.employeeNumber.trim() };
+    await loginProtectionService.assertAllowed(loginClient);
+
+    const witness = await User.findOne({ employeeNumber: loginClient.employeeNumber }).select('+password');
+    if (!witness || !await witness.comparePassword(input.password)) {
+      await loginProtectionService.recordFailure(loginClient, witness?._id as Types.ObjectId | undefined);
+      throw new ServiceError('Invalid witness credentials', 400, 'INVALID_WITNESS');
+    }
+    await loginProtectionService.recordSuccess(loginClient);
+
+    if (excluded.some(id => idOf(id) === String(witness._id))) {
+      throw new ServiceError('The witness has to be another employee than the one logging or finding the item', 400, 'INVALID_WITNESS');
+    }
+    return witness._id as Types.ObjectId;
+  }
+
+  private parseCash(input: CashInput): { amount: number; currency: string } | undefined {
+    if (isBlank(input.amount)) {
+      return undefined;
+    }
+    const text = String(input.amount).trim();
+    if (!/^\d+(\.\d{1,2})?$/.test(text) || Number(text) <= 0) {
+      throw new ServiceError('cashAmount must be a positive amount with at most two decimals', 400, 'INVALID_CASH_AMOUNT');
+    }
+    const currency = isBlank(input.currency) ? getDefaultCurrency() : String(input.currency).trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      throw new ServiceError('cashCurrency must be a three-letter currency code such as CAD', 400, 'INVALID_CURRENCY');
+    }
+    return { amount: Number(text), currency };
+  }
+
+  /**
+   * Handling, witness and cash count for an item being logged. Items whose
+   * category is high-value or sensitive, and items with cash, need a
+   * witness other than the agent logging the item and the employee who
+   * found it.
+   */
+  async controlsForNewItem(
+    handling: ItemHandling,
+    input: { cash: CashInput; witness: WitnessInput; foundBy?: unknown },
+    user: RequestUser,
+    client: WitnessClient
+  ): Promise<ItemControlFields> {
+    const cash = this.parseCash(input.cash);
+    const effective: ItemHandling = cash && handling === 'standard' ? 'highValue' : handling;
+    if (effective === 'standard') {
+      return { handling: 'standard' };
+    }
+
+    const witnessId = await this.verifyWitness(input.witness, client, [user._id, input.foundBy]);
+    const now = new Date();
+    return {
+      handling: effective,
+      witness: { user: witnessId, witnessedAt: now },
+      ...(cash && { cash: { ...cash, countedBy: user._id, witnessedBy: witnessId, countedAt: now } })
+    };
+  }
+
+  /**
+   * Moving an item into a high-value or sensitive category needs a witness
+   * as well. Handling is never lowered once set; see `protectImages` for the
+   * photos stored before the change.
+   */
+  async controlsForCategoryChange(
+    item: ILostItem,
+    handling: ItemHandling | undefined,
+    witness: WitnessInput,
+    user: RequestUser,
+    client: WitnessClient
+  ): Promise<ItemControlFields> {
+    if (!handling || handling === 'standard' || this.isControlled(item)) {
+      return {};
+    }
+    const witnessId = await this.verifyWitness(witness, client, [user._id, item.foundBy]);
+    return { handling, witness: { user: witnessId, witnessedAt: new Date() } };
+  }
+
+  /**
+   * Move the public photos of an item that became high-value or sensitive to
+   * private storage. Photos already moved are saved even if a later one fails.
+   */
+  async protectImages(item: ILostItem): Promise<void> {
+    if (!this.isControlled(item) || item.images.every(image => image.private)) {
+      return;
+    }
+    try {
+      for (const image of item.images) {
+        if (!image.private) {
+          Object.assign(image, await storageService.makePrivate(image));
+        }
+      }
+    } finally {
+      await item.save();
+    }
+  }
+
+  /**
+   * Supervisor sign-off for handing over a high-value or sensitive item. The
+   * employees who found or witnessed the item cannot approve it, and the
+   * approval covers the item's current claim only.
+   */
+  async approveDelivery(itemId: string, user: RequestUser, notes?: unknown): Promise<ILostItem> {
+    const item = Types.ObjectId.isValid(itemId) ? await LostItem.findById(itemId) : null;
+    if (!item) {
+      throw new ServiceError('Item not found', 404, 'ITEM_NOT_FOUND');
+    }
+    if (!this.isControlled(item)) {
+      throw new ServiceError('Only high-value and sensitive items need a delivery approval', 400, 'APPROVAL_NOT_REQUIRED');
+    }
+    if (item.status !== 'onHand' && item.status !== 'pending') {
+      throw new ServiceError(`An item that is ${item.status} cannot be approved for delivery`, 409, 'ITEM_NOT_DELIVERABLE');
+    }
+    const userId = String(user._id);
+    if (idOf(item.foundBy) === userId || idOf(item.witness?.user) === userId) {
+      throw new ServiceError('The employees who found or witnessed the item cannot approve its delivery', 403, 'SELF_APPROVAL');
+    }
+
+    const before = item.toObject();
+    item.deliveryApproval = {
+      approvedBy: user._id,
+      approvedAt: new Date(),
+      claimReport: item.claimReport,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : undefined
+    };
+    await item.save();
+
+    await itemHistoryService.record({
+      item: item._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'delivery_approved',
+      performedBy: user._id,
+      changes: itemHistoryService.diff(
+        { deliveryApproval: before.deliveryApproval },
+        { deliveryApproval: item.toObject().deliveryApproval }
+      ),
+      notes: item.deliveryApproval.notes
+    });
+    return item;
+  }
+
+  // Checked by the delivery itself, so no endpoint can hand over a controlled item without approval
+  assertDeliveryApproved(item: ILostItem, user: RequestUser) {
+    if (!this.isControlled(item)) {
+      return;
+    }
+    const approval = item.deliveryApproval;
+    if (!approval || approval.claimReport !== item.claimReport) {
+      throw new ServiceError(
+        'A supervisor has to approve the delivery of this item first (POST /api/items/:id/delivery-approval)',
+        403,
+        'DELIVERY_APPROVAL_REQUIRED'
+      );
+    }
+    if (Date.now() - approval.approvedAt.getTime() > getApprovalHours() * 60 * 60 * 1000) {
+      throw new ServiceError('The delivery approval has expired, ask a supervisor to approve it again', 403, 'DELIVERY_APPROVAL_EXPIRED');
+    }
+    if (String(approval.approvedBy) === String(user._id)) {
+      throw new ServiceError('The supervisor who approved the delivery cannot also hand the item over', 403, 'SELF_APPROVAL');
+    }
+  }
+}
+
+export default new HighValueService();
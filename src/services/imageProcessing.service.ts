@@ -0,0 +1,107 @@
+import sharp from 'sharp';
+import { ServiceError } from '../utils/errors';
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_UPLOAD_MB || 10) * 1024 * 1024;
+
+// Longest side of stored photos and thumbnails, in pixels
+const MAX_DIMENSION = 2048;
+const THUMBNAIL_WIDTH = 200;
+
+// Refuse decompression bombs: roughly a 50 megapixel photo
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  thumbnail: Buffer;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+}
+
+export class ImageValidationError extends ServiceError {
+  constructor(message: string, code: string, status = 400) {
+    super(message, status, code);
+    this.name = 'ImageValidationError';
+  }
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) => {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+};
+
+class ImageProcessingService {
+  /**
+   * Identify the image type from the file's leading bytes. The name and MIME
+   * type sent by the client are not trusted.
+   */
+  detectMimeType(buffer: Buffer): ImageMimeType | null {
+    if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+      return 'image/jpeg';
+    }
+    if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+      return 'image/png';
+    }
+    // RIFF....WEBP
+    if (startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+      return 'image/webp';
+    }
+    return null;
+  }
+
+  validate(buffer: Buffer, filename = 'file'): ImageMimeType {
+    if (buffer.length > MAX_IMAGE_BYTES) {
+      throw new ImageValidationError(
+        `${filename} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`,
+        'FILE_TOO_LARGE',
+        413
+      );
+    }
+    const mimeType = this.detectMimeType(buffer);
+    if (!mimeType) {
+      throw new ImageValidationError(`${filename} is not a JPEG, PNG or WebP image`, 'UNSUPPORTED_FILE_TYPE');
+    }
+    return mimeType;
+  }
+
+  /**
+   * Re-encode an uploaded photo: applies the EXIF orientation, drops all
+   * metadata (including GPS position), caps its size and renders a thumbnail.
+   */
+  async process(buffer: Buffer, filename?: string): Promise<ProcessedImage> {
+    const mimeType = this.validate(buffer, filename);
+
+    try {
+      const base = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+      const encode = (image: sharp.Sharp) => {
+        if (mimeType === 'image/png') {
+          return image.png();
+        }
+        if (mimeType === 'image/webp') {
+          return image.webp({ quality: 85 });
+        }
+        return image.jpeg({ quality: 85, mozjpeg: true });
+      };
+
+      const [main, thumbnail] = await Promise.all([
+        encode(base.clone().resize(MAX_DIMENSION, MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true }))
+          .toBuffer({ resolveWithObject: true }),
+        encode(base.clone().resize(THUMBNAIL_WIDTH, undefined, { withoutEnlargement: true })).toBuffer()
+      ]);
+
+      return {
+        buffer: main.data,
+        thumbnail,
+        mimeType,
+        width: main.info.width,
+        height: main.info.height
+      };
+    } catch (error) {
+      console.error('Image processing error:', error);
+      throw new ImageValidationError(`${filename || 'File'} could not be read as an image`, 'INVALID_IMAGE');
+    }
+  }
+}
+
+export default new ImageProcessingService();
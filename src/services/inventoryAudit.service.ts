@@ -0,0 +1,364 @@
+import { Types } from 'mongoose';
+import InventoryAudit, {
+  IInventoryAudit,
+  AuditReport,
+  AuditScan,
+  AuditItemEntry,
+  AuditUnrecordedEntry,
+  UnrecordedReason
+} from '../models/InventoryAudit';
+import LostItem, { ILostItem } from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import StorageLocation, { IStorageLocation } from '../models/StorageLocation';
+import { AuthenticatedRequest } from '../middleware/auth';
+import storageLocationService, { STORED_STATUSES } from './storageLocation.service';
+import stationService from './station.service';
+import { ServiceError } from '../utils/errors';
+import { generateCode, normalizeCode } from '../utils/codes';
+import { ListOptions } from '../utils/pagination';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+export interface StartAuditInput {
+  station?: unknown;
+  area?: unknown;
+  notes?: unknown;
+}
+
+export interface ScanInput {
+  code?: unknown;
+  location?: unknown;
+}
+
+// What a single scan means for the count, shown to the agent as they scan
+export type ScanOutcome = 'counted' | 'misplaced' | UnrecordedReason;
+
+export interface ScanResult {
+  scan: AuditScan;
+  outcome: ScanOutcome;
+  item?: Pick<ILostItem, 'itemName' | 'category' | 'status'> & { _id: unknown; storageLocation?: unknown };
+}
+
+// Fields of the items on file the report is built from
+type AuditedItem = Pick<ILostItem, 'referenceCode' | 'itemName' | 'category' | 'station' | 'status' | 'storageLocation'> & {
+  _id: Types.ObjectId;
+};
+
+// What the audit covers: the station, and the room, shelf or bin with everything inside it
+interface AuditScope {
+  station: string;
+  areaIds?: Set<string>;
+}
+
+const ITEM_FIELDS = 'referenceCode itemName category station status storageLocation';
+const STATION_FIELDS = 'code name';
+const USER_FIELDS = 'firstName lastName employeeNumber';
+const LOCATION_FIELDS = 'type code name';
+
+const REPORT_LOCATION_PATHS = [
+  'missing.expectedLocation',
+  'misplaced.expectedLocation',
+  'misplaced.foundLocation',
+  'unrecorded.foundLocation'
+];
+
+const cleanString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toEntry = (item: AuditedItem, foundLocation?: Types.ObjectId): AuditItemEntry => ({
+  item: item._id,
+  referenceCode: item.referenceCode,
+  itemName: item.itemName,
+  category: item.category,
+  expectedLocation: item.storageLocation,
+  foundLocation
+});
+
+class InventoryAuditService {
+  // Audits of the user's stations
+  scopeFilter(user: RequestUser): Record<string, any> {
+    if (stationService.isCrossStation(user)) {
+      return {};
+    }
+    return { station: { $in: user.stations } };
+  }
+
+  async findForUser(auditId: string, user: RequestUser, populate = false): Promise<IInventoryAudit> {
+    if (!Types.ObjectId.isValid(auditId)) {
+      throw new ServiceError('Invalid audit id', 400, 'INVALID_ID');
+    }
+    const query = InventoryAudit.findOne({ _id: auditId, ...this.scopeFilter(user) });
+    if (populate) {
+      query.populate('station', STATION_FIELDS)
+        .populate('area', LOCATION_FIELDS)
+        .populate('startedBy', USER_FIELDS)
+        .populate('closedBy', USER_FIELDS)
+        .populate('cancelledBy', USER_FIELDS)
+        .populate('scans.scannedBy', USER_FIELDS)
+        .populate('scans.location', LOCATION_FIELDS);
+    }
+    const audit = await query;
+    if (!audit) {
+      throw new ServiceError('Audit not found', 404, 'AUDIT_NOT_FOUND');
+    }
+    return audit;
+  }
+
+  // Audits without their scans, which can run into the thousands
+  async list(filters: Record<string, any>, options: ListOptions): Promise<{ audits: IInventoryAudit[]; total: number }> {
+    const [audits, total] = await Promise.all([
+      InventoryAudit.find(filters)
+        .select('-scans')
+        .populate('station', STATION_FIELDS)
+        .populate('area', LOCATION_FIELDS)
+        .populate('startedBy', USER_FIELDS)
+        .populate('closedBy', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      InventoryAudit.countDocuments(filters)
+    ]);
+    return { audits, total };
+  }
+
+  private assertOpen(audit: IInventoryAudit) {
+    if (audit.status !== 'open') {
+      throw new ServiceError(`Audit is already ${audit.status}`, 409, 'AUDIT_NOT_OPEN');
+    }
+  }
+
+  // Whether one location is the other or inside it, in either direction
+  private overlaps(a: IStorageLocation, b: IStorageLocation): boolean {
+    const ids = (location: IStorageLocation) => [...location.ancestors, location._id].map(String);
+    return ids(a).includes(String(b._id)) || ids(b).includes(String(a._id));
+  }
+
+  /**
+   * Start counting the items at a station, or only those in one room, shelf
+   * or bin given as `area`. Audits covering the same shelves cannot run at
+   * the same time.
+   */
+  async start(input: StartAuditInput, user: RequestUser): Promise<IInventoryAudit> {
+    const station = await stationService.resolveForNewItem(user, input.station);
+    const area = input.area === undefined || input.area === ''
+      ? undefined
+      : await storageLocationService.resolve(input.area, station);
+
+    const open = await InventoryAudit.find({ station, status: 'open' }).select('auditNumber area');
+    const openAreas = await StorageLocation.find({ _id: { $in: open.map(audit => audit.area).filter(Boolean) } });
+    const conflict = open.find(audit => {
+      const openArea = openAreas.find(location => String(location._id) === String(audit.area));
+      return !area || !openArea || this.overlaps(area, openArea);
+    });
+    if (conflict) {
+      throw new ServiceError(`Audit ${conflict.auditNumber} is already counting these items`, 409, 'AUDIT_IN_PROGRESS');
+    }
+
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    return InventoryAudit.create({
+      auditNumber: `AUD-${today}-${generateCode(4)}`,
+      station,
+      area: area?._id,
+      notes: cleanString(input.notes),
+      startedBy: user._id,
+      scans: []
+    });
+  }
+
+  private async scopeOf(audit: IInventoryAudit): Promise<AuditScope> {
+    return {
+      station: String(audit.station),
+      areaIds: audit.area ? new Set((await storageLocationService.subtreeIds(audit.area)).map(String)) : undefined
+    };
+  }
+
+  /**
+   * Where a scanned item stands against the records. An item of the station
+   * found in the audited area is counted when the system has it in the bin
+   * it was scanned in, and misplaced when it has it somewhere else.
+   */
+  private classify(scope: AuditScope, scan: AuditScan, item: AuditedItem | null, delivered: boolean): ScanOutcome {
+    if (!item) {
+      return delivered ? 'not_on_hand' : 'unknown_code';
+    }
+    if (String(item.station) !== scope.station) {
+      return 'other_station';
+    }
+    if (!STORED_STATUSES.includes(item.status)) {
+      return 'not_on_hand';
+    }
+    if (scope.areaIds && !(item.storageLocation && scope.areaIds.has(String(item.storageLocation)))) {
+      return 'misplaced';
+    }
+    if (scan.location && String(scan.location) !== String(item.storageLocation)) {
+      return 'misplaced';
+    }
+    return 'counted';
+  }
+
+  /**
+   * Record a scanned item code. Scanning a bin label first and passing it as
+   * `location` lets the count spot items in the wrong bin; when the audit
+   * covers a single bin that bin is assumed.
+   */
+  async scan(auditId: string, input: ScanInput, user: RequestUser): Promise<ScanResult> {
+    const audit = await this.findForUser(auditId, user);
+    this.assertOpen(audit);
+
+    const raw = cleanString(typeof input.code === 'number' ? String(input.code) : input.code);
+    if (!raw) {
+      throw new ServiceError('code is required', 400, 'CODE_REQUIRED');
+    }
+    const code = normalizeCode(raw);
+    const scope = await this.scopeOf(audit);
+
+    let location: Types.ObjectId | undefined;
+    if (input.location !== undefined && input.location !== '') {
+      const scanned = await storageLocationService.resolve(input.location, audit.station);
+      if (scope.areaIds && !scope.areaIds.has(String(scanned._id))) {
+        throw new ServiceError('The storage location is outside the audited area', 400, 'OUTSIDE_AUDIT_AREA');
+      }
+      location = scanned._id as Types.ObjectId;
+    } else if (audit.area && scope.areaIds?.size === 1) {
+      location = audit.area;
+    }
+
+    const item = await LostItem.findOne({ referenceCode: code }).select(ITEM_FIELDS).lean<AuditedItem>();
+    const delivered = item ? null : await DeliveredItem.findOne({ referenceCode: code }).select('_id');
+
+    const scan: AuditScan = {
+      code,
+      item: item?._id || (delivered?._id as Types.ObjectId | undefined),
+      location,
+      scannedBy: user._id,
+      scannedAt: new Date()
+    };
+    audit.scans.push(scan);
+    await audit.save();
+
+    const outcome = this.classify(scope, scan, item, !!delivered);
+    return {
+      scan,
+      outcome,
+      // Details of items of other stations are not shown
+      item: item && outcome !== 'other_station'
+        ? { _id: item._id, itemName: item.itemName, category: item.category, status: item.status, storageLocation: item.storageLocation }
+        : undefined
+    };
+  }
+
+  /**
+   * Compare the scans with the records: expected items never scanned are
+   * missing, scanned codes with no item on hand at the station are
+   * unrecorded, and items found outside the bin they are filed under are
+   * misplaced. When an item was scanned more than once the last scan counts.
+   */
+  async buildReport(audit: IInventoryAudit): Promise<AuditReport> {
+    const scope = await this.scopeOf(audit);
+
+    const latest = new Map<string, AuditScan>();
+    for (const scan of audit.scans) {
+      latest.set(scan.code, scan);
+    }
+    const codes = Array.from(latest.keys());
+
+    const expectedQuery: Record<string, any> = { station: audit.station, status: { $in: STORED_STATUSES } };
+    if (scope.areaIds) {
+      expectedQuery.storageLocation = { $in: Array.from(scope.areaIds).map(id => new Types.ObjectId(id)) };
+    }
+    const [expected, scanned, delivered] = await Promise.all([
+      LostItem.find(expectedQuery).select(ITEM_FIELDS).lean<AuditedItem[]>(),
+      LostItem.find({ referenceCode: { $in: codes } }).select(ITEM_FIELDS).lean<AuditedItem[]>(),
+      DeliveredItem.find({ referenceCode: { $in: codes } }).select('referenceCode')
+    ]);
+    const itemsByCode = new Map(scanned.map(item => [item.referenceCode as string, item]));
+    const deliveredByCode = new Map(delivered.map(item => [item.referenceCode as string, item._id as Types.ObjectId]));
+
+    const found = new Set<string>();
+    const misplaced: AuditItemEntry[] = [];
+    const unrecorded: AuditUnrecordedEntry[] = [];
+    for (const [code, scan] of latest) {
+      const item = itemsByCode.get(code) || null;
+      const outcome = this.classify(scope, scan, item, deliveredByCode.has(code));
+      if (item && (outcome === 'counted' || outcome === 'misplaced')) {
+        found.add(String(item._id));
+        if (outcome === 'misplaced') {
+          misplaced.push(toEntry(item, scan.location));
+        }
+      } else if (outcome !== 'counted' && outcome !== 'misplaced') {
+        unrecorded.push({
+          code,
+          item: item?._id || deliveredByCode.get(code),
+          reason: outcome,
+          foundLocation: scan.location,
+          scannedAt: scan.scannedAt
+        });
+      }
+    }
+
+    return {
+      expected: expected.length,
+      counted: expected.filter(item => found.has(String(item._id))).length,
+      missing: expected.filter(item => !found.has(String(item._id))).map(item => toEntry(item)),
+      unrecorded,
+      misplaced,
+      generatedAt: new Date()
+    };
+  }
+
+  // Fill in the codes and names of the bins a report refers to
+  async populateReport(report: AuditReport): Promise<AuditReport> {
+    await StorageLocation.populate(report, REPORT_LOCATION_PATHS.map(path => ({
+      path,
+      select: LOCATION_FIELDS,
+      model: StorageLocation
+    })));
+    return report;
+  }
+
+  /**
+   * The discrepancy report of a closed audit as stored, or a preview of it
+   * from the scans so far while the audit is open.
+   */
+  async report(auditId: string, user: RequestUser): Promise<AuditReport> {
+    const audit = await this.findForUser(auditId, user);
+    if (audit.status === 'cancelled') {
+      throw new ServiceError('Cancelled audits have no report', 409, 'AUDIT_CANCELLED');
+    }
+    const report = audit.status === 'closed' && audit.report
+      ? audit.toObject().report as AuditReport
+      : await this.buildReport(audit);
+    return this.populateReport(report);
+  }
+
+  // Finish the count and keep its discrepancy report with the audit
+  async close(auditId: string, user: RequestUser): Promise<IInventoryAudit> {
+    const audit = await this.findForUser(auditId, user);
+    this.assertOpen(audit);
+
+    audit.report = await this.buildReport(audit);
+    audit.status = 'closed';
+    audit.closedBy = user._id;
+    audit.closedAt = new Date();
+    return audit.save();
+  }
+
+  // Abandon a count; its scans are kept
+  async cancel(auditId: string, reason: unknown, user: RequestUser): Promise<IInventoryAudit> {
+    const cancelReason = cleanString(reason);
+    if (!cancelReason) {
+      throw new ServiceError('A cancellation reason is required', 400, 'REASON_REQUIRED');
+    }
+    const audit = await this.findForUser(auditId, user);
+    this.assertOpen(audit);
+
+    audit.status = 'cancelled';
+    audit.cancelledBy = user._id;
+    audit.cancelledAt = new Date();
+    audit.cancelReason = cancelReason;
+    return audit.save();
+  }
+}
+
+export default new InventoryAuditService();
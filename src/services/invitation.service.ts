@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import mongoose, { Types } from 'mongoose';
+import Invitation, { IInvitation, InvitationStatus, UserRole } from '../models/Invitation';
+import Permission from '../models/Permission';
+import User, { IUser } from '../models/User';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ServiceError } from '../utils/errors';
+import { ListOptions } from '../utils/pagination';
+import passwordService from './password.service';
+import stationService from './station.service';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+export interface CreateInvitationInput {
+  employeeNumber?: string;
+  role?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  // Station ids or codes; defaults to the inviter's stations
+  stations?: unknown;
+  expiresInHours?: unknown;
+}
+
+export interface AcceptInvitationInput {
+  token?: string;
+  // Optional; when sent it must match the invitation
+  employeeNumber?: string;
+  password: unknown;
+  firstName?: string;
+  lastName?: string;
+}
+
+const ROLES: UserRole[] = ['admin', 'supervisor', 'employee'];
+
+// Supervisors may only bring in employees; admins can invite any role
+const INVITABLE_ROLES: Record<string, UserRole[]> = {
+  admin: ROLES,
+  supervisor: ['employee']
+};
+
+// Permissions a new account starts with, by role. Admins hold every permission regardless.
+const DEFAULT_PERMISSIONS: Record<UserRole, string[]> = {
+  admin: [],
+  supervisor: [
+    'view_dashboard',
+    'view_all_items',
+    'create_items',
+    'edit_all_items',
+    'deliver_items',
+    'view_delivered_items',
+    'view_lost_reports',
+    'manage_lost_reports',
+    'generate_reports',
+    'invite_users'
+  ],
+  employee: [
+    'view_dashboard',
+    'view_own_items',
+    'create_items',
+    'edit_own_items',
+    'view_delivered_items'
+  ]
+};
+
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+const getDefaultExpiryHours = (): number => Number(process.env.INVITATION_TTL_HOURS) || 72;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const cleanString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+class InvitationService {
+  statusOf(invitation: Pick<IInvitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>): InvitationStatus {
+    if (invitation.acceptedAt) {
+      return 'accepted';
+    }
+    if (invitation.revokedAt) {
+      return 'revoked';
+    }
+    return invitation.expiresAt > new Date() ? 'pending' : 'expired';
+  }
+
+  // Query matching invitations in the given status
+  statusFilter(status: InvitationStatus): Record<string, any> {
+    const open = { acceptedAt: { $exists: false }, revokedAt: { $exists: false } };
+    switch (status) {
+      case 'accepted':
+        return { acceptedAt: { $exists: true } };
+      case 'revoked':
+        return { acceptedAt: { $exists: false }, revokedAt: { $exists: true } };
+      case 'expired':
+        return { ...open, expiresAt: { $lte: new Date() } };
+      default:
+        return { ...open, expiresAt: { $gt: new Date() } };
+    }
+  }
+
+  toResponse(invitation: IInvitation) {
+    return { ...invitation.toObject(), status: this.statusOf(invitation) };
+  }
+
+  /**
+   * Issue an invitation for one employee number and role. The returned token
+   * is the only copy; only its hash is stored.
+   */
+  async create(input: CreateInvitationInput, inviter: RequestUser): Promise<{ invitation: IInvitation; token: string }> {
+    const employeeNumber = cleanString(input.employeeNumber);
+    if (!employeeNumber) {
+      throw new ServiceError('employeeNumber is required', 400, 'EMPLOYEE_NUMBER_REQUIRED');
+    }
+
+    const role = (input.role || 'employee') as UserRole;
+    if (!ROLES.includes(role)) {
+      throw new ServiceError(`role must be one of ${ROLES.join(', ')}`, 400, 'INVALID_ROLE');
+    }
+    if (!(INVITABLE_ROLES[inviter.role] || []).includes(role)) {
+      throw new ServiceError(`You cannot invite users with the ${role} role`, 403, 'ROLE_NOT_ALLOWED');
+    }
+
+    const expiresInHours = input.expiresInHours === undefined ? getDefaultExpiryHours() : Number(input.expiresInHours);
+    if (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > MAX_EXPIRY_HOURS) {
+      throw new ServiceError(`expiresInHours must be between 1 and ${MAX_EXPIRY_HOURS}`, 400, 'INVALID_EXPIRY');
+    }
+
+    const stations = input.stations === undefined ? inviter.stations : await stationService.resolve(input.stations);
+    if (stations.some(stationId => !stationService.hasAccess(inviter, stationId))) {
+      throw new ServiceError('You can only invite users to your own stations', 403, 'STATION_ACCESS_DENIED');
+    }
+
+    if (await User.exists({ employeeNumber })) {
+      throw new ServiceError('Employee number already exists', 409, 'EMPLOYEE_NUMBER_TAKEN');
+    }
+    if (await Invitation.exists({ employeeNumber, ...this.statusFilter('pending') })) {
+      throw new ServiceError(
+        'A pending invitation already exists for this employee number. Revoke it before issuing a new one',
+        409,
+        'INVITATION_PENDING'
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await Invitation.create({
+      tokenHash: hashToken(token),
+      employeeNumber,
+      role,
+      stations,
+      firstName: cleanString(input.firstName),
+      lastName: cleanString(input.lastName),
+      email: cleanString(input.email),
+      invitedBy: inviter._id,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+    });
+
+    return { invitation, token };
+  }
+
+  async list(filters: Record<string, any>, options: ListOptions): Promise<{ invitations: IInvitation[]; total: number }> {
+    const [invitations, total] = await Promise.all([
+      Invitation.find(filters)
+        .populate('invitedBy', USER_FIELDS)
+        .populate('acceptedBy', USER_FIELDS)
+        .populate('revokedBy', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      Invitation.countDocuments(filters)
+    ]);
+    return { invitations, total };
+  }
+
+  // Admins can revoke any pending invitation, supervisors only their own
+  async revoke(invitationId: string, user: RequestUser): Promise<IInvitation> {
+    const invitation = Types.ObjectId.isValid(invitationId) ? await Invitation.findById(invitationId) : null;
+    if (!invitation || (user.role !== 'admin' && !invitation.invitedBy.equals(user._id))) {
+      throw new ServiceError('Invitation not found', 404, 'INVITATION_NOT_FOUND');
+    }
+
+    const status = this.statusOf(invitation);
+    if (status !== 'pending') {
+      throw new ServiceError(`Invitation is already ${status}`, 409, 'INVITATION_NOT_PENDING');
+    }
+
+    invitation.revokedAt = new Date();
+    invitation.revokedBy = user._id;
+    await invitation.save();
+    return invitation;
+  }
+
+  /**
+   * Create the invited user's account and use up the invitation in one
+   * transaction, so an invitation can never produce two accounts.
+   */
+  async accept(input: AcceptInvitationInput): Promise<IUser> {
+    const token = cleanString(input.token);
+    if (!token) {
+      throw new ServiceError('An invitation is required to register', 400, 'INVITATION_REQUIRED');
+    }
+
+    return mongoose.connection.transaction(async (session) => {
+      const invitation = await Invitation.findOne({ tokenHash: hashToken(token) }).session(session);
+      if (!invitation) {
+        throw new ServiceError('Invitation is not valid', 400, 'INVALID_INVITATION');
+      }
+
+      const status = this.statusOf(invitation);
+      if (status !== 'pending') {
+        throw new ServiceError(`Invitation is ${status}`, 400, `INVITATION_${status.toUpperCase()}`);
+      }
+
+      const employeeNumber = cleanString(input.employeeNumber);
+      if (employeeNumber && employeeNumber !== invitation.employeeNumber) {
+        throw new ServiceError('Employee number does not match the invitation', 400, 'EMPLOYEE_NUMBER_MISMATCH');
+      }
+
+      const password = passwordService.assertValid(input.password, invitation.employeeNumber);
+
+      const firstName = cleanString(input.firstName) || invitation.firstName;
+      const lastName = cleanString(input.lastName) || invitation.lastName;
+      if (!firstName || !lastName) {
+        throw new ServiceError('firstName and lastName are required', 400, 'NAME_REQUIRED');
+      }
+
+      if (await User.exists({ employeeNumber: invitation.employeeNumber }).session(session)) {
+        throw new ServiceError('Employee number already exists', 409, 'EMPLOYEE_NUMBER_TAKEN');
+      }
+
+      const names = DEFAULT_PERMISSIONS[invitation.role];
+      const defaultPermissions = await Permission.find({ name: { $in: names } }).session(session);
+      if (defaultPermissions.length < names.length) {
+        console.error('Default permissions not found');
+        throw new ServiceError('Error setting up user permissions', 500, 'PERMISSIONS_NOT_INITIALIZED');
+      }
+
+      const [user] = await User.create([{
+        employeeNumber: invitation.employeeNumber,
+        password,
+        passwordChangedAt: new Date(),
+        firstName,
+        lastName,
+        role: invitation.role,
+        stations: invitation.stations,
+        permissions: defaultPermissions.map(p => p._id)
+      }], { session });
+
+      invitation.acceptedAt = new Date();
+      invitation.acceptedBy = user._id as Types.ObjectId;
+      await invitation.save({ session });
+
+      return user;
+    });
+  }
+}
+
+export default new InvitationService();
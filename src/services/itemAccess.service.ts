@@ -0,0 +1,59 @@
+import ItemAccess, { IItemAccess, ItemAccessAction } from '../models/ItemAccess';
+import { ItemHandling } from '../models/LostItem';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { SearchHit } from './search.service';
+import { ListOptions } from '../utils/pagination';
+
+type ItemModelName = 'LostItem' | 'DeliveredItem';
+
+interface AccessedItem {
+  _id?: unknown;
+  handling?: ItemHandling;
+}
+
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+class ItemAccessService {
+  /**
+   * Log that the caller saw these items. Only high-value and sensitive items
+   * are logged, so callers can pass whole listings. Failing to write the log
+   * must not block the request that triggered it.
+   */
+  async record(req: AuthenticatedRequest, items: AccessedItem[], itemModel: ItemModelName, action: ItemAccessAction): Promise<void> {
+    const controlled = items.filter(item => item.handling && item.handling !== 'standard');
+    if (controlled.length === 0) {
+      return;
+    }
+    try {
+      await ItemAccess.insertMany(controlled.map(item => ({
+        item: item._id,
+        itemModel,
+        action,
+        user: req.user._id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      })));
+    } catch (error) {
+      console.error('Error recording item access:', error);
+    }
+  }
+
+  async recordSearchHits(req: AuthenticatedRequest, hits: SearchHit[]): Promise<void> {
+    await this.record(req, hits.filter(hit => hit.type === 'lost').map(hit => hit.item), 'LostItem', 'listed');
+    await this.record(req, hits.filter(hit => hit.type === 'delivered').map(hit => hit.item), 'DeliveredItem', 'listed');
+  }
+
+  async list(itemId: string, options: ListOptions): Promise<{ entries: IItemAccess[]; total: number }> {
+    const [entries, total] = await Promise.all([
+      ItemAccess.find({ item: itemId })
+        .populate('user', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      ItemAccess.countDocuments({ item: itemId })
+    ]);
+    return { entries, total };
+  }
+}
+
+export default new ItemAccessService();
@@ -0,0 +1,199 @@
+import { ClientSession, Document, Types } from 'mongoose';
+import ItemEvent, { IItemEvent, ItemEventAction, FieldChange } from '../models/ItemEvent';
+import LostItem, { ItemHandling } from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+
+type ItemModelName = 'LostItem' | 'DeliveredItem';
+
+// Who an item in a history belongs to, for access checks and access logging
+export interface HistoryItemOwnership {
+  _id: string;
+  itemModel: ItemModelName;
+  station?: unknown;
+  foundBy?: unknown;
+  handling?: ItemHandling;
+}
+
+interface RecordEventInput {
+  item: Types.ObjectId | string;
+  itemModel: ItemModelName;
+  action: ItemEventAction;
+  performedBy: Types.ObjectId | string;
+  changes?: FieldChange[];
+  relatedItem?: Types.ObjectId | string;
+  relatedItemModel?: ItemModelName;
+  snapshot?: Record<string, unknown>;
+  notes?: string;
+}
+
+// Bookkeeping fields that are never part of a diff
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+// Deliver/revert chains are short, this only guards against bad data
+const MAX_LINEAGE_DEPTH = 20;
+
+class ItemHistoryService {
+  // Reduce populated references, ObjectIds and dates to plain comparable values
+  normalize(value: any): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Types.ObjectId) {
+      return value.toString();
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => this.normalize(entry));
+    }
+    if (typeof value === 'object') {
+      // Populated user references are recorded by id only
+      if ('employeeNumber' in value && '_id' in value) {
+        return value._id.toString();
+      }
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        if (key !== '_id' && key !== '__v') {
+          result[key] = this.normalize(value[key]);
+        }
+      }
+      return result;
+    }
+    return value;
+  }
+
+  // Field-level diff between two plain item objects
+  diff(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+      if (IGNORED_FIELDS.includes(field)) {
+        continue;
+      }
+      const previous = this.normalize(before[field]);
+      const next = this.normalize(after[field]);
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes.push({ field, before: previous, after: next });
+      }
+    }
+
+    return changes;
+  }
+
+  snapshot(item: Record<string, any>): Record<string, unknown> {
+    return this.normalize(item) as Record<string, unknown>;
+  }
+
+  // Outside a transaction, failing to write history must not undo the change that was already made
+  async record(input: RecordEventInput, session?: ClientSession): Promise<IItemEvent | null> {
+    try {
+      const [event] = await ItemEvent.create([{
+        ...input,
+        changes: input.changes || []
+      }], { session });
+      return event;
+    } catch (error) {
+      // Inside a transaction the failure has to abort it, or the event would silently go missing
+      if (session) {
+        throw error;
+      }
+      console.error(`Error recording ${input.action} event for item ${input.item}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Events for an item and every item it was delivered from or reverted into,
+   * oldest first. Deliver and revert move the item to another collection,
+   * and items moved before they kept their `_id` got a new one, so the
+   * lineage is followed through `relatedItem` links in both directions.
+   */
+  async getHistory(itemId: Types.ObjectId | string): Promise<IItemEvent[]> {
+    const ids = new Set<string>([itemId.toString()]);
+    let frontier = [itemId.toString()];
+
+    for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+      const links = await ItemEvent.find({
+        relatedItem: { $exists: true },
+        $or: [{ item: { $in: frontier } }, { relatedItem: { $in: frontier } }]
+      }).select('item relatedItem');
+
+      frontier = [];
+      for (const link of links) {
+        for (const id of [link.item.toString(), link.relatedItem!.toString()]) {
+          if (!ids.has(id)) {
+            ids.add(id);
+            frontier.push(id);
+          }
+        }
+      }
+    }
+
+    return ItemEvent.find({ item: { $in: Array.from(ids) } })
+      .populate('performedBy', 'firstName lastName employeeNumber')
+      .sort({ createdAt: 1 });
+  }
+
+  /**
+   * Station, finder and handling of every item in a history. Items still on file are
+   * read from their collection; items that were deleted or moved since fall
+   * back to the last snapshot recorded for them.
+   */
+  async ownership(events: IItemEvent[]): Promise<HistoryItemOwnership[]> {
+    const ids = Array.from(new Set(events.map(event => event.item.toString())));
+    const [lostItems, deliveredItems] = await Promise.all([
+      LostItem.find({ _id: { $in: ids } }).select('station foundBy handling'),
+      DeliveredItem.find({ _id: { $in: ids } }).select('station foundBy handling')
+    ]);
+    const onFile = new Map<string, HistoryItemOwnership>();
+    for (const doc of lostItems) {
+      onFile.set(String(doc._id), { _id: String(doc._id), itemModel: 'LostItem', station: doc.station, foundBy: doc.foundBy, handling: doc.handling });
+    }
+    for (const doc of deliveredItems) {
+      onFile.set(String(doc._id), { _id: String(doc._id), itemModel: 'DeliveredItem', station: doc.station, foundBy: doc.foundBy, handling: doc.handling });
+    }
+
+    return ids.map(id => {
+      const current = onFile.get(id);
+      if (current) {
+        return current;
+      }
+      const removed = events.filter(event => event.item.toString() === id);
+      const snapshot = removed.filter(event => event.snapshot).map(event => event.snapshot!).pop();
+      return {
+        _id: id,
+        itemModel: removed[0].itemModel,
+        station: snapshot?.station,
+        foundBy: snapshot?.foundBy,
+        handling: snapshot?.handling as ItemHandling | undefined
+      };
+    });
+  }
+
+  // Drop the past deliveries a reverted item keeps, which hold the receivers' details
+  redactDeliveryHistory(item: Document | Record<string, any>): Record<string, any> {
+    const plain = item instanceof Document ? item.toObject() : { ...item };
+    delete plain.deliveryHistory;
+    return plain;
+  }
+
+  // Strip what delivered items recorded about the receiver, for users who cannot view deliveries
+  redactDelivered(events: IItemEvent[]): Record<string, unknown>[] {
+    return events.map(event => {
+      const plain = event.toObject();
+      if (event.itemModel !== 'DeliveredItem') {
+        return {
+          ...plain,
+          snapshot: plain.snapshot && this.redactDeliveryHistory(plain.snapshot),
+          changes: plain.changes.filter((change: FieldChange) => change.field !== 'deliveryHistory')
+        };
+      }
+      const { snapshot, ...rest } = plain;
+      return { ...rest, changes: plain.changes.filter((change: FieldChange) => change.field === 'status') };
+    });
+  }
+}
+
+export default new ItemHistoryService();
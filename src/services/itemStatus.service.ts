@@ -0,0 +1,139 @@
+import { AuthenticatedRequest } from '../middleware/auth';
+import { hasPermission } from '../middleware/permissions';
+import { ItemStatus, ITEM_STATUSES } from '../models/LostItem';
+import { ServiceError } from '../utils/errors';
+
+export type { ItemStatus } from '../models/LostItem';
+
+export interface StatusTransition {
+  from: ItemStatus;
+  to: ItemStatus;
+  // Any one of these permissions allows the transition
+  permissions: string[];
+  // Values that must be present once the transition is applied, as dotted paths
+  requires: string[];
+  // Endpoint performing the transition when a plain status update cannot
+  via?: string;
+}
+
+const DELIVERY_FIELDS = [
+  'customerInfo.name',
+  'customerInfo.email',
+  'customerInfo.phone',
+  'customerInfo.identification',
+  'customerInfo.signature'
+];
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+  // Accepting a match reserves the item for the passenger who reported it
+  { from: 'onHand', to: 'pending', permissions: ['manage_lost_reports'], requires: ['claimReport'], via: 'POST /api/matches/:id/accept' },
+  // Releasing a reserved item back to the shelf, e.g. when the claim turns out to be wrong
+  { from: 'pending', to: 'onHand', permissions: ['manage_lost_reports'], requires: ['reason'] },
+  { from: 'onHand', to: 'delivered', permissions: ['deliver_items'], requires: DELIVERY_FIELDS, via: 'PUT /api/items/:id/deliver' },
+  { from: 'pending', to: 'delivered', permissions: ['deliver_items'], requires: DELIVERY_FIELDS, via: 'PUT /api/items/:id/deliver' },
+  { from: 'delivered', to: 'onHand', permissions: ['revert_delivered_status'], requires: ['reason'], via: 'POST /api/delivered-items/:id/revert' },
+  { from: 'delivered', to: 'pending', permissions: ['revert_delivered_status'], requires: ['reason', 'claimReport'], via: 'POST /api/delivered-items/:id/revert' },
+  { from: 'onHand', to: 'archived', permissions: ['approve_disposals'], requires: ['disposal.batch', 'disposal.method'], via: 'POST /api/disposals/:id/approve' },
+  // Sending an item to another station, e.g. the passenger's home station
+  { from: 'onHand', to: 'inTransit', permissions: ['transfer_items'], requires: ['transfer'], via: 'POST /api/transfers/:id/dispatch' },
+  { from: 'pending', to: 'inTransit', permissions: ['transfer_items'], requires: ['transfer', 'claimReport'], via: 'POST /api/transfers/:id/dispatch' },
+  // The receiving station confirms arrival; a reserved item stays reserved
+  { from: 'inTransit', to: 'onHand', permissions: ['receive_transfers'], requires: [], via: 'POST /api/transfers/:id/receive' },
+  { from: 'inTransit', to: 'pending', permissions: ['receive_transfers'], requires: ['claimReport'], via: 'POST /api/transfers/:id/receive' }
+];
+
+// Spellings sent by older clients
+const STATUS_ALIASES: Record<string, ItemStatus> = {
+  'on-hand': 'onHand',
+  'onhand': 'onHand',
+  'in-process': 'pending',
+  'inprocess': 'pending',
+  'in-transit': 'inTransit',
+  'intransit': 'inTransit'
+};
+
+interface TransitionContext {
+  user?: AuthenticatedRequest['user'];
+  // The item as it will be after the change, merged with request-only values such as `reason`
+  fields?: Record<string, any>;
+  // Plain status updates cannot perform transitions that have their own endpoint
+  direct?: boolean;
+}
+
+const getPath = (source: Record<string, any>, path: string): unknown => {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+};
+
+const isBlank = (value: unknown): boolean => {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+};
+
+class ItemStatusService {
+  normalize(status: unknown): ItemStatus {
+    const value = typeof status === 'string' ? status.trim() : '';
+    const normalized = STATUS_ALIASES[value.toLowerCase()] || value;
+    if (!ITEM_STATUSES.includes(normalized as ItemStatus)) {
+      throw new ServiceError(`Status must be one of ${ITEM_STATUSES.join(', ')}`, 400, 'INVALID_STATUS');
+    }
+    return normalized as ItemStatus;
+  }
+
+  find(from: ItemStatus, to: ItemStatus): StatusTransition | undefined {
+    return STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+  }
+
+  // Transitions out of `from` that the user holds a permission for
+  allowedTransitions(from: ItemStatus, user?: AuthenticatedRequest['user']): StatusTransition[] {
+    return STATUS_TRANSITIONS.filter(transition =>
+      transition.from === from &&
+      (!user || transition.permissions.some(permission => hasPermission(user, permission)))
+    );
+  }
+
+  /**
+   * Check a status change against the state machine and return the matching
+   * transition. Throws a ServiceError describing why the change is refused:
+   * an illegal jump, a missing permission, a transition that has its own
+   * endpoint, or required values that are missing.
+   */
+  assertTransition(from: ItemStatus, to: ItemStatus, context: TransitionContext = {}): StatusTransition {
+    const transition = this.find(from, to);
+    if (!transition) {
+      const targets = STATUS_TRANSITIONS.filter(entry => entry.from === from).map(entry => entry.to);
+      throw new ServiceError(
+        `Cannot change status from ${from} to ${to}. Allowed from ${from}: ${targets.join(', ') || 'none'}`,
+        409,
+        'ILLEGAL_STATUS_TRANSITION'
+      );
+    }
+
+    if (context.user && !transition.permissions.some(permission => hasPermission(context.user!, permission))) {
+      throw new ServiceError(
+        `Changing status from ${from} to ${to} requires ${transition.permissions.join(' or ')}`,
+        403,
+        'TRANSITION_NOT_PERMITTED'
+      );
+    }
+
+    if (context.direct && transition.via) {
+      throw new ServiceError(
+        `Use ${transition.via} to change status from ${from} to ${to}`,
+        409,
+        'TRANSITION_REQUIRES_WORKFLOW'
+      );
+    }
+
+    const missing = transition.requires.filter(path => isBlank(getPath(context.fields || {}, path)));
+    if (missing.length > 0) {
+      throw new ServiceError(
+        `Changing status from ${from} to ${to} requires: ${missing.join(', ')}`,
+        400,
+        'MISSING_TRANSITION_FIELDS'
+      );
+    }
+
+    return transition;
+  }
+}
+
+export default new ItemStatusService();
@@ -0,0 +1,131 @@
+import PDFDocument from 'pdfkit';
+import LostItem, { ILostItem } from '../models/LostItem';
+import { IStorageLocation } from '../models/StorageLocation';
+import { StorageLocationSummary } from './storageLocation.service';
+import { BRAND_RED, BRAND_BLACK, MUTED, formatDate } from '../utils/pdf';
+import { drawCode128 } from '../utils/barcode';
+import { generateCode } from '../utils/codes';
+
+export interface LabelContent {
+  // Printed large at the top, e.g. the item's reference code or the bin code
+  heading: string;
+  lines: string[];
+  // Encoded in the barcode
+  barcode: string;
+}
+
+// 4" x 2" labels, ten to a US letter sheet (Avery 5163 and compatible)
+const SHEET = {
+  columns: 2,
+  rows: 5,
+  labelWidth: 288,
+  labelHeight: 144,
+  marginTop: 36,
+  marginLeft: 11.25,
+  columnGap: 13.5
+};
+const LABEL_PADDING = 10;
+const BARCODE_HEIGHT = 40;
+
+const stationCode = (station: any): string => {
+  return station && station.code ? station.code : '';
+};
+
+class LabelPdfService {
+  generateReferenceCode(): string {
+    return generateCode(8);
+  }
+
+  // Items logged before reference codes existed get one when their label is first printed
+  async ensureReferenceCode(item: ILostItem): Promise<string> {
+    if (item.referenceCode) {
+      return item.referenceCode;
+    }
+    const referenceCode = this.generateReferenceCode();
+    await LostItem.updateOne({ _id: item._id, referenceCode: { $exists: false } }, { $set: { referenceCode } });
+    const updated = await LostItem.findById(item._id).select('referenceCode');
+    item.referenceCode = updated?.referenceCode || referenceCode;
+    return item.referenceCode;
+  }
+
+  // Expects the item's reference code to be set and `station` to be populated
+  itemLabel(item: ILostItem): LabelContent {
+    const referenceCode = item.referenceCode as string;
+    return {
+      heading: referenceCode,
+      lines: [
+        item.itemName || item.description,
+        [item.category, stationCode(item.station)].filter(Boolean).join(' · '),
+        `Found ${formatDate(item.dateFound)}${item.flightNumber ? ` on ${item.flightNumber}` : ''}`
+      ],
+      barcode: referenceCode
+    };
+  }
+
+  // `path` runs from the room down to the location itself
+  locationLabel(location: IStorageLocation, path: StorageLocationSummary[], barcode: string): LabelContent {
+    return {
+      heading: location.code,
+      lines: [
+        location.name,
+        path.map(entry => entry.code).join(' > '),
+        `${location.type.charAt(0).toUpperCase()}${location.type.slice(1)}${location.capacity ? ` · holds ${location.capacity}` : ''}`
+      ],
+      barcode
+    };
+  }
+
+  private drawLabel(doc: PDFKit.PDFDocument, label: LabelContent, x: number, y: number) {
+    const width = SHEET.labelWidth - LABEL_PADDING * 2;
+    const left = x + LABEL_PADDING;
+    let top = y + LABEL_PADDING;
+
+    doc.save().rect(left, top, 4, 22).fill(BRAND_RED).restore();
+    doc.font('Courier-Bold').fontSize(16).fillColor(BRAND_BLACK)
+      .text(label.heading, left + 10, top + 3, { width: width - 10, lineBreak: false, ellipsis: true });
+    top += 28;
+
+    doc.font('Helvetica').fontSize(8.5);
+    label.lines.filter(Boolean).slice(0, 3).forEach((line, index) => {
+      doc.fillColor(index === 0 ? BRAND_BLACK : MUTED)
+        .text(line, left, top, { width, lineBreak: false, ellipsis: true });
+      top += 11;
+    });
+
+    const barcodeTop = y + SHEET.labelHeight - LABEL_PADDING - BARCODE_HEIGHT - 9;
+    drawCode128(doc, label.barcode, left, barcodeTop, width, BARCODE_HEIGHT);
+    doc.font('Courier').fontSize(7.5).fillColor(BRAND_BLACK)
+      .text(label.barcode, left, barcodeTop + BARCODE_HEIGHT + 2, { width, align: 'center', lineBreak: false });
+  }
+
+  /**
+   * Render a sheet of labels, each with a Code 128 barcode scanners can read
+   * back, as a finished PDF document. Labels fill the sheet left to right,
+   * top to bottom, starting a new page as needed.
+   */
+  generate(labels: LabelContent[], title: string): PDFKit.PDFDocument {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 0,
+      info: { Title: `Air Canada Lost & Found - ${title}` }
+    });
+
+    const perPage = SHEET.columns * SHEET.rows;
+    labels.forEach((label, index) => {
+      const position = index % perPage;
+      if (index > 0 && position === 0) {
+        doc.addPage();
+      }
+      const column = position % SHEET.columns;
+      const row = Math.floor(position / SHEET.columns);
+      const x = SHEET.marginLeft + column * (SHEET.labelWidth + SHEET.columnGap);
+      const y = SHEET.marginTop + row * SHEET.labelHeight;
+      this.drawLabel(doc, label, x, y);
+    });
+
+    doc.end();
+    return doc;
+  }
+}
+
+export default new LabelPdfService();
@@ -0,0 +1,190 @@
+import { Types } from 'mongoose';
+import LoginThrottle, { ILoginThrottle } from '../models/LoginThrottle';
+import { ServiceError } from '../utils/errors';
+import securityLogService from './securityLog.service';
+
+type ThrottleScope = 'account' | 'ip';
+
+interface ThrottlePolicy {
+  // Failures after which every further attempt has to wait, doubling each time
+  delayAfter: number;
+  lockAfter: number;
+}
+
+export interface LoginClient {
+  employeeNumber: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  lockedUntil: Date | null;
+  failures: number;
+}
+
+const MAX_DELAY_SECONDS = 30;
+
+// Shared terminals put many employees behind one address, so addresses get more room than accounts
+const getPolicy = (scope: ThrottleScope): ThrottlePolicy => {
+  if (scope === 'ip') {
+    return { delayAfter: 10, lockAfter: Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 20 };
+  }
+  return { delayAfter: 3, lockAfter: Number(process.env.LOGIN_MAX_FAILURES_PER_ACCOUNT) || 5 };
+};
+
+const getLockoutMs = (): number => (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+
+// Failures older than this are forgotten
+const getFailureWindowMs = (): number => (Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+const accountKey = (employeeNumber: string): string => `account:${employeeNumber.trim().toUpperCase()}`;
+
+const ipKey = (ipAddress: string): string => `ip:${ipAddress}`;
+
+const scopeOf = (key: string): ThrottleScope => (key.startsWith('ip:') ? 'ip' : 'account');
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+export class LoginThrottledError extends ServiceError {
+  constructor(message: string, code: string, public retryAfter: number) {
+    super(message, 429, code);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+class LoginProtectionService {
+  private keys(client: LoginClient): string[] {
+    const keys = [accountKey(client.employeeNumber)];
+    if (client.ipAddress) {
+      keys.push(ipKey(client.ipAddress));
+    }
+    return keys;
+  }
+
+  // Throws a LoginThrottledError while the account or address has to wait or is locked out
+  async assertAllowed(client: LoginClient): Promise<void> {
+    const now = new Date();
+    const throttles = await LoginThrottle.find({ key: { $in: this.keys(client) } });
+
+    for (const throttle of throttles) {
+      if (throttle.lockedUntil && throttle.lockedUntil > now) {
+        if (scopeOf(throttle.key) === 'account') {
+          throw new LoginThrottledError(
+            'Too many failed login attempts. This account is temporarily locked',
+            'ACCOUNT_LOCKED',
+            secondsUntil(throttle.lockedUntil)
+          );
+        }
+        throw new LoginThrottledError(
+          'Too many failed login attempts from this address. Try again later',
+          'IP_LOCKED',
+          secondsUntil(throttle.lockedUntil)
+        );
+      }
+    }
+
+    for (const throttle of throttles) {
+      if (throttle.nextAttemptAt && throttle.nextAttemptAt > now) {
+        throw new LoginThrottledError(
+          'Too many failed login attempts. Wait before trying again',
+          'LOGIN_DELAYED',
+          secondsUntil(throttle.nextAttemptAt)
+        );
+      }
+    }
+  }
+
+  /**
+   * Count a failed login against the account and the address it came from.
+   * Past the policy threshold each further attempt must wait longer, and
+   * reaching the lockout threshold locks the key and records a security event.
+   * Unknown employee numbers are counted too, so lockouts do not reveal which
+   * accounts exist.
+   */
+  async recordFailure(client: LoginClient, userId?: Types.ObjectId): Promise<void> {
+    for (const key of this.keys(client)) {
+      const now = new Date();
+      const throttle = await LoginThrottle.findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + getFailureWindowMs()) }
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+
+      const scope = scopeOf(key);
+      const policy = getPolicy(scope);
+
+      if (throttle.failures >= policy.lockAfter) {
+        const lockedUntil = new Date(now.getTime() + getLockoutMs());
+        // The counter starts over once the lock expires
+        await LoginThrottle.updateOne({ _id: throttle._id }, {
+          $set: {
+            failures: 0,
+            lockedUntil,
+            expiresAt: new Date(lockedUntil.getTime() + getFailureWindowMs())
+          },
+          $unset: { nextAttemptAt: 1 }
+        });
+        await securityLogService.record({
+          type: scope === 'account' ? 'account_locked' : 'ip_locked',
+          employeeNumber: client.employeeNumber,
+          user: userId,
+          ipAddress: client.ipAddress,
+          userAgent: client.userAgent,
+          details: { failures: throttle.failures, lockedUntil }
+        });
+      } else if (throttle.failures >= policy.delayAfter) {
+        const delaySeconds = Math.min(2 ** (throttle.failures - policy.delayAfter), MAX_DELAY_SECONDS);
+        await LoginThrottle.updateOne(
+          { _id: throttle._id },
+          { $set: { nextAttemptAt: new Date(now.getTime() + delaySeconds * 1000) } }
+        );
+      }
+    }
+  }
+
+  // A successful login clears the account's failures. The address keeps its count so
+  // one known password cannot be used to reset guessing against other accounts.
+  async recordSuccess(client: LoginClient): Promise<void> {
+    await LoginThrottle.deleteOne({ key: accountKey(client.employeeNumber) });
+  }
+
+  async getStatus(employeeNumber: string): Promise<LockoutStatus> {
+    const throttle: ILoginThrottle | null = await LoginThrottle.findOne({ key: accountKey(employeeNumber) });
+    const locked = !!throttle?.lockedUntil && throttle.lockedUntil > new Date();
+    return {
+      locked,
+      lockedUntil: locked ? throttle!.lockedUntil! : null,
+      failures: throttle?.failures || 0
+    };
+  }
+
+  // Clear the account's failures and lock, and optionally those of an address
+  async unlock(
+    employeeNumber: string,
+    actor: Types.ObjectId,
+    options: { userId?: Types.ObjectId; ipAddress?: string } = {}
+  ): Promise<boolean> {
+    const status = await this.getStatus(employeeNumber);
+    const keys = [accountKey(employeeNumber)];
+    if (options.ipAddress) {
+      keys.push(ipKey(options.ipAddress));
+    }
+    await LoginThrottle.deleteMany({ key: { $in: keys } });
+
+    await securityLogService.record({
+      type: 'account_unlocked',
+      employeeNumber,
+      user: options.userId,
+      ipAddress: options.ipAddress,
+      actor,
+      details: { wasLocked: status.locked, failures: status.failures }
+    });
+    return status.locked;
+  }
+}
+
+export default new LoginProtectionService();
@@ -0,0 +1,448 @@
+import mongoose, { Types } from 'mongoose';
+import prisma from '../config/prisma';
+import LostItem, { ILostItem } from '../models/LostItem';
+import ItemMatch, { IItemMatch, MatchBreakdown } from '../models/ItemMatch';
+import itemHistoryService from './itemHistory.service';
+import itemStatusService from './itemStatus.service';
+import stationService from './station.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ServiceError } from '../utils/errors';
+import { parseFlightNumber, formatFlightNumber } from '../utils/flights';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+// The subset of the Prisma Report model used for matching
+export interface LostReport {
+  id: number;
+  createdAt: Date;
+  itemName: string;
+  description: string;
+  location: string;
+  category: string;
+  status: string;
+  flightNumber?: string | null;
+  dateLost?: Date | null;
+  matchedItemId?: string | null;
+}
+
+const WEIGHTS: MatchBreakdown = {
+  category: 0.25,
+  flight: 0.25,
+  date: 0.15,
+  location: 0.1,
+  description: 0.25
+};
+
+// Suggestions scoring below this are not stored
+const MIN_MATCH_SCORE = 0.35;
+const MAX_SUGGESTIONS = 10;
+
+// Only compare items and reports this many days apart
+const CANDIDATE_WINDOW_DAYS = 60;
+
+// Date proximity decays to zero over this many days
+const DATE_DECAY_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeText = (value?: string | null): string => {
+  return (value || '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const tokens = (value?: string | null): Set<string> => {
+  return new Set(normalizeText(value).split(' ').filter(token => token.length > 1));
+};
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const intersection = Array.from(a).filter(token => b.has(token)).length;
+  return intersection / (a.size + b.size - intersection);
+};
+
+// Sørensen–Dice coefficient over character bigrams, tolerant of typos and plurals
+const diceCoefficient = (a: string, b: string): number => {
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.length === 0 || second.length === 0) {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const gram of first) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  let overlap = 0;
+  for (const gram of second) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      counts.set(gram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (first.length + second.length);
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+class MatchingService {
+  score(item: ILostItem, report: LostReport): { score: number; breakdown: MatchBreakdown } {
+    const itemCategory = normalizeText(item.category);
+    const reportCategory = normalizeText(report.category);
+    let category = 0;
+    if (itemCategory && itemCategory === reportCategory) {
+      category = 1;
+    } else if (itemCategory && reportCategory &&
+      (itemCategory.includes(reportCategory) || reportCategory.includes(itemCategory))) {
+      category = 0.5;
+    }
+
+    // `AC 0123`, `ac123` and `123` all compare equal
+    const itemFlight = parseFlightNumber(item.flightNumber);
+    const reportFlight = parseFlightNumber(report.flightNumber);
+    let flight = 0;
+    if (itemFlight && reportFlight) {
+      if (formatFlightNumber(itemFlight) === formatFlightNumber(reportFlight)) {
+        flight = 1;
+      } else if (itemFlight.number === reportFlight.number) {
+        // Same number under another carrier code, e.g. a codeshare
+        flight = 0.7;
+      }
+    }
+
+    const lostOn = report.dateLost || report.createdAt;
+    const days = Math.abs(new Date(item.dateFound).getTime() - new Date(lostOn).getTime()) / DAY_MS;
+    const date = Math.max(0, 1 - days / DATE_DECAY_DAYS);
+
+    const location = jaccard(tokens(item.location), tokens(report.location));
+
+    const itemText = normalizeText(`${item.itemName || ''} ${item.description}`);
+    const reportText = normalizeText(`${report.itemName} ${report.description}`);
+    const description = Math.max(
+      diceCoefficient(itemText, reportText),
+      jaccard(tokens(itemText), tokens(reportText))
+    );
+
+    const breakdown: MatchBreakdown = {
+      category: round(category),
+      flight: round(flight),
+      date: round(date),
+      location: round(location),
+      description: round(description)
+    };
+
+    const score = (Object.keys(WEIGHTS) as (keyof MatchBreakdown)[])
+      .reduce((total, key) => total + WEIGHTS[key] * breakdown[key], 0);
+
+    return { score: round(score), breakdown };
+  }
+
+  // Store the best suggestions and drop stale ones that no longer qualify
+  private async saveSuggestions(
+    pairs: { item: ILostItem; report: LostReport }[],
+    staleFilter: Record<string, unknown>
+  ): Promise<void> {
+    const ranked = pairs
+      .map(pair => ({ ...pair, ...this.score(pair.item, pair.report) }))
+      .filter(candidate => candidate.score >= MIN_MATCH_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS);
+
+    for (const candidate of ranked) {
+      await ItemMatch.findOneAndUpdate(
+        { item: candidate.item._id, reportId: candidate.report.id },
+        {
+          $set: { score: candidate.score, breakdown: candidate.breakdown },
+          $setOnInsert: { status: 'suggested' }
+        },
+        { upsert: true }
+      );
+    }
+
+    await ItemMatch.deleteMany({
+      ...staleFilter,
+      status: 'suggested',
+      ...(ranked.length > 0 && {
+        $nor: ranked.map(candidate => ({ item: candidate.item._id, reportId: candidate.report.id }))
+      })
+    });
+  }
+
+  // Score a found item against every open passenger lost report
+  async refreshMatchesForItem(item: ILostItem): Promise<void> {
+    if (item.status !== 'onHand') {
+      return;
+    }
+    const foundAt = new Date(item.dateFound).getTime();
+    const reports: LostReport[] = await prisma.report.findMany({
+      where: {
+        reportType: 'LOST',
+        status: 'PENDING',
+        createdAt: { gte: new Date(foundAt - CANDIDATE_WINDOW_DAYS * DAY_MS) }
+      }
+    });
+
+    await this.saveSuggestions(
+      reports.map(report => ({ item, report })),
+      { item: item._id }
+    );
+  }
+
+  /**
+   * Score a passenger lost report against every found item still on hand, or
+   * only those matching `scope` (a station filter). Suggestions for items
+   * outside the scope are left as they are.
+   */
+  async refreshMatchesForReport(report: LostReport, scope: Record<string, unknown> = {}): Promise<void> {
+    if (report.status !== 'PENDING') {
+      return;
+    }
+    const lostAt = new Date(report.dateLost || report.createdAt).getTime();
+    const items = await LostItem.find({
+      ...scope,
+      status: 'onHand',
+      dateFound: {
+        $gte: new Date(lostAt - CANDIDATE_WINDOW_DAYS * DAY_MS),
+        $lte: new Date(lostAt + CANDIDATE_WINDOW_DAYS * DAY_MS)
+      }
+    });
+
+    const staleFilter: Record<string, unknown> = { reportId: report.id };
+    if (Object.keys(scope).length > 0) {
+      const suggested = await ItemMatch.find({ reportId: report.id, status: 'suggested' }).select('item');
+      const inScope = await LostItem.find({ ...scope, _id: { $in: suggested.map(match => match.item) } }).select('_id');
+      staleFilter.item = { $in: inScope.map(item => item._id) };
+    }
+
+    await this.saveSuggestions(
+      items.map(item => ({ item, report })),
+      staleFilter
+    );
+  }
+
+  async getMatchesForItem(itemId: Types.ObjectId | string) {
+    const matches = await ItemMatch.find({ item: itemId, status: { $ne: 'rejected' } })
+      .populate('decidedBy', 'firstName lastName employeeNumber')
+      .sort({ score: -1 })
+      .lean();
+
+    const reports: LostReport[] = await prisma.report.findMany({
+      where: { id: { in: matches.map(match => match.reportId) } }
+    });
+    const reportsById = new Map(reports.map(report => [report.id, report]));
+
+    return matches
+      .filter(match => reportsById.has(match.reportId))
+      .map(match => ({ ...match, report: reportsById.get(match.reportId) }));
+  }
+
+  // Matches for the report whose item falls within `scope`
+  async getMatchesForReport(reportId: number, scope: Record<string, unknown> = {}) {
+    const matches = await ItemMatch.find({ reportId, status: { $ne: 'rejected' } })
+      .populate({ path: 'item', match: scope })
+      .populate('decidedBy', 'firstName lastName employeeNumber')
+      .sort({ score: -1 });
+    return matches.filter(match => match.item);
+  }
+
+  /**
+   * Confirm a match: the item moves to `pending` pickup with the report as its
+   * claim, the report is marked FOUND, and competing suggestions for either
+   * side are rejected. The item is claimed with a conditional update inside
+   * the transaction, so two matches cannot claim the same item. `fromStatus`
+   * is the match status the decision was taken on.
+   */
+  private async confirm(match: IItemMatch, userId: Types.ObjectId, fromStatus = match.status): Promise<IItemMatch> {
+    const report: LostReport | null = await prisma.report.findFirst({
+      where: { id: match.reportId, reportType: 'LOST' }
+    });
+    if (!report) {
+      throw new ServiceError('Report not found', 404, 'REPORT_NOT_FOUND');
+    }
+    if (report.status !== 'PENDING') {
+      throw new ServiceError('Report is no longer pending', 409, 'REPORT_NOT_PENDING');
+    }
+
+    const now = new Date();
+    const item = await mongoose.connection.transaction(async (session) => {
+      const current = await LostItem.findById(match.item).session(session);
+      if (!current) {
+        throw new ServiceError('Item not found', 404, 'ITEM_NOT_FOUND');
+      }
+      itemStatusService.assertTransition(current.status, 'pending', { fields: { claimReport: match.reportId } });
+
+      const claimed = await LostItem.findOneAndUpdate(
+        { _id: match.item, status: current.status, claimReport: { $exists: false } },
+        { $set: { status: 'pending', claimReport: match.reportId } },
+        { new: true, session }
+      );
+      if (!claimed) {
+        throw new ServiceError('Item is not available to be claimed', 409, 'ITEM_NOT_AVAILABLE');
+      }
+
+      match.status = 'accepted';
+      match.decidedBy = userId;
+      match.decidedAt = now;
+      if (match.isNew) {
+        await match.save({ session });
+      } else {
+        const decided = await ItemMatch.updateOne(
+          { _id: match._id, status: fromStatus },
+          { $set: { status: match.status, decidedBy: userId, decidedAt: now, score: match.score, breakdown: match.breakdown } },
+          { session }
+        );
+        if (decided.matchedCount === 0) {
+          throw new ServiceError('Match has already been decided', 409, 'MATCH_ALREADY_DECIDED');
+        }
+      }
+
+      await ItemMatch.updateMany(
+        {
+          _id: { $ne: match._id },
+          status: 'suggested',
+          $or: [{ item: match.item }, { reportId: match.reportId }]
+        },
+        { $set: { status: 'rejected', decidedBy: userId, decidedAt: now, notes: 'Superseded by accepted match' } },
+        { session }
+      );
+
+      await itemHistoryService.record({
+        item: claimed._id as Types.ObjectId,
+        itemModel: 'LostItem',
+        action: 'updated',
+        performedBy: userId,
+        changes: itemHistoryService.diff(
+          { status: current.status, claimReport: current.claimReport },
+          { status: claimed.status, claimReport: claimed.claimReport }
+        ),
+        notes: `Matched to lost report #${match.reportId}`
+      }, session);
+
+      return claimed;
+    });
+
+    await prisma.report.update({
+      where: { id: match.reportId },
+      data: {
+        status: 'FOUND',
+        matchedItemId: String(item._id),
+        matchedAt: now,
+        updatedBy: userId.toString()
+      }
+    });
+
+    return match;
+  }
+
+  // A suggestion still awaiting a decision, for an item at one of the user's stations
+  private async findUndecided(matchId: string, user: RequestUser): Promise<IItemMatch> {
+    const match = await ItemMatch.findById(matchId);
+    if (!match) {
+      throw new ServiceError('Match not found', 404, 'MATCH_NOT_FOUND');
+    }
+    const item = await LostItem.findById(match.item).select('station');
+    if (item && !stationService.hasAccess(user, item.station)) {
+      throw new ServiceError('Access denied. This item belongs to another station', 403, 'STATION_ACCESS_DENIED');
+    }
+    if (match.status !== 'suggested') {
+      throw new ServiceError(`Match has already been ${match.status}`, 409, 'MATCH_ALREADY_DECIDED');
+    }
+    return match;
+  }
+
+  async acceptMatch(matchId: string, user: RequestUser): Promise<IItemMatch> {
+    const match = await this.findUndecided(matchId, user);
+    return this.confirm(match, user._id);
+  }
+
+  async rejectMatch(matchId: string, user: RequestUser, notes?: string): Promise<IItemMatch> {
+    const match = await this.findUndecided(matchId, user);
+
+    match.status = 'rejected';
+    match.decidedBy = user._id;
+    match.decidedAt = new Date();
+    match.notes = notes;
+    return match.save();
+  }
+
+  // Manually confirm a report against an item the engine did not suggest
+  async linkReportToItem(report: LostReport, item: ILostItem, userId: Types.ObjectId): Promise<IItemMatch> {
+    let match = await ItemMatch.findOne({ item: item._id, reportId: report.id });
+    if (match && match.status === 'accepted') {
+      throw new ServiceError('Report is already linked to this item', 409, 'MATCH_ALREADY_DECIDED');
+    }
+    if (!match) {
+      match = new ItemMatch({ item: item._id, reportId: report.id });
+    }
+
+    const fromStatus = match.status;
+    Object.assign(match, this.score(item, report));
+    return this.confirm(match, userId, fromStatus);
+  }
+
+  // Close the claim once the item has been handed over to the passenger
+  async completeClaim(item: ILostItem, userId: Types.ObjectId): Promise<void> {
+    if (!item.claimReport) {
+      return;
+    }
+    await prisma.report.update({
+      where: { id: item.claimReport },
+      data: { status: 'CLAIMED', updatedBy: userId.toString() }
+    });
+  }
+
+  /**
+   * Put a reserved item back on hand: the accepted match is rejected with the
+   * given reason and the passenger report reopened so it can be matched again.
+   */
+  async releaseClaim(item: ILostItem, userId: Types.ObjectId, reason: string): Promise<ILostItem> {
+    const reportId = item.claimReport;
+    const before = { status: item.status, claimReport: item.claimReport };
+    item.status = 'onHand';
+    item.claimReport = undefined;
+    await item.save();
+
+    await itemHistoryService.record({
+      item: item._id as Types.ObjectId,
+      itemModel: 'LostItem',
+      action: 'updated',
+      performedBy: userId,
+      changes: itemHistoryService.diff(before, { status: item.status, claimReport: item.claimReport }),
+      notes: `Claim released: ${reason}`
+    });
+
+    if (reportId) {
+      await ItemMatch.updateMany(
+        { item: item._id, reportId, status: 'accepted' },
+        { $set: { status: 'rejected', decidedBy: userId, decidedAt: new Date(), notes: reason } }
+      );
+      await prisma.report.update({
+        where: { id: reportId },
+        data: { status: 'PENDING', matchedItemId: null, matchedAt: null, updatedBy: userId.toString() }
+      });
+    }
+    return item;
+  }
+
+  // A reverted delivery puts the passenger's report back to awaiting pickup
+  async reopenClaim(item: ILostItem, userId: Types.ObjectId): Promise<void> {
+    if (!item.claimReport) {
+      return;
+    }
+    await prisma.report.update({
+      where: { id: item.claimReport },
+      data: { status: 'FOUND', updatedBy: userId.toString() }
+    });
+  }
+}
+
+export default new MatchingService();
@@ -0,0 +1,212 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import User, { IUser } from '../models/User';
+import { ServiceError } from '../utils/errors';
+import securityLogService from './securityLog.service';
+import sessionService from './session.service';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // Number of previous passwords that cannot be reused
+  historySize: number;
+}
+
+interface SetPasswordOptions {
+  // Administrator setting the password; the user then has to change it at next login
+  actor?: Types.ObjectId;
+  // Session to keep signed in, e.g. the one used to change the password
+  keepSessionId?: string;
+  reason: string;
+}
+
+const flag = (value: string | undefined, fallback: boolean): boolean => {
+  return value === undefined || value === '' ? fallback : value === 'true';
+};
+
+const hashToken = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+const getResetTokenTtlHours = (): number => Number(process.env.PASSWORD_RESET_TTL_HOURS) || 24;
+
+const invalidResetToken = () => new ServiceError('Password reset token is not valid or has expired', 400, 'INVALID_RESET_TOKEN');
+
+class PasswordService {
+  get policy(): PasswordPolicy {
+    return {
+      minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 10,
+      // bcrypt ignores everything after 72 bytes
+      maxLength: 72,
+      requireUppercase: flag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+      requireLowercase: flag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+      requireNumber: flag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+      requireSymbol: flag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+      historySize: Number(process.env.PASSWORD_HISTORY_SIZE ?? 5)
+    };
+  }
+
+  // Rules the password breaks, empty when it is acceptable
+  check(password: unknown, employeeNumber?: string): string[] {
+    const policy = this.policy;
+    if (typeof password !== 'string') {
+      return ['a password is required'];
+    }
+
+    const problems: string[] = [];
+    if (password.length < policy.minLength) {
+      problems.push(`at least ${policy.minLength} characters`);
+    }
+    if (Buffer.byteLength(password) > policy.maxLength) {
+      problems.push(`at most ${policy.maxLength} bytes`);
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      problems.push('an uppercase letter');
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      problems.push('a lowercase letter');
+    }
+    if (policy.requireNumber && !/\p{N}/u.test(password)) {
+      problems.push('a number');
+    }
+    if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+      problems.push('a symbol');
+    }
+    if (employeeNumber && password.toLowerCase().includes(employeeNumber.toLowerCase())) {
+      problems.push('no employee number in it');
+    }
+    return problems;
+  }
+
+  assertValid(password: unknown, employeeNumber?: string): string {
+    const problems = this.check(password, employeeNumber);
+    if (problems.length > 0) {
+      throw new ServiceError(`Password must have ${problems.join(', ')}`, 400, 'WEAK_PASSWORD');
+    }
+    return password as string;
+  }
+
+  // `user` must have been loaded with `+passwordHistory`
+  private async assertNotReused(user: IUser, password: string): Promise<void> {
+    const recent = [user.password, ...(user.passwordHistory || [])].slice(0, this.policy.historySize + 1);
+    for (const hash of recent) {
+      if (hash && await bcrypt.compare(password, hash)) {
+        throw new ServiceError(
+          `Password cannot be the same as any of the last ${this.policy.historySize} passwords`,
+          400,
+          'PASSWORD_REUSED'
+        );
+      }
+    }
+  }
+
+  private async loadForUpdate(userId: Types.ObjectId | string): Promise<IUser> {
+    const user = await User.findById(userId).select('+password +passwordHistory');
+    if (!user) {
+      throw new ServiceError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  /**
+   * Replace a user's password after checking it against the policy and the
+   * user's recent passwords. Open sessions are signed out, and any pending
+   * reset token stops working.
+   */
+  async setPassword(userId: Types.ObjectId | string, password: unknown, options: SetPasswordOptions): Promise<IUser> {
+    const user = await this.loadForUpdate(userId);
+    const newPassword = this.assertValid(password, user.employeeNumber);
+    await this.assertNotReused(user, newPassword);
+
+    if (this.policy.historySize > 0) {
+      user.passwordHistory = [user.password, ...(user.passwordHistory || [])].slice(0, this.policy.historySize);
+    }
+    user.password = newPassword;
+    user.passwordChangedAt = new Date();
+    user.mustChangePassword = !!options.actor && !(user._id as Types.ObjectId).equals(options.actor);
+    user.passwordResetTokenHash = undefined;
+    user.passwordResetExpiresAt = undefined;
+    user.passwordResetIssuedBy = undefined;
+    await user.save();
+
+    await sessionService.revokeAllForUser(user._id as Types.ObjectId, options.actor || null, options.reason, options.keepSessionId);
+    return user;
+  }
+
+  // Upgrade the stored hash to the configured work factor after a successful login
+  async rehashIfNeeded(user: IUser, password: string): Promise<void> {
+    if (!user.needsRehash()) {
+      return;
+    }
+    try {
+      user.password = password;
+      await user.save();
+    } catch (error) {
+      console.error('Error re-hashing password:', error);
+    }
+  }
+
+  /**
+   * Issue a one-time reset token on behalf of a user who forgot their
+   * password. The user is signed out everywhere and has to pick a new
+   * password with the token. Returns the token; only its hash is stored.
+   */
+  async issueResetToken(userId: Types.ObjectId | string, actor: Types.ObjectId): Promise<{ token: string; expiresAt: Date }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new ServiceError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + getResetTokenTtlHours() * 60 * 60 * 1000);
+    user.passwordResetTokenHash = hashToken(secret);
+    user.passwordResetExpiresAt = expiresAt;
+    user.passwordResetIssuedBy = actor;
+    user.mustChangePassword = true;
+    await user.save();
+
+    await sessionService.revokeAllForUser(user._id as Types.ObjectId, actor, 'Password reset issued');
+    await securityLogService.record({
+      type: 'password_reset_issued',
+      employeeNumber: user.employeeNumber,
+      user: user._id as Types.ObjectId,
+      actor,
+      details: { expiresAt }
+    });
+
+    return { token: `${user._id}.${secret}`, expiresAt };
+  }
+
+  // Set a new password with a reset token. The token can only be used once.
+  async resetWithToken(token: unknown, password: unknown, client: { ipAddress?: string; userAgent?: string } = {}): Promise<IUser> {
+    const [userId, secret] = typeof token === 'string' ? token.split('.') : [];
+    if (!userId || !secret || !Types.ObjectId.isValid(userId)) {
+      throw invalidResetToken();
+    }
+
+    const user = await User.findById(userId).select('+passwordResetTokenHash');
+    const expected = user?.passwordResetTokenHash;
+    const presented = hashToken(secret);
+    if (
+      !user || !expected || !user.passwordResetExpiresAt || user.passwordResetExpiresAt <= new Date() ||
+      !crypto.timingSafeEqual(Buffer.from(presented), Buffer.from(expected))
+    ) {
+      throw invalidResetToken();
+    }
+
+    const updated = await this.setPassword(user._id as Types.ObjectId, password, { reason: 'Password reset' });
+    await securityLogService.record({
+      type: 'password_reset',
+      employeeNumber: user.employeeNumber,
+      user: user._id as Types.ObjectId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent
+    });
+    return updated;
+  }
+}
+
+export default new PasswordService();
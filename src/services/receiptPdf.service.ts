@@ -0,0 +1,180 @@
+import PDFDocument from 'pdfkit';
+import DeliveredItem, { IDeliveredItem } from '../models/DeliveredItem';
+import LostItem from '../models/LostItem';
+import { generateCode, normalizeCode } from '../utils/codes';
+import {
+  BRAND_RED,
+  BRAND_BLACK,
+  MUTED,
+  PAGE_MARGIN,
+  formatDate,
+  userName,
+  decodeImageDataUri,
+  loadStoredImage,
+  thumbnailOf,
+  drawBrandHeader,
+  drawPageFooters
+} from '../utils/pdf';
+
+const MAX_RECEIPT_PHOTOS = 4;
+const PHOTO_SIZE = 110;
+const LABEL_WIDTH = 140;
+
+// Only the last characters of the receiver's ID number are printed
+const maskIdentification = (value?: string): string => {
+  if (!value) {
+    return '—';
+  }
+  const visible = value.slice(-4);
+  return `${'•'.repeat(Math.max(value.length - 4, 0))}${visible}`;
+};
+
+class ReceiptPdfService {
+  generateReceiptCode(): string {
+    return generateCode(12);
+  }
+
+  // Older deliveries predate receipt codes and get one on first download
+  async ensureReceiptCode(item: IDeliveredItem): Promise<string> {
+    if (item.receiptCode) {
+      return item.receiptCode;
+    }
+    const receiptCode = this.generateReceiptCode();
+    await DeliveredItem.updateOne({ _id: item._id, receiptCode: { $exists: false } }, { $set: { receiptCode } });
+    const updated = await DeliveredItem.findById(item._id).select('receiptCode');
+    item.receiptCode = updated?.receiptCode || receiptCode;
+    return item.receiptCode;
+  }
+
+  async findByCode(code: string): Promise<IDeliveredItem | null> {
+    return DeliveredItem.findOne({ receiptCode: normalizeCode(code) });
+  }
+
+  // Receipts of reverted deliveries stay in the item's delivery history
+  async isRevoked(code: string): Promise<boolean> {
+    const query = { 'deliveryHistory.receiptCode': normalizeCode(code) };
+    const [lost, delivered] = await Promise.all([LostItem.exists(query), DeliveredItem.exists(query)]);
+    return Boolean(lost || delivered);
+  }
+
+  private drawField(doc: PDFKit.PDFDocument, label: string, value: string) {
+    const top = doc.y;
+    const valueWidth = doc.page.width - PAGE_MARGIN * 2 - LABEL_WIDTH;
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(label, PAGE_MARGIN, top, { width: LABEL_WIDTH });
+    doc.font('Helvetica').fontSize(10).fillColor(BRAND_BLACK).text(value || '—', PAGE_MARGIN + LABEL_WIDTH, top, { width: valueWidth });
+    doc.y = Math.max(doc.y, top + 14) + 2;
+  }
+
+  private drawSection(doc: PDFKit.PDFDocument, title: string) {
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(BRAND_RED).text(title.toUpperCase(), PAGE_MARGIN);
+    doc.save()
+      .moveTo(PAGE_MARGIN, doc.y + 2)
+      .lineTo(doc.page.width - PAGE_MARGIN, doc.y + 2)
+      .stroke(BRAND_RED)
+      .restore();
+    doc.moveDown(0.5);
+  }
+
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      drawBrandHeader(doc, 'Delivery Receipt');
+    }
+  }
+
+  /**
+   * Render the signed proof-of-pickup receipt for a delivered item as a
+   * finished PDF document, ready to be piped to the response.
+   */
+  async generate(item: IDeliveredItem): Promise<PDFKit.PDFDocument> {
+    const receiptCode = await this.ensureReceiptCode(item);
+
+    const photoFiles = [...(item.images || []), ...(item.deliveryPhotos || [])]
+      .slice(0, MAX_RECEIPT_PHOTOS)
+      .map(image => thumbnailOf(image));
+    const signature = decodeImageDataUri(item.customerInfo.signature);
+    const photos = await Promise.all(photoFiles.map(file => loadStoredImage(file)));
+
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `Air Canada Lost & Found - Delivery Receipt ${receiptCode}` }
+    });
+
+    drawBrandHeader(doc, 'Delivery Receipt');
+
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED).text('Verification code', PAGE_MARGIN);
+    doc.font('Courier-Bold').fontSize(20).fillColor(BRAND_BLACK).text(receiptCode);
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED)
+      .text(`Issued ${new Date().toISOString()} · Delivery record ${item._id}`);
+
+    this.drawSection(doc, 'Item');
+    this.drawField(doc, 'Item', item.itemName);
+    this.drawField(doc, 'Description', item.description);
+    this.drawField(doc, 'Category', item.category);
+    this.drawField(doc, 'Flight', item.flightNumber);
+    this.drawField(doc, 'Found', `${formatDate(item.dateFound)} at ${item.location}`);
+    this.drawField(doc, 'Found by', userName(item.foundBy));
+
+    this.drawSection(doc, 'Receiver');
+    this.drawField(doc, 'Name', item.customerInfo.name);
+    this.drawField(doc, 'ID type', item.customerInfo.identificationType || 'Not recorded');
+    this.drawField(doc, 'ID number', maskIdentification(item.customerInfo.identification));
+    this.drawField(doc, 'Email', item.customerInfo.email);
+    this.drawField(doc, 'Phone', item.customerInfo.phone);
+
+    this.drawSection(doc, 'Delivery');
+    const agent = item.deliveredBy as any;
+    this.drawField(doc, 'Delivered by', agent && agent.employeeNumber
+      ? `${userName(agent)} (${agent.employeeNumber})`
+      : userName(agent));
+    this.drawField(doc, 'Delivered at', new Date(item.dateDelivered).toISOString());
+    if (item.deliveryNotes) {
+      this.drawField(doc, 'Notes', item.deliveryNotes);
+    }
+
+    const availablePhotos = photos.filter((photo): photo is Buffer => Boolean(photo));
+    if (availablePhotos.length > 0) {
+      this.ensureSpace(doc, PHOTO_SIZE + 40);
+      this.drawSection(doc, 'Photos');
+      const top = doc.y;
+      availablePhotos.forEach((photo, index) => {
+        try {
+          doc.image(photo, PAGE_MARGIN + index * (PHOTO_SIZE + 12), top, {
+            fit: [PHOTO_SIZE, PHOTO_SIZE],
+            align: 'center',
+            valign: 'center'
+          });
+        } catch (error) {
+          console.error('Error embedding receipt photo:', error);
+        }
+      });
+      doc.y = top + PHOTO_SIZE + 8;
+    }
+
+    this.ensureSpace(doc, 140);
+    this.drawSection(doc, 'Receiver signature');
+    const signatureTop = doc.y;
+    doc.save().rect(PAGE_MARGIN, signatureTop, 260, 90).stroke('#BBBBBB').restore();
+    if (signature) {
+      try {
+        doc.image(signature, PAGE_MARGIN + 5, signatureTop + 5, { fit: [250, 80], align: 'center', valign: 'center' });
+      } catch (error) {
+        console.error('Error embedding receipt signature:', error);
+      }
+    } else {
+      doc.font('Helvetica-Oblique').fontSize(9).fillColor(MUTED)
+        .text('Signature image unavailable', PAGE_MARGIN + 10, signatureTop + 40);
+    }
+    doc.font('Helvetica').fontSize(9).fillColor(BRAND_BLACK)
+      .text(item.customerInfo.name, PAGE_MARGIN, signatureTop + 96);
+
+    drawPageFooters(doc, `Verify with code ${receiptCode}`);
+    doc.end();
+    return doc;
+  }
+}
+
+export default new ReceiptPdfService();
@@ -0,0 +1,309 @@
+import PDFDocument from 'pdfkit';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import { escapeRegex } from '../utils/text';
+import { parseFlightNumber, formatFlightNumber, normalizeAirportCode, routeOf } from '../utils/flights';
+import { parseDate } from '../utils/itemFilters';
+import { StoredFileRef } from './storage/types';
+import {
+  BRAND_RED,
+  BRAND_BLACK,
+  MUTED,
+  PAGE_MARGIN,
+  formatDate,
+  userName,
+  loadStoredImage,
+  thumbnailOf,
+  drawBrandHeader,
+  drawPageFooters
+} from '../utils/pdf';
+
+export type ReportType = 'delivered' | 'inHand';
+
+export type ReportGrouping = 'route';
+
+export interface ReportFilters {
+  reportType: ReportType;
+  from?: string;
+  to?: string;
+  // LostItem status for inHand reports; `active` or `archived` for delivered reports
+  status?: string;
+  flightNumber?: string;
+  // IATA airport codes of the flight the item was found on
+  origin?: string;
+  destination?: string;
+  category?: string;
+  // Station ids or codes as requested, shown in the report header
+  station?: string;
+  // Query condition limiting the report to the stations the author may see
+  stationScope?: Record<string, any>;
+  includePhotos?: boolean;
+  // Items are listed under a heading per group, with a count per group in the summary
+  groupBy?: ReportGrouping;
+}
+
+interface ReportAuthor {
+  firstName: string;
+  lastName: string;
+  employeeNumber: string;
+}
+
+interface ReportRow {
+  itemName: string;
+  description: string;
+  category: string;
+  flightNumber: string;
+  // `YUL-YVR`, empty when the flight's route is unknown
+  route: string;
+  location: string;
+  dateFound: Date;
+  foundBy: string;
+  status?: string;
+  receiverName?: string;
+  dateDelivered?: Date;
+  deliveredBy?: string;
+  thumbnailFile?: StoredFileRef;
+  thumbnail?: Buffer;
+}
+
+const ROW_HEIGHT = 64;
+const THUMBNAIL_SIZE = 52;
+const GROUP_HEADING_HEIGHT = 20;
+
+// Hard cap so a missing filter can't produce an unbounded document
+const MAX_REPORT_ROWS = 2000;
+const THUMBNAIL_CONCURRENCY = 8;
+
+const UNKNOWN_ROUTE = 'Route unknown';
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  delivered: 'Delivered Items Report',
+  inHand: 'Items On Hand Report'
+};
+
+class ReportPdfService {
+  private parseDateRange(filters: ReportFilters): Record<string, Date> | null {
+    const range: Record<string, Date> = {};
+    for (const [key, operator] of [['from', '$gte'], ['to', '$lte']] as const) {
+      const value = filters[key];
+      if (!value) {
+        continue;
+      }
+      range[operator] = parseDate(value, key);
+    }
+    return Object.keys(range).length > 0 ? range : null;
+  }
+
+  private buildQuery(filters: ReportFilters, dateField: string): Record<string, any> {
+    const query: Record<string, any> = { ...filters.stationScope };
+    const range = this.parseDateRange(filters);
+    if (range) {
+      query[dateField] = range;
+    }
+    if (filters.flightNumber) {
+      const flight = parseFlightNumber(filters.flightNumber);
+      query.flightNumber = flight
+        ? formatFlightNumber(flight)
+        : { $regex: `^\\s*${escapeRegex(filters.flightNumber.trim())}\\s*$`, $options: 'i' };
+    }
+    for (const field of ['origin', 'destination'] as const) {
+      const code = filters[field];
+      if (code) {
+        query[field] = normalizeAirportCode(code, field);
+      }
+    }
+    if (filters.category) {
+      query.category = { $regex: `^${escapeRegex(filters.category.trim())}$`, $options: 'i' };
+    }
+    return query;
+  }
+
+  async collect(filters: ReportFilters): Promise<ReportRow[]> {
+    if (filters.reportType === 'inHand') {
+      const query = this.buildQuery(filters, 'dateFound');
+      query.status = filters.status ? { $in: filters.status.split(',') } : { $in: ['onHand', 'pending', 'inTransit'] };
+
+      const items = await LostItem.find(query)
+        .sort({ dateFound: 1 })
+        .limit(MAX_REPORT_ROWS);
+
+      return items.map(item => ({
+        itemName: item.itemName,
+        description: item.description,
+        category: item.category,
+        flightNumber: item.flightNumber,
+        route: routeOf(item.origin, item.destination),
+        location: item.location,
+        dateFound: item.dateFound,
+        foundBy: userName(item.foundBy),
+        status: item.status,
+        thumbnailFile: thumbnailOf(item.images[0])
+      }));
+    }
+
+    const query = this.buildQuery(filters, 'dateDelivered');
+    query.archived = filters.status === 'archived' ? true : { $ne: true };
+
+    const items = await DeliveredItem.find(query)
+      .sort({ dateDelivered: 1 })
+      .limit(MAX_REPORT_ROWS);
+
+    return items.map(item => ({
+      itemName: item.itemName,
+      description: item.description,
+      category: item.category,
+      flightNumber: item.flightNumber,
+      route: routeOf(item.origin, item.destination),
+      location: item.location,
+      dateFound: item.dateFound,
+      foundBy: userName(item.foundBy),
+      receiverName: item.customerInfo?.name,
+      dateDelivered: item.dateDelivered,
+      deliveredBy: userName(item.deliveredBy),
+      thumbnailFile: thumbnailOf(item.images[0])
+    }));
+  }
+
+  private async loadThumbnails(rows: ReportRow[]): Promise<void> {
+    const pending = rows.filter(row => row.thumbnailFile);
+    for (let i = 0; i < pending.length; i += THUMBNAIL_CONCURRENCY) {
+      await Promise.all(pending.slice(i, i + THUMBNAIL_CONCURRENCY).map(async row => {
+        row.thumbnail = await loadStoredImage(row.thumbnailFile);
+      }));
+    }
+  }
+
+  private drawSummary(doc: PDFKit.PDFDocument, rows: ReportRow[], filters: ReportFilters, author: ReportAuthor) {
+    const byCategory = new Map<string, number>();
+    for (const row of rows) {
+      byCategory.set(row.category, (byCategory.get(row.category) || 0) + 1);
+    }
+
+    const appliedFilters = [
+      filters.from && `from ${filters.from}`,
+      filters.to && `to ${filters.to}`,
+      filters.status && `status ${filters.status}`,
+      filters.flightNumber && `flight ${filters.flightNumber}`,
+      filters.origin && `from ${filters.origin}`,
+      filters.destination && `to ${filters.destination}`,
+      filters.category && `category ${filters.category}`,
+      filters.station && `station ${filters.station}`
+    ].filter(Boolean);
+
+    doc.fontSize(9).fillColor(MUTED)
+      .text(`Generated ${new Date().toISOString()} by ${author.firstName} ${author.lastName} (${author.employeeNumber})`, PAGE_MARGIN)
+      .text(`Filters: ${appliedFilters.length > 0 ? appliedFilters.join(', ') : 'none'}`);
+
+    doc.moveDown(0.5).fontSize(12).fillColor(BRAND_BLACK).font('Helvetica-Bold')
+      .text(`Total items: ${rows.length}`);
+    doc.font('Helvetica').fontSize(9);
+    Array.from(byCategory.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([category, count]) => doc.text(`${category}: ${count}`));
+
+    if (filters.groupBy === 'route') {
+      const byRoute = new Map<string, number>();
+      for (const row of rows) {
+        const route = row.route || UNKNOWN_ROUTE;
+        byRoute.set(route, (byRoute.get(route) || 0) + 1);
+      }
+      doc.moveDown(0.5).font('Helvetica-Bold').text('By route');
+      doc.font('Helvetica');
+      Array.from(byRoute.entries())
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([route, count]) => doc.text(`${route}: ${count}`));
+    }
+
+    if (rows.length === MAX_REPORT_ROWS) {
+      doc.fillColor(BRAND_RED).text(`Report truncated to the first ${MAX_REPORT_ROWS} items. Narrow the filters for a complete report.`);
+    }
+    doc.moveDown();
+  }
+
+  private drawGroupHeading(doc: PDFKit.PDFDocument, label: string) {
+    const top = doc.y;
+    doc.fillColor(BRAND_RED).font('Helvetica-Bold').fontSize(11).text(label, PAGE_MARGIN, top);
+    doc.y = top + GROUP_HEADING_HEIGHT;
+  }
+
+  private drawRow(doc: PDFKit.PDFDocument, row: ReportRow, reportType: ReportType) {
+    const top = doc.y;
+    const textLeft = PAGE_MARGIN + THUMBNAIL_SIZE + 12;
+    const textWidth = doc.page.width - textLeft - PAGE_MARGIN;
+
+    if (row.thumbnail) {
+      try {
+        doc.image(row.thumbnail, PAGE_MARGIN, top, { fit: [THUMBNAIL_SIZE, THUMBNAIL_SIZE], align: 'center', valign: 'center' });
+      } catch (error) {
+        console.error('Error embedding report thumbnail:', error);
+      }
+    } else {
+      doc.save().rect(PAGE_MARGIN, top, THUMBNAIL_SIZE, THUMBNAIL_SIZE).stroke('#DDDDDD').restore();
+    }
+
+    const details = reportType === 'delivered'
+      ? `Delivered ${formatDate(row.dateDelivered)} to ${row.receiverName || '—'} by ${row.deliveredBy}`
+      : `Status ${row.status} · found by ${row.foundBy}`;
+
+    doc.fillColor(BRAND_BLACK).font('Helvetica-Bold').fontSize(10)
+      .text(row.itemName || row.description, textLeft, top, { width: textWidth, lineBreak: false, ellipsis: true });
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED)
+      .text(`${row.category} · Flight ${row.flightNumber}${row.route ? ` (${row.route})` : ''} · Found ${formatDate(row.dateFound)} at ${row.location}`, textLeft, top + 14, { width: textWidth, lineBreak: false, ellipsis: true })
+      .text(details, textLeft, top + 26, { width: textWidth, lineBreak: false, ellipsis: true })
+      .text(row.description, textLeft, top + 38, { width: textWidth, lineBreak: false, ellipsis: true });
+
+    doc.save()
+      .moveTo(PAGE_MARGIN, top + ROW_HEIGHT - 6)
+      .lineTo(doc.page.width - PAGE_MARGIN, top + ROW_HEIGHT - 6)
+      .stroke('#EEEEEE')
+      .restore();
+    doc.y = top + ROW_HEIGHT;
+  }
+
+  /**
+   * Query the database for the requested report and render it as a finished
+   * PDF document, ready to be piped to the response.
+   */
+  async generate(filters: ReportFilters, author: ReportAuthor): Promise<PDFKit.PDFDocument> {
+    const rows = await this.collect(filters);
+    if (filters.groupBy === 'route') {
+      // Stable sort keeps each route's items in date order, unknown routes last
+      rows.sort((a, b) => (a.route || '~').localeCompare(b.route || '~'));
+    }
+    if (filters.includePhotos !== false) {
+      await this.loadThumbnails(rows);
+    }
+
+    const title = REPORT_TITLES[filters.reportType];
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `Air Canada Lost & Found - ${title}`, Author: `${author.firstName} ${author.lastName}` }
+    });
+
+    drawBrandHeader(doc, title);
+    this.drawSummary(doc, rows, filters, author);
+
+    let group: string | undefined;
+    for (const row of rows) {
+      const rowGroup = filters.groupBy === 'route' ? row.route || UNKNOWN_ROUTE : undefined;
+      const heading = rowGroup !== group ? GROUP_HEADING_HEIGHT : 0;
+      if (doc.y + heading + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+        drawBrandHeader(doc, title);
+      }
+      if (rowGroup !== group) {
+        group = rowGroup;
+        this.drawGroupHeading(doc, group!);
+      }
+      this.drawRow(doc, row, filters.reportType);
+    }
+
+    drawPageFooters(doc);
+    doc.end();
+    return doc;
+  }
+}
+
+export default new ReportPdfService();
@@ -0,0 +1,239 @@
+import mongoose, { Types, ClientSession } from 'mongoose';
+import LostItem, { ILostItem } from '../models/LostItem';
+import RetentionPolicy, { IRetentionPolicy } from '../models/RetentionPolicy';
+import DisposalBatch, { IDisposalBatch, DisposalMethod } from '../models/DisposalBatch';
+import Transfer from '../models/Transfer';
+import itemHistoryService from './itemHistory.service';
+import itemStatusService from './itemStatus.service';
+import storageLocationService from './storageLocation.service';
+import { ServiceError } from '../utils/errors';
+import { generateCode } from '../utils/codes';
+
+export const DISPOSAL_METHODS: DisposalMethod[] = ['donated', 'destroyed', 'returned_to_police'];
+
+export const DEFAULT_POLICY_CATEGORY = 'default';
+
+// Used when no `default` policy has been stored
+const FALLBACK_RETENTION_DAYS = Number(process.env.DEFAULT_RETENTION_DAYS) || 90;
+
+// Seeded on first use so the queue works before an admin configures anything
+const DEFAULT_POLICIES = [
+  { category: DEFAULT_POLICY_CATEGORY, retentionDays: FALLBACK_RETENTION_DAYS, description: 'General items' },
+  { category: 'perishables', retentionDays: 30, description: 'Food and other perishable items' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DisposalCandidate {
+  item: ILostItem;
+  retentionDays: number;
+  daysHeld: number;
+  eligibleSince: Date;
+}
+
+interface CreateBatchInput {
+  itemIds: string[];
+  method: DisposalMethod;
+  recipient?: string;
+  reference?: string;
+  notes?: string;
+}
+
+class RetentionService {
+  async getPolicies(): Promise<IRetentionPolicy[]> {
+    const count = await RetentionPolicy.countDocuments();
+    if (count === 0) {
+      await RetentionPolicy.insertMany(DEFAULT_POLICIES);
+    }
+    return RetentionPolicy.find().sort({ category: 1 });
+  }
+
+  async upsertPolicy(category: string, retentionDays: number, description: string | undefined, userId: Types.ObjectId) {
+    return RetentionPolicy.findOneAndUpdate(
+      { category: category.trim().toLowerCase() },
+      { $set: { retentionDays, description, updatedBy: userId } },
+      { upsert: true, new: true, runValidators: true }
+    );
+  }
+
+  async deletePolicy(category: string): Promise<boolean> {
+    const normalized = category.trim().toLowerCase();
+    if (normalized === DEFAULT_POLICY_CATEGORY) {
+      throw new ServiceError('The default retention policy cannot be deleted', 400, 'DEFAULT_POLICY_REQUIRED');
+    }
+    const result = await RetentionPolicy.deleteOne({ category: normalized });
+    return result.deletedCount > 0;
+  }
+
+  retentionDaysFor(category: string, policies: IRetentionPolicy[]): number {
+    const byCategory = new Map(policies.map(policy => [policy.category, policy.retentionDays]));
+    return byCategory.get((category || '').trim().toLowerCase())
+      ?? byCategory.get(DEFAULT_POLICY_CATEGORY)
+      ?? FALLBACK_RETENTION_DAYS;
+  }
+
+  private toCandidate(item: ILostItem, policies: IRetentionPolicy[], now: Date): DisposalCandidate {
+    const retentionDays = this.retentionDaysFor(item.category, policies);
+    const foundAt = new Date(item.dateFound).getTime();
+    return {
+      item,
+      retentionDays,
+      daysHeld: Math.floor((now.getTime() - foundAt) / DAY_MS),
+      eligibleSince: new Date(foundAt + retentionDays * DAY_MS)
+    };
+  }
+
+  /**
+   * Items on hand past their category's retention period that are not
+   * awaiting a passenger claim or already part of an open disposal batch or
+   * a transfer being prepared. `scope` limits the queue to the caller's
+   * stations.
+   */
+  async getDisposalQueue(scope: Record<string, any> = {}): Promise<DisposalCandidate[]> {
+    const policies = await this.getPolicies();
+    const now = new Date();
+    const shortestRetention = Math.min(...policies.map(policy => policy.retentionDays), FALLBACK_RETENTION_DAYS);
+
+    const [openBatches, openTransfers] = await Promise.all([
+      DisposalBatch.find({ status: 'pending_approval' }).select('items.item'),
+      Transfer.find({ status: 'preparing' }).select('items.item')
+    ]);
+    const batchedIds = [...openBatches, ...openTransfers].flatMap(batch => batch.items.map(entry => entry.item));
+
+    const items = await LostItem.find({
+      ...scope,
+      _id: { $nin: batchedIds },
+      status: 'onHand',
+      claimReport: { $exists: false },
+      dateFound: { $lte: new Date(now.getTime() - shortestRetention * DAY_MS) }
+    }).sort({ dateFound: 1 });
+
+    return items
+      .map(item => this.toCandidate(item, policies, now))
+      .filter(candidate => candidate.eligibleSince <= now);
+  }
+
+  async createBatch(input: CreateBatchInput, userId: Types.ObjectId, scope: Record<string, any> = {}): Promise<IDisposalBatch> {
+    if (!DISPOSAL_METHODS.includes(input.method)) {
+      throw new ServiceError(`Method must be one of ${DISPOSAL_METHODS.join(', ')}`, 400, 'INVALID_METHOD');
+    }
+    if (!Array.isArray(input.itemIds) || input.itemIds.length === 0) {
+      throw new ServiceError('At least one item is required', 400, 'NO_ITEMS');
+    }
+    if (input.itemIds.some(id => !Types.ObjectId.isValid(id))) {
+      throw new ServiceError('Invalid item id', 400, 'INVALID_ID');
+    }
+
+    const eligible = new Map(
+      (await this.getDisposalQueue(scope)).map(candidate => [String(candidate.item._id), candidate])
+    );
+    const ineligible = input.itemIds.filter(id => !eligible.has(id));
+    if (ineligible.length > 0) {
+      throw new ServiceError(
+        `Items are not eligible for disposal: ${ineligible.join(', ')}`,
+        409,
+        'ITEMS_NOT_ELIGIBLE'
+      );
+    }
+
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    return DisposalBatch.create({
+      batchNumber: `DSP-${today}-${generateCode(4)}`,
+      method: input.method,
+      recipient: input.recipient,
+      reference: input.reference,
+      notes: input.notes,
+      createdBy: userId,
+      items: Array.from(new Set(input.itemIds)).map(id => {
+        const { item, daysHeld, retentionDays } = eligible.get(id)!;
+        return {
+          item: item._id,
+          itemName: item.itemName,
+          description: item.description,
+          category: item.category,
+          flightNumber: item.flightNumber,
+          location: item.location,
+          station: item.station,
+          dateFound: item.dateFound,
+          daysHeld,
+          retentionDays
+        };
+      })
+    });
+  }
+
+  private async findPendingBatch(batchId: string, session?: ClientSession): Promise<IDisposalBatch> {
+    const batch = await DisposalBatch.findById(batchId).session(session ?? null);
+    if (!batch) {
+      throw new ServiceError('Disposal batch not found', 404, 'BATCH_NOT_FOUND');
+    }
+    if (batch.status !== 'pending_approval') {
+      throw new ServiceError(`Disposal batch has already been ${batch.status}`, 409, 'BATCH_ALREADY_REVIEWED');
+    }
+    return batch;
+  }
+
+  /**
+   * Supervisor sign-off: archives every item in the batch and records the
+   * disposal on the item and in its history, in one transaction. The approver
+   * must not be the agent who prepared the batch.
+   */
+  async approveBatch(batchId: string, userId: Types.ObjectId): Promise<IDisposalBatch> {
+    return mongoose.connection.transaction(async (session) => {
+      const batch = await this.findPendingBatch(batchId, session);
+      if (batch.createdBy.toString() === userId.toString()) {
+        throw new ServiceError('A disposal batch must be approved by someone other than its creator', 403, 'SELF_APPROVAL');
+      }
+
+      const items = await LostItem.find({ _id: { $in: batch.items.map(entry => entry.item) } }).session(session);
+      const unavailable = items.filter(item => item.status !== 'onHand' || item.claimReport);
+      if (items.length !== batch.items.length || unavailable.length > 0) {
+        throw new ServiceError('Some items in the batch are no longer on hand', 409, 'ITEMS_NOT_ELIGIBLE');
+      }
+
+      const now = new Date();
+      for (const item of items) {
+        const before = { status: item.status };
+        item.status = 'archived';
+        item.storageLocation = undefined;
+        item.disposal = {
+          batch: batch._id as Types.ObjectId,
+          method: batch.method,
+          disposedAt: now,
+          approvedBy: userId
+        };
+        itemStatusService.assertTransition(before.status, 'archived', { fields: item.toObject() });
+        await item.save({ session });
+
+        await itemHistoryService.record({
+          item: item._id as Types.ObjectId,
+          itemModel: 'LostItem',
+          action: 'disposed',
+          performedBy: userId,
+          changes: itemHistoryService.diff(before, { status: item.status }),
+          notes: `Disposal batch ${batch.batchNumber} (${batch.method})`
+        }, session);
+      }
+      await storageLocationService.release(items.map(item => item._id as Types.ObjectId), userId, 'disposed', session);
+
+      batch.status = 'approved';
+      batch.reviewedBy = userId;
+      batch.reviewedAt = now;
+      return batch.save({ session });
+    });
+  }
+
+  async rejectBatch(batchId: string, userId: Types.ObjectId, reason: string): Promise<IDisposalBatch> {
+    if (!reason) {
+      throw new ServiceError('A rejection reason is required', 400, 'REASON_REQUIRED');
+    }
+    const batch = await this.findPendingBatch(batchId);
+    batch.status = 'rejected';
+    batch.reviewedBy = userId;
+    batch.reviewedAt = new Date();
+    batch.rejectionReason = reason;
+    return batch.save();
+  }
+}
+
+export default new RetentionService();
@@ -0,0 +1,177 @@
+import { Model } from 'mongoose';
+import LostItem from '../models/LostItem';
+import DeliveredItem from '../models/DeliveredItem';
+import { ServiceError } from '../utils/errors';
+import { escapeRegex } from '../utils/text';
+import { ListOptions } from '../utils/pagination';
+
+export type SearchScope = 'lost' | 'delivered' | 'all';
+
+export const SEARCH_SCOPES: SearchScope[] = ['lost', 'delivered', 'all'];
+
+export interface Highlight {
+  field: string;
+  snippet: string;
+  // Offsets of matched terms within `snippet`
+  ranges: { start: number; end: number }[];
+}
+
+export interface SearchHit {
+  type: 'lost' | 'delivered';
+  score: number;
+  highlights: Highlight[];
+  item: Record<string, any>;
+}
+
+const LOST_FIELDS = ['itemName', 'flightNumber', 'category', 'description', 'location'];
+const DELIVERED_FIELDS = [...LOST_FIELDS, 'customerInfo.name', 'customerInfo.email'];
+
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+const SNIPPET_CONTEXT = 40;
+const MAX_TERMS = 10;
+
+const getField = (item: Record<string, any>, path: string): unknown => {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), item);
+};
+
+class SearchService {
+  parseScope(value: unknown, fallback: SearchScope): SearchScope {
+    if (value === undefined || value === '') {
+      return fallback;
+    }
+    if (!SEARCH_SCOPES.includes(value as SearchScope)) {
+      throw new ServiceError(`scope must be one of ${SEARCH_SCOPES.join(', ')}`, 400, 'INVALID_SCOPE');
+    }
+    return value as SearchScope;
+  }
+
+  /**
+   * Reduce user input to plain search words. Quotes and leading dashes are
+   * operators in MongoDB text search, so punctuation around each word is
+   * stripped rather than passed through.
+   */
+  parseTerms(term: string): string[] {
+    const terms = (term || '')
+      .split(/\s+/)
+      .map(token => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+      .filter(token => token.length > 0)
+      .slice(0, MAX_TERMS);
+
+    if (terms.length === 0) {
+      throw new ServiceError('A search term is required', 400, 'INVALID_SEARCH_TERM');
+    }
+    return terms;
+  }
+
+  highlight(item: Record<string, any>, terms: string[], fields: string[]): Highlight[] {
+    const pattern = new RegExp(`\\b(?:${terms.map(escapeRegex).join('|')})\\w*`, 'gi');
+    const highlights: Highlight[] = [];
+
+    for (const field of fields) {
+      const value = getField(item, field);
+      if (typeof value !== 'string' || !value) {
+        continue;
+      }
+
+      const matches: { index: number; length: number }[] = [];
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(value)) !== null) {
+        matches.push({ index: match.index, length: match[0].length });
+      }
+      if (matches.length === 0) {
+        continue;
+      }
+
+      const first = matches[0];
+      const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+      const end = Math.min(value.length, first.index + first.length + SNIPPET_CONTEXT * 2);
+      const prefix = start > 0 ? '…' : '';
+      const suffix = end < value.length ? '…' : '';
+
+      highlights.push({
+        field,
+        snippet: `${prefix}${value.slice(start, end)}${suffix}`,
+        ranges: matches
+          .filter(entry => entry.index >= start && entry.index + entry.length <= end)
+          .map(entry => ({
+            start: entry.index - start + prefix.length,
+            end: entry.index - start + prefix.length + entry.length
+          }))
+      });
+    }
+
+    return highlights;
+  }
+
+  private async searchModel(
+    model: Model<any>,
+    type: SearchHit['type'],
+    fields: string[],
+    terms: string[],
+    filters: Record<string, any>,
+    options: ListOptions,
+    sortByRelevance: boolean,
+    window: { skip: number; limit: number }
+  ): Promise<{ hits: SearchHit[]; total: number }> {
+    const query = { ...filters, $text: { $search: terms.join(' ') } };
+    const sort = sortByRelevance ? { score: { $meta: 'textScore' }, _id: -1 } : options.sort;
+
+    let find = model.find(query, { score: { $meta: 'textScore' } }).populate('foundBy', USER_FIELDS);
+    if (type === 'delivered') {
+      find = find.populate('deliveredBy', USER_FIELDS);
+    }
+
+    const [total, items] = await Promise.all([
+      model.countDocuments(query),
+      find.sort(sort as any).skip(window.skip).limit(window.limit)
+    ]);
+
+    const hits = items.map(doc => {
+      const item = doc.toObject();
+      const score = item.score || 0;
+      delete item.score;
+      return { type, score, highlights: this.highlight(item, terms, fields), item };
+    });
+
+    return { hits, total };
+  }
+
+  /**
+   * Relevance-ranked search over lost items, delivered items or both. When
+   * both are searched each collection returns enough results to fill the
+   * requested page and the merged list is cut down to it.
+   */
+  async search(
+    term: string,
+    scope: SearchScope,
+    filters: { lost?: Record<string, any>; delivered?: Record<string, any> },
+    options: ListOptions,
+    sortByRelevance = true
+  ): Promise<{ hits: SearchHit[]; total: number }> {
+    const terms = this.parseTerms(term);
+
+    if (scope === 'lost') {
+      return this.searchModel(LostItem, 'lost', LOST_FIELDS, terms, filters.lost || {}, options, sortByRelevance, options);
+    }
+    if (scope === 'delivered') {
+      return this.searchModel(DeliveredItem, 'delivered', DELIVERED_FIELDS, terms, filters.delivered || {}, options, sortByRelevance, options);
+    }
+
+    // Sorting by anything other than relevance only makes sense within one collection
+    const window = { skip: 0, limit: options.skip + options.limit };
+    const [lost, delivered] = await Promise.all([
+      this.searchModel(LostItem, 'lost', LOST_FIELDS, terms, filters.lost || {}, options, true, window),
+      this.searchModel(DeliveredItem, 'delivered', DELIVERED_FIELDS, terms, filters.delivered || {}, options, true, window)
+    ]);
+
+    const hits = [...lost.hits, ...delivered.hits]
+      .sort((a, b) => b.score - a.score)
+      .slice(options.skip, options.skip + options.limit);
+
+    return { hits, total: lost.total + delivered.total };
+  }
+}
+
+export default new SearchService();
@@ -0,0 +1,42 @@
+import { Types } from 'mongoose';
+import SecurityEvent, { ISecurityEvent, SecurityEventType } from '../models/SecurityEvent';
+import { ListOptions } from '../utils/pagination';
+
+interface RecordSecurityEventInput {
+  type: SecurityEventType;
+  employeeNumber?: string;
+  user?: Types.ObjectId | string;
+  ipAddress?: string;
+  userAgent?: string;
+  actor?: Types.ObjectId | string;
+  details?: Record<string, unknown>;
+}
+
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+class SecurityLogService {
+  // Failing to write the log must not block the request that triggered it
+  async record(input: RecordSecurityEventInput): Promise<ISecurityEvent | null> {
+    try {
+      return await SecurityEvent.create(input);
+    } catch (error) {
+      console.error('Error recording security event:', error);
+      return null;
+    }
+  }
+
+  async list(filters: Record<string, any>, options: ListOptions): Promise<{ events: ISecurityEvent[]; total: number }> {
+    const [events, total] = await Promise.all([
+      SecurityEvent.find(filters)
+        .populate('user', USER_FIELDS)
+        .populate('actor', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      SecurityEvent.countDocuments(filters)
+    ]);
+    return { events, total };
+  }
+}
+
+export default new SecurityLogService();
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import { ServiceError } from '../utils/errors';
+
+export interface AccessTokenPayload {
+  id: string;
+  employeeNumber: string;
+  role: string;
+  // Session the token was issued for; revoking the session invalidates the token
+  sid: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  // Lifetime of `token` in seconds
+  expiresIn: number;
+  sessionId: string;
+}
+
+export interface SessionClient {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+interface TokenUser {
+  _id: unknown;
+  employeeNumber: string;
+  role: string;
+}
+
+// Tokens are never signed or verified with a default secret anyone could look up
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+};
+
+const getAccessTokenTtl = (): number => (Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15) * 60;
+
+// Refresh tokens expire after this long without being used
+const getRefreshTokenTtl = (): number => (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60;
+
+const hashToken = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+const sameHash = (a: string, b?: string): boolean => {
+  return !!b && a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+};
+
+const revocation = (revokedBy: Types.ObjectId | null, reason?: string) => ({
+  revokedAt: new Date(),
+  ...(revokedBy && { revokedBy }),
+  ...(reason && { revokedReason: reason })
+});
+
+const invalidRefreshToken = () => new ServiceError('Refresh token is not valid', 401, 'INVALID_REFRESH_TOKEN');
+
+class SessionService {
+  private signAccessToken(user: TokenUser, sessionId: string): string {
+    const payload: AccessTokenPayload = {
+      id: String(user._id),
+      employeeNumber: user.employeeNumber,
+      role: user.role,
+      sid: sessionId
+    };
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: getAccessTokenTtl() });
+  }
+
+  // Refresh tokens are `<session id>.<secret>` so the session can be found without scanning hashes
+  private issueTokens(user: TokenUser, session: ISession, secret: string): SessionTokens {
+    const sessionId = String(session._id);
+    return {
+      token: this.signAccessToken(user, sessionId),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn: getAccessTokenTtl(),
+      sessionId
+    };
+  }
+
+  verifyAccessToken(token: string): AccessTokenPayload {
+    return jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+  }
+
+  // Start a session for a user who has just authenticated
+  async create(user: TokenUser, client: SessionClient = {}): Promise<SessionTokens> {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const session = await Session.create({
+      user: user._id,
+      refreshTokenHash: hashToken(secret),
+      deviceName: client.deviceName,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + getRefreshTokenTtl() * 1000)
+    });
+    return this.issueTokens(user, session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * The presented token stops working. Presenting the token it replaced means
+   * one of the two copies was stolen, so the whole session is revoked.
+   */
+  async refresh(refreshToken: unknown, client: SessionClient = {}): Promise<SessionTokens> {
+    const [sessionId, secret] = typeof refreshToken === 'string' ? refreshToken.split('.') : [];
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      throw invalidRefreshToken();
+    }
+
+    const session = await Session.findById(sessionId).populate<{ user: TokenUser | null }>('user', 'employeeNumber role');
+    if (!session || session.revokedAt || session.expiresAt <= new Date() || !session.user) {
+      throw invalidRefreshToken();
+    }
+
+    const presented = hashToken(secret);
+    if (sameHash(presented, session.previousRefreshTokenHash)) {
+      await this.revoke(sessionId, null, 'Refresh token reused');
+      throw new ServiceError('Refresh token was already used; the session has been revoked', 401, 'REFRESH_TOKEN_REUSED');
+    }
+    if (!sameHash(presented, session.refreshTokenHash)) {
+      throw invalidRefreshToken();
+    }
+
+    const nextSecret = crypto.randomBytes(32).toString('base64url');
+    // Conditional on the current hash so two concurrent refreshes cannot both succeed
+    const rotated = await Session.findOneAndUpdate(
+      { _id: session._id, refreshTokenHash: session.refreshTokenHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          refreshTokenHash: hashToken(nextSecret),
+          previousRefreshTokenHash: session.refreshTokenHash,
+          lastUsedAt: new Date(),
+          expiresAt: new Date(Date.now() + getRefreshTokenTtl() * 1000),
+          ...(client.userAgent && { userAgent: client.userAgent }),
+          ...(client.ipAddress && { ipAddress: client.ipAddress })
+        }
+      },
+      { new: true }
+    );
+    if (!rotated) {
+      throw invalidRefreshToken();
+    }
+
+    return this.issueTokens(session.user, rotated, nextSecret);
+  }
+
+  // Whether access tokens issued to the user for the session are still honoured
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await Session.findById(sessionId).select('user revokedAt expiresAt');
+    return !!session && String(session.user) === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  async listForUser(userId: Types.ObjectId | string): Promise<ISession[]> {
+    return Session.find({ user: userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .select('-refreshTokenHash -previousRefreshTokenHash')
+      .sort({ lastUsedAt: -1 });
+  }
+
+  async findById(sessionId: string): Promise<ISession | null> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+    return Session.findById(sessionId).select('-refreshTokenHash -previousRefreshTokenHash');
+  }
+
+  // Returns false when the session was already revoked
+  async revoke(sessionId: string, revokedBy: Types.ObjectId | null, reason?: string): Promise<boolean> {
+    const result = await Session.updateOne(
+      { _id: sessionId, revokedAt: { $exists: false } },
+      { $set: revocation(revokedBy, reason) }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Revoke every open session of a user, optionally keeping the one making the request
+  async revokeAllForUser(
+    userId: Types.ObjectId | string,
+    revokedBy: Types.ObjectId | null,
+    reason?: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const query: Record<string, any> = { user: userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+      query._id = { $ne: exceptSessionId };
+    }
+    const result = await Session.updateMany(query, { $set: revocation(revokedBy, reason) });
+    return result.modifiedCount;
+  }
+}
+
+export default new SessionService();
@@ -0,0 +1,195 @@
+import { Types } from 'mongoose';
+import Station, { IStation, StationAddress } from '../models/Station';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ServiceError } from '../utils/errors';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+export interface StationInput {
+  code?: string;
+  name?: string;
+  timezone?: string;
+  address?: StationAddress;
+  active?: boolean;
+}
+
+const ADDRESS_FIELDS: (keyof StationAddress)[] = ['line1', 'line2', 'city', 'region', 'postalCode', 'country'];
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Accept an array or a comma separated list
+const toList = (value: unknown): string[] => {
+  const entries = Array.isArray(value) ? value : String(value).split(',');
+  return entries.map(entry => String(entry).trim()).filter(Boolean);
+};
+
+class StationService {
+  // Admins work across all stations
+  isCrossStation(user: RequestUser): boolean {
+    return user.role === 'admin';
+  }
+
+  hasAccess(user: RequestUser, stationId: unknown): boolean {
+    if (this.isCrossStation(user)) {
+      return true;
+    }
+    return !!stationId && user.stations.some(id => id.toString() === String(stationId));
+  }
+
+  /**
+   * Resolve station ids or IATA codes to station ids. Throws when any of
+   * them does not exist.
+   */
+  async resolve(value: unknown): Promise<Types.ObjectId[]> {
+    const entries = toList(value);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const ids = entries.filter(entry => Types.ObjectId.isValid(entry) && entry.length === 24);
+    const codes = entries.filter(entry => !ids.includes(entry)).map(entry => entry.toUpperCase());
+    const stations = await Station.find({
+      $or: [{ _id: { $in: ids } }, { code: { $in: codes } }]
+    }).select('code');
+
+    const unknown = entries.filter(entry =>
+      !stations.some(station => String(station._id) === entry || station.code === entry.toUpperCase())
+    );
+    if (unknown.length > 0) {
+      throw new ServiceError(`Unknown station: ${unknown.join(', ')}`, 400, 'INVALID_STATION');
+    }
+    return stations.map(station => station._id as Types.ObjectId);
+  }
+
+  /**
+   * Query condition limiting a listing to the caller's stations. `requested`
+   * (the `station` query parameter) narrows it further; non-admins can only
+   * request stations they are assigned to. Admins see every station unless
+   * they ask for specific ones.
+   */
+  async scopeFilter(user: RequestUser, requested?: unknown): Promise<Record<string, any>> {
+    if (requested !== undefined && requested !== '') {
+      const stationIds = await this.resolve(requested);
+      const denied = stationIds.filter(id => !this.hasAccess(user, id));
+      if (denied.length > 0) {
+        throw new ServiceError('You are not assigned to the requested station', 403, 'STATION_ACCESS_DENIED');
+      }
+      return { station: { $in: stationIds } };
+    }
+    if (this.isCrossStation(user)) {
+      return {};
+    }
+    return { station: { $in: user.stations } };
+  }
+
+  // Station a new item is booked under: the requested one, or the user's only station
+  async resolveForNewItem(user: RequestUser, requested?: unknown): Promise<Types.ObjectId> {
+    if (requested !== undefined && requested !== '') {
+      const [stationId, ...rest] = await this.resolve(requested);
+      if (!stationId || rest.length > 0) {
+        throw new ServiceError('An item belongs to exactly one station', 400, 'INVALID_STATION');
+      }
+      if (!this.hasAccess(user, stationId)) {
+        throw new ServiceError('You are not assigned to the requested station', 403, 'STATION_ACCESS_DENIED');
+      }
+      return stationId;
+    }
+    if (user.stations.length === 1) {
+      return user.stations[0];
+    }
+    throw new ServiceError('station is required', 400, 'STATION_REQUIRED');
+  }
+
+  async list(user: RequestUser, includeInactive = false): Promise<IStation[]> {
+    const query: Record<string, any> = includeInactive ? {} : { active: true };
+    if (!this.isCrossStation(user)) {
+      query._id = { $in: user.stations };
+    }
+    return Station.find(query).sort({ code: 1 });
+  }
+
+  private validate(input: StationInput, partial: boolean) {
+    if (!partial || input.code !== undefined) {
+      if (typeof input.code !== 'string' || !/^[A-Za-z]{3}$/.test(input.code.trim())) {
+        throw new ServiceError('code must be a three-letter IATA airport code', 400, 'INVALID_STATION_CODE');
+      }
+    }
+    if (!partial || input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw new ServiceError('name is required', 400, 'INVALID_STATION_NAME');
+      }
+    }
+    if (!partial || input.timezone !== undefined) {
+      if (typeof input.timezone !== 'string' || !isValidTimezone(input.timezone)) {
+        throw new ServiceError('timezone must be an IANA time zone such as America/Toronto', 400, 'INVALID_TIMEZONE');
+      }
+    }
+  }
+
+  private pickAddress(address: unknown): StationAddress | undefined {
+    if (!address || typeof address !== 'object') {
+      return undefined;
+    }
+    const result: StationAddress = {};
+    for (const field of ADDRESS_FIELDS) {
+      const value = (address as Record<string, unknown>)[field];
+      if (typeof value === 'string') {
+        result[field] = value.trim();
+      }
+    }
+    return result;
+  }
+
+  async create(input: StationInput): Promise<IStation> {
+    this.validate(input, false);
+    const code = input.code!.trim().toUpperCase();
+    if (await Station.exists({ code })) {
+      throw new ServiceError(`Station ${code} already exists`, 409, 'STATION_EXISTS');
+    }
+    return Station.create({
+      code,
+      name: input.name!.trim(),
+      timezone: input.timezone,
+      address: this.pickAddress(input.address),
+      active: input.active !== false
+    });
+  }
+
+  async update(stationId: string, input: StationInput): Promise<IStation> {
+    const station = Types.ObjectId.isValid(stationId) ? await Station.findById(stationId) : null;
+    if (!station) {
+      throw new ServiceError('Station not found', 404, 'STATION_NOT_FOUND');
+    }
+    this.validate(input, true);
+
+    if (input.code !== undefined) {
+      const code = input.code.trim().toUpperCase();
+      if (code !== station.code && await Station.exists({ code })) {
+        throw new ServiceError(`Station ${code} already exists`, 409, 'STATION_EXISTS');
+      }
+      station.code = code;
+    }
+    if (input.name !== undefined) {
+      station.name = input.name.trim();
+    }
+    if (input.timezone !== undefined) {
+      station.timezone = input.timezone;
+    }
+    if (input.address !== undefined) {
+      station.address = this.pickAddress(input.address);
+    }
+    if (input.active !== undefined) {
+      station.active = !!input.active;
+    }
+    return station.save();
+  }
+}
+
+export default new StationService();
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import path from 'path';
+import { ServiceError } from '../utils/errors';
+import imageProcessingService from './imageProcessing.service';
+import { StorageDriver, StorageProvider, StoredFile, StoredFileRef } from './storage/types';
+import { CloudinaryStorageProvider } from './storage/cloudinary.provider';
+import { LocalStorageProvider } from './storage/local.provider';
+import { GcsStorageProvider } from './storage/gcs.provider';
+
+export type { StorageDriver, StoredFile, StoredFileRef } from './storage/types';
+
+const STORAGE_DRIVERS: StorageDriver[] = ['cloudinary', 'local', 'gcs'];
+
+const DEFAULT_SIGNED_URL_TTL = Number(process.env.STORAGE_SIGNED_URL_TTL) || 15 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'application/pdf': '.pdf'
+};
+
+export interface UploadFileOptions {
+  type?: 'lost' | 'delivered';
+  flightNumber?: string;
+  private?: boolean;
+}
+
+export interface UploadedImage {
+  buffer: Buffer;
+  originalname: string;
+}
+
+const sanitizeSegment = (value: string): string => {
+  return value.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+};
+
+class StorageService {
+  private providers = new Map<StorageDriver, StorageProvider>();
+
+  // Driver used for new uploads. Existing files stay with the provider they were stored in.
+  get driver(): StorageDriver {
+    const driver = (process.env.STORAGE_DRIVER || 'cloudinary') as StorageDriver;
+    if (!STORAGE_DRIVERS.includes(driver)) {
+      throw new ServiceError(`STORAGE_DRIVER must be one of ${STORAGE_DRIVERS.join(', ')}`, 500, 'STORAGE_NOT_CONFIGURED');
+    }
+    return driver;
+  }
+
+  getProvider(driver: StorageDriver = this.driver): StorageProvider {
+    let provider = this.providers.get(driver);
+    if (!provider) {
+      if (driver === 'local') {
+        provider = new LocalStorageProvider();
+      } else if (driver === 'gcs') {
+        provider = new GcsStorageProvider();
+      } else {
+        provider = new CloudinaryStorageProvider();
+      }
+      this.providers.set(driver, provider);
+    }
+    return provider;
+  }
+
+  get local(): LocalStorageProvider {
+    return this.getProvider('local') as LocalStorageProvider;
+  }
+
+  // Dated folder per item type and flight, e.g. `Lost-items/2025-01-31/AC123/<random>-<name>`
+  private buildKey(filename: string, options: UploadFileOptions): string {
+    const currentDate = new Date().toISOString().split('T')[0];
+    const baseFolder = options.type === 'delivered' ? 'Delivered-items' : 'Lost-items';
+    const flightFolder = options.flightNumber ? sanitizeSegment(options.flightNumber) : '';
+    const name = sanitizeSegment(path.basename(filename, path.extname(filename))) || 'file';
+    return [baseFolder, currentDate, flightFolder, `${crypto.randomBytes(4).toString('hex')}-${name}`]
+      .filter(Boolean)
+      .join('/');
+  }
+
+  // Store a file in the configured backend as-is
+  async uploadFile(buffer: Buffer, mimeType: string, filename: string, options: UploadFileOptions = {}): Promise<StoredFile> {
+    try {
+      return await this.getProvider().upload(buffer, {
+        key: this.buildKey(filename, options),
+        mimeType,
+        extension: EXTENSIONS[mimeType] || path.extname(filename).toLowerCase(),
+        private: options.private
+      });
+    } catch (error) {
+      console.error('Storage upload error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate, clean and store uploaded photos together with their
+   * thumbnails. Every file is processed before anything is stored, so one
+   * bad file rejects the whole upload.
+   */
+  async uploadImages(files: UploadedImage[], options: UploadFileOptions = {}): Promise<StoredFile[]> {
+    const processed = await Promise.all(files.map(file => imageProcessingService.process(file.buffer, file.originalname)));
+    const provider = this.getProvider();
+
+    return Promise.all(processed.map(async (image, index) => {
+      const key = this.buildKey(files[index].originalname, options);
+      const extension = EXTENSIONS[image.mimeType];
+      try {
+        const [stored, thumbnail] = await Promise.all([
+          provider.upload(image.buffer, { key, mimeType: image.mimeType, extension, private: options.private }),
+          provider.upload(image.thumbnail, { key: `${key}-thumb`, mimeType: image.mimeType, extension, private: options.private })
+        ]);
+        return { ...stored, thumbnailUrl: thumbnail.url, thumbnailPublicId: thumbnail.publicId };
+      } catch (error) {
+        console.error('Storage upload error:', error);
+        throw error;
+      }
+    }));
+  }
+
+  // Files stored before the provider was recorded all live in Cloudinary
+  async deleteFile(file: StoredFileRef): Promise<void> {
+    const provider = this.getProvider(file.provider || 'cloudinary');
+    try {
+      await provider.delete(file);
+      if (file.thumbnailPublicId) {
+        await provider.delete({ ...file, publicId: file.thumbnailPublicId });
+      }
+    } catch (error) {
+      console.error('Storage delete error:', error);
+      throw error;
+    }
+  }
+
+  async readFile(file: StoredFileRef): Promise<Buffer> {
+    return this.getProvider(file.provider || 'cloudinary').read(file);
+  }
+
+  // Move a stored photo and its thumbnail out of public reach, e.g. when its item becomes sensitive
+  async makePrivate(file: StoredFileRef): Promise<StoredFile> {
+    const provider = this.getProvider(file.provider || 'cloudinary');
+    try {
+      const stored = await provider.makePrivate(file);
+      if (!file.thumbnailPublicId) {
+        return stored;
+      }
+      const thumbnail = await provider.makePrivate({ ...file, publicId: file.thumbnailPublicId });
+      return { ...stored, thumbnailUrl: thumbnail.url, thumbnailPublicId: thumbnail.publicId };
+    } catch (error) {
+      console.error('Storage move error:', error);
+      throw error;
+    }
+  }
+
+  async getSignedUrl(file: StoredFileRef, expiresInSeconds = DEFAULT_SIGNED_URL_TTL): Promise<string> {
+    return this.getProvider(file.provider || 'cloudinary').getSignedUrl(file, expiresInSeconds);
+  }
+}
+
+export default new StorageService();
@@ -0,0 +1,76 @@
+import { v2 as cloudinary } from 'cloudinary';
+import { StorageProvider, StoredFile, StoredFileRef, UploadOptions } from './types';
+
+// Private files use Cloudinary's `authenticated` delivery type
+const deliveryType = (isPrivate?: boolean) => (isPrivate ? 'authenticated' : 'upload');
+
+const READ_TIMEOUT_MS = 5000;
+
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = 'cloudinary' as const;
+
+  constructor() {
+    cloudinary.config({
+      cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+      api_key: process.env.CLOUDINARY_API_KEY,
+      api_secret: process.env.CLOUDINARY_API_SECRET
+    });
+  }
+
+  async upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const dataURI = `data:${options.mimeType};base64,${buffer.toString('base64')}`;
+    const separator = options.key.lastIndexOf('/');
+
+    const result = await cloudinary.uploader.upload(dataURI, {
+      public_id: options.key.slice(separator + 1),
+      folder: options.key.slice(0, Math.max(separator, 0)),
+      resource_type: 'auto',
+      type: deliveryType(options.private)
+    });
+
+    return {
+      provider: this.name,
+      publicId: result.public_id,
+      private: Boolean(options.private),
+      url: result.secure_url,
+      thumbnailUrl: result.secure_url
+    };
+  }
+
+  async delete(file: StoredFileRef): Promise<void> {
+    await cloudinary.uploader.destroy(file.publicId, { type: deliveryType(file.private), invalidate: true });
+  }
+
+  // Downloaded through a signed API URL, so only Cloudinary's own host is ever requested
+  async read(file: StoredFileRef): Promise<Buffer> {
+    const response = await fetch(await this.getSignedUrl(file, 60), { signal: AbortSignal.timeout(READ_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Cloudinary download of ${file.publicId} failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  // Switching the delivery type keeps the public id, so the old public URL stops working
+  async makePrivate(file: StoredFileRef): Promise<StoredFile> {
+    const result = await cloudinary.uploader.rename(file.publicId, file.publicId, {
+      type: deliveryType(file.private),
+      to_type: deliveryType(true),
+      invalidate: true
+    });
+
+    return {
+      provider: this.name,
+      publicId: result.public_id,
+      private: true,
+      url: result.secure_url,
+      thumbnailUrl: result.secure_url
+    };
+  }
+
+  async getSignedUrl(file: StoredFileRef, expiresInSeconds: number): Promise<string> {
+    return cloudinary.utils.private_download_url(file.publicId, '', {
+      type: deliveryType(file.private),
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds
+    });
+  }
+}
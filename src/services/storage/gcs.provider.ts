@@ -0,0 +1,84 @@
+import { Storage } from '@google-cloud/storage';
+import { ServiceError } from '../../utils/errors';
+import { StorageProvider, StoredFile, StoredFileRef, UploadOptions } from './types';
+
+/**
+ * Google Cloud Storage backend. Public files go to `GCS_BUCKET`, which must
+ * grant public read access; private files go to `GCS_PRIVATE_BUCKET` and are
+ * only reachable through signed URLs. Private files are refused when no
+ * private bucket is configured, rather than landing in the public one.
+ */
+export class GcsStorageProvider implements StorageProvider {
+  readonly name = 'gcs' as const;
+  private storage: Storage;
+  private publicBucket: string;
+  private privateBucket?: string;
+
+  constructor() {
+    if (!process.env.GCS_BUCKET) {
+      throw new ServiceError('GCS_BUCKET must be set to use Google Cloud Storage', 500, 'STORAGE_NOT_CONFIGURED');
+    }
+    this.storage = new Storage({
+      projectId: process.env.GCS_PROJECT_ID,
+      keyFilename: process.env.GCS_KEY_FILE
+    });
+    this.publicBucket = process.env.GCS_BUCKET;
+    this.privateBucket = process.env.GCS_PRIVATE_BUCKET || undefined;
+  }
+
+  private bucketName(isPrivate?: boolean): string {
+    if (!isPrivate) {
+      return this.publicBucket;
+    }
+    if (!this.privateBucket) {
+      throw new ServiceError('GCS_PRIVATE_BUCKET must be set to store private files', 500, 'STORAGE_NOT_CONFIGURED');
+    }
+    return this.privateBucket;
+  }
+
+  private file(ref: StoredFileRef) {
+    return this.storage.bucket(this.bucketName(ref.private)).file(ref.publicId);
+  }
+
+  async upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const publicId = `${options.key}${options.extension}`;
+    const bucket = this.bucketName(options.private);
+
+    await this.file({ publicId, private: options.private }).save(buffer, {
+      contentType: options.mimeType,
+      resumable: false
+    });
+
+    const url = `https://storage.googleapis.com/${bucket}/${encodeURI(publicId)}`;
+    return { provider: this.name, publicId, private: Boolean(options.private), url, thumbnailUrl: url };
+  }
+
+  async delete(file: StoredFileRef): Promise<void> {
+    await this.file(file).delete({ ignoreNotFound: true });
+  }
+
+  async read(file: StoredFileRef): Promise<Buffer> {
+    const [contents] = await this.file(file).download();
+    return contents;
+  }
+
+  async makePrivate(file: StoredFileRef): Promise<StoredFile> {
+    const bucket = this.bucketName(true);
+    if (!file.private) {
+      await this.file(file).copy(this.storage.bucket(bucket).file(file.publicId));
+      await this.file(file).delete({ ignoreNotFound: true });
+    }
+
+    const url = `https://storage.googleapis.com/${bucket}/${encodeURI(file.publicId)}`;
+    return { provider: this.name, publicId: file.publicId, private: true, url, thumbnailUrl: url };
+  }
+
+  async getSignedUrl(file: StoredFileRef, expiresInSeconds: number): Promise<string> {
+    const [url] = await this.file(file).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + expiresInSeconds * 1000
+    });
+    return url;
+  }
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ServiceError } from '../../utils/errors';
+import { StorageProvider, StoredFile, StoredFileRef, UploadOptions } from './types';
+
+const PRIVATE_PREFIX = 'private/';
+
+/**
+ * Stores files on the local disk under `STORAGE_LOCAL_PATH` and serves them
+ * through the `/files` route. Private files live under `private/` and need an
+ * HMAC-signed URL, so the system can run entirely offline.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  readonly root = path.resolve(process.env.STORAGE_LOCAL_PATH || 'uploads');
+  private baseUrl = `${process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`}/files`;
+  private secret: string;
+
+  constructor() {
+    const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new ServiceError('STORAGE_SIGNING_SECRET or JWT_SECRET must be set to sign private file URLs', 500, 'STORAGE_NOT_CONFIGURED');
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Absolute path of a stored file, or null if the id is not in canonical
+   * form (empty, `.` or `..` segments) or escapes the storage root.
+   */
+  resolvePath(publicId: string): string | null {
+    const segments = publicId.split(/[\\/]/);
+    if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+      return null;
+    }
+    const filePath = path.resolve(this.root, publicId);
+    return filePath.startsWith(this.root + path.sep) ? filePath : null;
+  }
+
+  // Decided from the path the file is read from, so no spelling of the id can skip the signature
+  isPrivate(publicId: string): boolean {
+    const filePath = this.resolvePath(publicId);
+    return !filePath || path.relative(this.root, filePath).startsWith(PRIVATE_PREFIX.replace('/', path.sep));
+  }
+
+  private sign(publicId: string, expires: number): string {
+    return crypto.createHmac('sha256', this.secret).update(`${publicId}:${expires}`).digest('hex');
+  }
+
+  verifySignature(publicId: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now() || !signature) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(publicId, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private urlFor(publicId: string): string {
+    return `${this.baseUrl}/${publicId.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  async upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const publicId = `${options.private ? PRIVATE_PREFIX : ''}${options.key}${options.extension}`;
+    const filePath = this.resolvePath(publicId);
+    if (!filePath) {
+      throw new Error(`Invalid storage key: ${options.key}`);
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+
+    const url = this.urlFor(publicId);
+    return { provider: this.name, publicId, private: Boolean(options.private), url, thumbnailUrl: url };
+  }
+
+  async delete(file: StoredFileRef): Promise<void> {
+    const filePath = this.resolvePath(file.publicId);
+    if (filePath) {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  async read(file: StoredFileRef): Promise<Buffer> {
+    const filePath = this.resolvePath(file.publicId);
+    if (!filePath) {
+      throw new Error(`Invalid storage key: ${file.publicId}`);
+    }
+    return fs.readFile(filePath);
+  }
+
+  async makePrivate(file: StoredFileRef): Promise<StoredFile> {
+    const publicId = this.isPrivate(file.publicId) ? file.publicId : `${PRIVATE_PREFIX}${file.publicId}`;
+    const from = this.resolvePath(file.publicId);
+    const to = this.resolvePath(publicId);
+    if (!from || !to) {
+      throw new Error(`Invalid storage key: ${file.publicId}`);
+    }
+
+    if (from !== to) {
+      await fs.mkdir(path.dirname(to), { recursive: true });
+      await fs.rename(from, to);
+    }
+
+    const url = this.urlFor(publicId);
+    return { provider: this.name, publicId, private: true, url, thumbnailUrl: url };
+  }
+
+  async getSignedUrl(file: StoredFileRef, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.urlFor(file.publicId)}?expires=${expires}&signature=${this.sign(file.publicId, expires)}`;
+  }
+}
@@ -0,0 +1,36 @@
+export type StorageDriver = 'cloudinary' | 'local' | 'gcs';
+
+// Reference to a stored file as it is kept on item documents
+export interface StoredFileRef {
+  publicId: string;
+  thumbnailPublicId?: string;
+  provider?: StorageDriver;
+  private?: boolean;
+}
+
+export interface StoredFile extends StoredFileRef {
+  provider: StorageDriver;
+  // Private files are not readable at this URL without a signature
+  url: string;
+  thumbnailUrl: string;
+}
+
+export interface UploadOptions {
+  // Path of the file without extension, e.g. `Lost-items/2025-01-31/AC123/3f9c-bag`
+  key: string;
+  mimeType: string;
+  extension: string;
+  private?: boolean;
+}
+
+export interface StorageProvider {
+  readonly name: StorageDriver;
+  upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile>;
+  delete(file: StoredFileRef): Promise<void>;
+  // Time-limited URL that grants read access to a file, private or not
+  getSignedUrl(file: StoredFileRef, expiresInSeconds: number): Promise<string>;
+  // Contents of a stored file, private or not
+  read(file: StoredFileRef): Promise<Buffer>;
+  // Move a public file to private storage, returning its new reference
+  makePrivate(file: StoredFileRef): Promise<StoredFile>;
+}
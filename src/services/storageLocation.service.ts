@@ -0,0 +1,540 @@
+import mongoose, { Types, ClientSession } from 'mongoose';
+import StorageLocation, { IStorageLocation, StorageLocationType, STORAGE_LOCATION_TYPES } from '../models/StorageLocation';
+import StorageAssignment, { IStorageAssignment, StorageReleaseReason } from '../models/StorageAssignment';
+import LostItem, { ILostItem } from '../models/LostItem';
+import { AuthenticatedRequest } from '../middleware/auth';
+import itemHistoryService from './itemHistory.service';
+import stationService from './station.service';
+import { ServiceError } from '../utils/errors';
+import { ListOptions } from '../utils/pagination';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+export interface StorageLocationInput {
+  station?: unknown;
+  type?: unknown;
+  code?: unknown;
+  name?: unknown;
+  parent?: unknown;
+  capacity?: unknown;
+  active?: unknown;
+}
+
+export interface StorageLocationFilters {
+  station?: unknown;
+  type?: unknown;
+  parent?: unknown;
+  includeInactive?: boolean;
+}
+
+export interface StorageLocationSummary {
+  _id: Types.ObjectId;
+  type: StorageLocationType;
+  code: string;
+  name: string;
+}
+
+// Answer to "where is it": enough for an agent at the counter to walk to the item
+export interface ItemWhereabouts {
+  item: Pick<ILostItem, 'itemName' | 'status' | 'category' | 'handling'> & { _id: unknown };
+  station: unknown;
+  // Room, shelf and bin, outermost first; empty when the item was never put away
+  path: StorageLocationSummary[];
+  storedSince?: Date;
+  storedBy?: unknown;
+  // Set when the item is on its way to another station
+  transfer?: unknown;
+}
+
+// Items that sit in the office; anything else has left its storage location
+export const STORED_STATUSES = ['onHand', 'pending'];
+
+// Type of location each type must sit in; rooms are top level
+const PARENT_TYPES: Record<StorageLocationType, StorageLocationType | null> = {
+  room: null,
+  shelf: 'room',
+  bin: 'shelf'
+};
+
+const STATION_FIELDS = 'code name';
+const USER_FIELDS = 'firstName lastName employeeNumber';
+const LOCATION_FIELDS = 'type code name';
+
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9-]{0,19}$/;
+
+const cleanString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toSummary = (location: IStorageLocation): StorageLocationSummary => ({
+  _id: location._id as Types.ObjectId,
+  type: location.type,
+  code: location.code,
+  name: location.name
+});
+
+class StorageLocationService {
+  // A location at one of the user's stations
+  async findForUser(locationId: string, user: RequestUser): Promise<IStorageLocation> {
+    if (!Types.ObjectId.isValid(locationId)) {
+      throw new ServiceError('Invalid storage location id', 400, 'INVALID_ID');
+    }
+    const location = await StorageLocation.findById(locationId);
+    if (!location) {
+      throw new ServiceError('Storage location not found', 404, 'STORAGE_LOCATION_NOT_FOUND');
+    }
+    if (!stationService.hasAccess(user, location.station)) {
+      throw new ServiceError('You are not assigned to the station of this storage location', 403, 'STATION_ACCESS_DENIED');
+    }
+    return location;
+  }
+
+  /**
+   * Resolve an id, a code within the station or a scanned label such as
+   * `YYZ:B-03` to a location of that station.
+   */
+  async resolve(value: unknown, stationId: unknown): Promise<IStorageLocation> {
+    const entry = cleanString(typeof value === 'number' ? String(value) : value);
+    if (!entry) {
+      throw new ServiceError('location is required', 400, 'STORAGE_LOCATION_REQUIRED');
+    }
+    let query: Record<string, unknown> = { station: stationId, code: entry.toUpperCase() };
+    if (Types.ObjectId.isValid(entry) && entry.length === 24) {
+      query = { _id: entry };
+    } else if (entry.includes(':')) {
+      const [stationCode, code] = entry.toUpperCase().split(':');
+      if (!stationCode || !code) {
+        throw new ServiceError(`Unknown storage location: ${entry}`, 400, 'INVALID_STORAGE_LOCATION');
+      }
+      const [station] = await stationService.resolve(stationCode);
+      query = { station, code };
+    }
+    const location = await StorageLocation.findOne(query);
+    if (!location) {
+      throw new ServiceError(`Unknown storage location: ${entry}`, 400, 'INVALID_STORAGE_LOCATION');
+    }
+    if (String(location.station) !== String(stationId)) {
+      throw new ServiceError('The storage location belongs to another station', 400, 'STATION_MISMATCH');
+    }
+    return location;
+  }
+
+  // Ids of the location and every location inside it
+  async subtreeIds(locationId: Types.ObjectId): Promise<Types.ObjectId[]> {
+    const descendants = await StorageLocation.find({ ancestors: locationId }).select('_id');
+    return [locationId, ...descendants.map(location => location._id as Types.ObjectId)];
+  }
+
+  // Items held in the location, counting everything inside it
+  async occupancy(location: IStorageLocation): Promise<number> {
+    const ids = await this.subtreeIds(location._id as Types.ObjectId);
+    return LostItem.countDocuments({ storageLocation: { $in: ids }, status: { $in: STORED_STATUSES } });
+  }
+
+  /**
+   * Occupancy of many locations at once. Items are counted in their own
+   * location and in every location above it.
+   */
+  private async occupancies(locations: IStorageLocation[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const stations = Array.from(new Set(locations.map(location => String(location.station))));
+    if (stations.length === 0) {
+      return counts;
+    }
+
+    const [all, direct] = await Promise.all([
+      StorageLocation.find({ station: { $in: stations } }).select('ancestors'),
+      LostItem.aggregate([
+        {
+          $match: {
+            station: { $in: stations.map(id => new Types.ObjectId(id)) },
+            storageLocation: { $ne: null },
+            status: { $in: STORED_STATUSES }
+          }
+        },
+        { $group: { _id: '$storageLocation', count: { $sum: 1 } } }
+      ])
+    ]);
+    const ancestors = new Map(all.map(location => [String(location._id), location.ancestors.map(String)]));
+
+    for (const { _id, count } of direct) {
+      for (const id of [String(_id), ...(ancestors.get(String(_id)) || [])]) {
+        counts.set(id, (counts.get(id) || 0) + count);
+      }
+    }
+    return counts;
+  }
+
+  async list(user: RequestUser, filters: StorageLocationFilters) {
+    const query: Record<string, any> = await stationService.scopeFilter(user, filters.station);
+    if (!filters.includeInactive) {
+      query.active = true;
+    }
+    if (filters.type !== undefined && filters.type !== '') {
+      query.type = this.parseType(filters.type);
+    }
+    if (filters.parent !== undefined && filters.parent !== '') {
+      if (!Types.ObjectId.isValid(String(filters.parent))) {
+        throw new ServiceError('Invalid storage location id', 400, 'INVALID_ID');
+      }
+      query.parent = filters.parent;
+    }
+
+    const locations = await StorageLocation.find(query).sort({ code: 1 });
+    const counts = await this.occupancies(locations);
+    await StorageLocation.populate(locations, { path: 'station', select: STATION_FIELDS });
+    return locations.map(location => ({
+      ...location.toObject(),
+      occupancy: counts.get(String(location._id)) || 0
+    }));
+  }
+
+  private parseType(value: unknown): StorageLocationType {
+    if (!STORAGE_LOCATION_TYPES.includes(value as StorageLocationType)) {
+      throw new ServiceError(`type must be one of: ${STORAGE_LOCATION_TYPES.join(', ')}`, 400, 'INVALID_LOCATION_TYPE');
+    }
+    return value as StorageLocationType;
+  }
+
+  private parseCode(value: unknown): string {
+    const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (!CODE_PATTERN.test(code)) {
+      throw new ServiceError('code must be up to 20 letters, digits or dashes', 400, 'INVALID_LOCATION_CODE');
+    }
+    return code;
+  }
+
+  private parseName(value: unknown): string {
+    const name = cleanString(value);
+    if (!name) {
+      throw new ServiceError('name is required', 400, 'INVALID_LOCATION_NAME');
+    }
+    return name;
+  }
+
+  // Blank clears the capacity
+  private parseCapacity(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const capacity = Number(value);
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new ServiceError('capacity must be a whole number of at least 1', 400, 'INVALID_CAPACITY');
+    }
+    return capacity;
+  }
+
+  private async assertCodeFree(stationId: unknown, code: string, excludeId?: unknown) {
+    const query: Record<string, any> = { station: stationId, code };
+    if (excludeId) {
+      query._id = { $ne: excludeId };
+    }
+    if (await StorageLocation.exists(query)) {
+      throw new ServiceError(`Storage location ${code} already exists at this station`, 409, 'STORAGE_LOCATION_EXISTS');
+    }
+  }
+
+  /**
+   * Add a room, a shelf in a room or a bin on a shelf. The parent is given
+   * by id or code and must be an active location of the same station.
+   */
+  async create(input: StorageLocationInput, user: RequestUser): Promise<IStorageLocation> {
+    const station = await stationService.resolveForNewItem(user, input.station);
+    const type = this.parseType(input.type);
+    const code = this.parseCode(input.code);
+    const name = this.parseName(input.name);
+    const capacity = this.parseCapacity(input.capacity);
+
+    const parentType = PARENT_TYPES[type];
+    let parent: IStorageLocation | null = null;
+    if (parentType) {
+      if (input.parent === undefined || input.parent === '') {
+        throw new ServiceError(`A ${type} must be placed in a ${parentType}`, 400, 'INVALID_PARENT');
+      }
+      parent = await this.resolve(input.parent, station);
+      if (parent.type !== parentType) {
+        throw new ServiceError(`A ${type} must be placed in a ${parentType}`, 400, 'INVALID_PARENT');
+      }
+      if (!parent.active) {
+        throw new ServiceError('The parent storage location is not active', 400, 'INVALID_PARENT');
+      }
+    } else if (input.parent !== undefined && input.parent !== '') {
+      throw new ServiceError('Rooms cannot be placed in another location', 400, 'INVALID_PARENT');
+    }
+    await this.assertCodeFree(station, code);
+
+    return StorageLocation.create({
+      station,
+      type,
+      code,
+      name,
+      parent: parent?._id,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+      capacity,
+      active: input.active !== false && input.active !== 'false'
+    });
+  }
+
+  /**
+   * Rename, relabel or resize a location, or take it out of use. A location
+   * cannot move to another parent; create a new one and move the items.
+   */
+  async update(locationId: string, input: StorageLocationInput, user: RequestUser): Promise<IStorageLocation> {
+    const location = await this.findForUser(locationId, user);
+    if (input.type !== undefined && input.type !== location.type) {
+      throw new ServiceError('The type of a storage location cannot be changed', 400, 'INVALID_LOCATION_TYPE');
+    }
+    if (input.parent !== undefined && String(input.parent) !== String(location.parent ?? '')) {
+      throw new ServiceError('A storage location cannot be moved to another parent', 400, 'INVALID_PARENT');
+    }
+
+    if (input.code !== undefined) {
+      const code = this.parseCode(input.code);
+      if (code !== location.code) {
+        await this.assertCodeFree(location.station, code, location._id);
+        location.code = code;
+      }
+    }
+    if (input.name !== undefined) {
+      location.name = this.parseName(input.name);
+    }
+    if (input.capacity !== undefined) {
+      const capacity = this.parseCapacity(input.capacity);
+      if (capacity !== undefined && capacity < await this.occupancy(location)) {
+        throw new ServiceError('The location already holds more items than that', 409, 'CAPACITY_BELOW_OCCUPANCY');
+      }
+      location.capacity = capacity;
+    }
+    if (input.active !== undefined) {
+      const active = input.active === true || input.active === 'true';
+      if (!active && location.active && await this.occupancy(location) > 0) {
+        throw new ServiceError('Move the items out before taking the location out of use', 409, 'LOCATION_NOT_EMPTY');
+      }
+      location.active = active;
+    }
+    return location.save();
+  }
+
+  // Every location with a capacity from the target up to its room must have room for one more item
+  private async assertCapacity(location: IStorageLocation) {
+    const ancestors = await StorageLocation.find({ _id: { $in: location.ancestors } });
+    for (const entry of [location, ...ancestors]) {
+      if (entry.capacity && await this.occupancy(entry) >= entry.capacity) {
+        throw new ServiceError(`${entry.code} is full (${entry.capacity} items)`, 409, 'LOCATION_FULL');
+      }
+    }
+  }
+
+  /**
+   * Put an item away or move it to another bin, shelf or room of its
+   * station. The previous assignment is closed so the history shows every
+   * place the item has been.
+   */
+  async move(itemId: string, locationValue: unknown, user: RequestUser, notes?: unknown): Promise<ILostItem> {
+    const item = await LostItem.findById(itemId);
+    if (!item) {
+      throw new ServiceError('Item not found', 404, 'ITEM_NOT_FOUND');
+    }
+    if (!STORED_STATUSES.includes(item.status)) {
+      throw new ServiceError(`Items that are ${item.status} cannot be put away`, 409, 'ITEM_NOT_STORABLE');
+    }
+    if (!item.station) {
+      throw new ServiceError('The item is not booked under a station', 409, 'ITEM_NOT_STORABLE');
+    }
+
+    const location = await this.resolve(locationValue, item.station);
+    if (!location.active) {
+      throw new ServiceError('The storage location is not active', 400, 'STORAGE_LOCATION_INACTIVE');
+    }
+    if (String(item.storageLocation) === String(location._id)) {
+      return item;
+    }
+    await this.assertCapacity(location);
+
+    return mongoose.connection.transaction(async (session) => {
+      const before = { storageLocation: item.storageLocation };
+      await this.release([item._id as Types.ObjectId], user._id, 'moved', session);
+      await StorageAssignment.create([{
+        item: item._id,
+        location: location._id,
+        station: item.station,
+        assignedBy: user._id,
+        assignedAt: new Date(),
+        notes: cleanString(notes)
+      }], { session });
+
+      item.storageLocation = location._id as Types.ObjectId;
+      await item.save({ session });
+
+      await itemHistoryService.record({
+        item: item._id as Types.ObjectId,
+        itemModel: 'LostItem',
+        action: 'moved',
+        performedBy: user._id,
+        changes: itemHistoryService.diff(before, { storageLocation: item.storageLocation }),
+        notes: `Stored in ${location.code}`
+      }, session);
+
+      return item;
+    });
+  }
+
+  /**
+   * Close the open assignments of items leaving their location. Callers
+   * clear `storageLocation` on the items themselves as part of their update.
+   */
+  async release(itemIds: Types.ObjectId[], userId: Types.ObjectId, reason: StorageReleaseReason, session?: ClientSession): Promise<void> {
+    await StorageAssignment.updateMany(
+      { item: { $in: itemIds }, releasedAt: { $exists: false } },
+      { $set: { releasedAt: new Date(), releasedBy: userId, releaseReason: reason } },
+      { session }
+    );
+  }
+
+  // The room, shelf and bin leading to the location, outermost first
+  async path(location: IStorageLocation): Promise<StorageLocationSummary[]> {
+    const chain: IStorageLocation[] = [...await StorageLocation.find({ _id: { $in: location.ancestors } }), location];
+    return chain
+      .sort((a, b) => a.ancestors.length - b.ancestors.length)
+      .map(toSummary);
+  }
+
+  /**
+   * Value encoded in a location's barcode: the station and location codes,
+   * e.g. `YYZ:B-03`. Location codes are only unique within a station.
+   * Expects `station` to be populated.
+   */
+  labelValue(location: IStorageLocation): string {
+    const station = location.station as any;
+    return `${station.code}:${location.code}`;
+  }
+
+  // The location a scanned label refers to
+  async findByLabel(label: string, user: RequestUser): Promise<IStorageLocation> {
+    const [stationCode, code] = label.trim().toUpperCase().split(':');
+    if (!stationCode || !code) {
+      throw new ServiceError('Storage location labels look like YYZ:B-03', 400, 'INVALID_LABEL');
+    }
+    const [station] = await stationService.resolve(stationCode);
+    const location = await StorageLocation.findOne({ station, code });
+    if (!location) {
+      throw new ServiceError('Storage location not found', 404, 'STORAGE_LOCATION_NOT_FOUND');
+    }
+    if (!stationService.hasAccess(user, location.station)) {
+      throw new ServiceError('You are not assigned to the station of this storage location', 403, 'STATION_ACCESS_DENIED');
+    }
+    return location;
+  }
+
+  /**
+   * Locations to print labels for, with `station` populated. With
+   * `includeChildren` every shelf and bin inside them is included too.
+   */
+  async findForLabels(locationIds: unknown, user: RequestUser, includeChildren = false): Promise<IStorageLocation[]> {
+    if (!Array.isArray(locationIds) || locationIds.length === 0) {
+      throw new ServiceError('At least one storage location is required', 400, 'NO_LOCATIONS');
+    }
+    if (locationIds.some(id => !Types.ObjectId.isValid(String(id)))) {
+      throw new ServiceError('Invalid storage location id', 400, 'INVALID_ID');
+    }
+    const ids = Array.from(new Set(locationIds.map(String)));
+    const selected = await StorageLocation.find({ _id: { $in: ids } }).select('station');
+    if (selected.length !== ids.length) {
+      throw new ServiceError('Some storage locations were not found', 404, 'STORAGE_LOCATION_NOT_FOUND');
+    }
+    if (selected.some(location => !stationService.hasAccess(user, location.station))) {
+      throw new ServiceError('You are not assigned to the station of this storage location', 403, 'STATION_ACCESS_DENIED');
+    }
+
+    const query = includeChildren
+      ? { $or: [{ _id: { $in: ids } }, { ancestors: { $in: ids } }] }
+      : { _id: { $in: ids } };
+    const locations = await StorageLocation.find(query).populate('station', STATION_FIELDS);
+    const ancestors = await StorageLocation.find({ _id: { $in: locations.flatMap(location => location.ancestors) } }).select('code');
+    const codes = new Map([...ancestors, ...locations].map(location => [String(location._id), location.code]));
+
+    // Print each room followed by its shelves and bins
+    const sortKey = (location: IStorageLocation) => {
+      return [...location.ancestors, location._id].map(id => codes.get(String(id)) || '').join('/');
+    };
+    return locations.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  }
+
+  // Where to find the item: station, room, shelf and bin
+  async whereIs(itemId: string): Promise<ItemWhereabouts> {
+    const item = await LostItem.findById(itemId)
+      .populate('station', STATION_FIELDS)
+      .populate({ path: 'transfer', select: 'transferNumber toStation status expectedArrivalAt', populate: { path: 'toStation', select: STATION_FIELDS } });
+    if (!item) {
+      throw new ServiceError('Item not found', 404, 'ITEM_NOT_FOUND');
+    }
+
+    const result: ItemWhereabouts = {
+      item: { _id: item._id, itemName: item.itemName, status: item.status, category: item.category, handling: item.handling },
+      station: item.station,
+      path: []
+    };
+    if (item.status === 'inTransit') {
+      result.transfer = item.transfer;
+    }
+    if (!item.storageLocation) {
+      return result;
+    }
+
+    const [location, assignment] = await Promise.all([
+      StorageLocation.findById(item.storageLocation),
+      StorageAssignment.findOne({ item: item._id, location: item.storageLocation, releasedAt: { $exists: false } })
+        .populate('assignedBy', USER_FIELDS)
+    ]);
+    if (location) {
+      result.path = await this.path(location);
+    }
+    result.storedSince = assignment?.assignedAt;
+    result.storedBy = assignment?.assignedBy;
+    return result;
+  }
+
+  // Every location the item has been kept in, latest first
+  async itemHistory(itemId: string): Promise<IStorageAssignment[]> {
+    return StorageAssignment.find({ item: itemId })
+      .populate('location', LOCATION_FIELDS)
+      .populate('assignedBy', USER_FIELDS)
+      .populate('releasedBy', USER_FIELDS)
+      .sort({ assignedAt: -1 });
+  }
+
+  // Items that went in and out of the location, latest first
+  async locationHistory(location: IStorageLocation, options: ListOptions): Promise<{ assignments: IStorageAssignment[]; total: number }> {
+    const filters = { location: location._id };
+    const [assignments, total] = await Promise.all([
+      StorageAssignment.find(filters)
+        .populate('assignedBy', USER_FIELDS)
+        .populate('releasedBy', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      StorageAssignment.countDocuments(filters)
+    ]);
+    return { assignments, total };
+  }
+
+  // Items held in the location or anywhere inside it, narrowed by `scope` (e.g. the permission scope)
+  async items(location: IStorageLocation, options: ListOptions, scope: Record<string, unknown> = {}): Promise<{ items: ILostItem[]; total: number }> {
+    const filters = {
+      ...scope,
+      storageLocation: { $in: await this.subtreeIds(location._id as Types.ObjectId) },
+      status: { $in: STORED_STATUSES }
+    };
+    const [items, total] = await Promise.all([
+      LostItem.find(filters)
+        .populate('storageLocation', LOCATION_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      LostItem.countDocuments(filters)
+    ]);
+    return { items, total };
+  }
+}
+
+export default new StorageLocationService();
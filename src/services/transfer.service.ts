@@ -0,0 +1,311 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import LostItem from '../models/LostItem';
+import Station from '../models/Station';
+import DisposalBatch from '../models/DisposalBatch';
+import Transfer, { ITransfer, TransferStatus, CustodyAction } from '../models/Transfer';
+import { AuthenticatedRequest } from '../middleware/auth';
+import itemHistoryService from './itemHistory.service';
+import itemStatusService from './itemStatus.service';
+import stationService from './station.service';
+import storageLocationService from './storageLocation.service';
+import { ServiceError } from '../utils/errors';
+import { generateCode } from '../utils/codes';
+import { ListOptions } from '../utils/pagination';
+
+type RequestUser = AuthenticatedRequest['user'];
+
+export interface CreateTransferInput {
+  itemIds: string[];
+  toStation?: unknown;
+  notes?: string;
+}
+
+export interface DispatchTransferInput {
+  carrier?: string;
+  trackingNumber?: string;
+  expectedArrivalAt?: unknown;
+  notes?: string;
+}
+
+// Transfers holding on to their items
+export const OPEN_TRANSFER_STATUSES: TransferStatus[] = ['preparing', 'in_transit'];
+
+// Only items on the shelf or reserved for a passenger can be sent
+const TRANSFERABLE_STATUSES = ['onHand', 'pending'];
+
+const STATION_FIELDS = 'code name timezone';
+const USER_FIELDS = 'firstName lastName employeeNumber';
+
+// Used when the dispatching agent does not give an expected arrival
+const getExpectedTransitHours = (): number => Number(process.env.TRANSFER_EXPECTED_HOURS) || 48;
+
+const cleanString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+class TransferService {
+  isOverdue(transfer: Pick<ITransfer, 'status' | 'expectedArrivalAt'>, now = new Date()): boolean {
+    return transfer.status === 'in_transit' && !!transfer.expectedArrivalAt && transfer.expectedArrivalAt < now;
+  }
+
+  // Query matching transfers still in transit past their expected arrival
+  overdueFilter(now = new Date()): Record<string, any> {
+    return { status: 'in_transit', expectedArrivalAt: { $lt: now } };
+  }
+
+  // Transfers leaving or arriving at one of the user's stations
+  scopeFilter(user: RequestUser): Record<string, any> {
+    if (stationService.isCrossStation(user)) {
+      return {};
+    }
+    return { $or: [{ fromStation: { $in: user.stations } }, { toStation: { $in: user.stations } }] };
+  }
+
+  toResponse(transfer: ITransfer) {
+    return { ...transfer.toObject(), overdue: this.isOverdue(transfer) };
+  }
+
+  private custodyEntry(action: CustodyAction, station: Types.ObjectId, userId: Types.ObjectId, notes?: string) {
+    return { action, station, by: userId, at: new Date(), notes };
+  }
+
+  private assertStationAccess(user: RequestUser, stationId: Types.ObjectId, message: string) {
+    if (!stationService.hasAccess(user, stationId)) {
+      throw new ServiceError(message, 403, 'STATION_ACCESS_DENIED');
+    }
+  }
+
+  /**
+   * A transfer the user can see, i.e. one leaving or arriving at their
+   * stations. Workflows read it within their `session`, so two concurrent
+   * dispatches or receipts conflict instead of both passing the status check.
+   */
+  async findForUser(transferId: string, user: RequestUser, populate = false, session?: ClientSession): Promise<ITransfer> {
+    if (!Types.ObjectId.isValid(transferId)) {
+      throw new ServiceError('Invalid transfer id', 400, 'INVALID_ID');
+    }
+    const query = Transfer.findOne({ _id: transferId, ...this.scopeFilter(user) }).session(session || null);
+    if (populate) {
+      query.populate('fromStation', STATION_FIELDS)
+        .populate('toStation', STATION_FIELDS)
+        .populate('createdBy', USER_FIELDS)
+        .populate('custody.by', USER_FIELDS)
+        .populate('custody.station', 'code name');
+    }
+    const transfer = await query;
+    if (!transfer) {
+      throw new ServiceError('Transfer not found', 404, 'TRANSFER_NOT_FOUND');
+    }
+    return transfer;
+  }
+
+  async list(filters: Record<string, any>, options: ListOptions): Promise<{ transfers: ITransfer[]; total: number }> {
+    const [transfers, total] = await Promise.all([
+      Transfer.find(filters)
+        .populate('fromStation', STATION_FIELDS)
+        .populate('toStation', STATION_FIELDS)
+        .populate('createdBy', USER_FIELDS)
+        .sort(options.sort)
+        .skip(options.skip)
+        .limit(options.limit),
+      Transfer.countDocuments(filters)
+    ]);
+    return { transfers, total };
+  }
+
+  /**
+   * Prepare a transfer of items held at one station to another. The items
+   * stay on the shelf until the transfer is dispatched, but cannot be put in
+   * another transfer or a disposal batch meanwhile.
+   */
+  async create(input: CreateTransferInput, user: RequestUser): Promise<ITransfer> {
+    if (!Array.isArray(input.itemIds) || input.itemIds.length === 0) {
+      throw new ServiceError('At least one item is required', 400, 'NO_ITEMS');
+    }
+    if (input.itemIds.some(id => !Types.ObjectId.isValid(id))) {
+      throw new ServiceError('Invalid item id', 400, 'INVALID_ID');
+    }
+    const itemIds = Array.from(new Set(input.itemIds.map(String)));
+
+    const [toStation, ...rest] = input.toStation === undefined ? [] : await stationService.resolve(input.toStation);
+    if (!toStation || rest.length > 0) {
+      throw new ServiceError('A single destination station is required', 400, 'INVALID_STATION');
+    }
+    const destination = await Station.findById(toStation).select('active');
+    if (!destination || !destination.active) {
+      throw new ServiceError('The destination station is not active', 400, 'INVALID_STATION');
+    }
+
+    const items = await LostItem.find({ _id: { $in: itemIds } });
+    if (items.length !== itemIds.length) {
+      throw new ServiceError('Some items were not found', 404, 'ITEM_NOT_FOUND');
+    }
+    const unavailable = items.filter(item => !TRANSFERABLE_STATUSES.includes(item.status));
+    if (unavailable.length > 0) {
+      throw new ServiceError(
+        `Items cannot be transferred in their current status: ${unavailable.map(item => item._id).join(', ')}`,
+        409,
+        'ITEMS_NOT_TRANSFERABLE'
+      );
+    }
+
+    const fromStation = items[0].station;
+    if (!fromStation || items.some(item => String(item.station) !== String(fromStation))) {
+      throw new ServiceError('All items in a transfer must be held at the same station', 400, 'MIXED_STATIONS');
+    }
+    if (String(fromStation) === String(toStation)) {
+      throw new ServiceError('Items are already at the destination station', 400, 'SAME_STATION');
+    }
+    this.assertStationAccess(user, fromStation, 'You can only transfer items from your own stations');
+
+    const [openTransfer, openBatch] = await Promise.all([
+      Transfer.exists({ status: { $in: OPEN_TRANSFER_STATUSES }, 'items.item': { $in: itemIds } }),
+      DisposalBatch.exists({ status: 'pending_approval', 'items.item': { $in: itemIds } })
+    ]);
+    if (openTransfer || openBatch) {
+      throw new ServiceError(
+        'Some items are already part of an open transfer or disposal batch',
+        409,
+        'ITEMS_NOT_TRANSFERABLE'
+      );
+    }
+
+    const today = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    return Transfer.create({
+      transferNumber: `TRF-${today}-${generateCode(4)}`,
+      fromStation,
+      toStation,
+      notes: cleanString(input.notes),
+      createdBy: user._id,
+      items: items.map(item => ({
+        item: item._id,
+        itemName: item.itemName,
+        description: item.description,
+        category: item.category,
+        flightNumber: item.flightNumber,
+        location: item.location,
+        dateFound: item.dateFound,
+        claimReport: item.claimReport
+      })),
+      custody: [this.custodyEntry('created', fromStation, user._id)]
+    });
+  }
+
+  /**
+   * Hand the items over to the carrier. Every item goes `inTransit` and
+   * refers to the transfer until the destination confirms receipt.
+   */
+  async dispatch(transferId: string, input: DispatchTransferInput, user: RequestUser): Promise<ITransfer> {
+    let expectedArrivalAt = new Date(Date.now() + getExpectedTransitHours() * 60 * 60 * 1000);
+    if (input.expectedArrivalAt !== undefined && input.expectedArrivalAt !== '') {
+      expectedArrivalAt = new Date(String(input.expectedArrivalAt));
+      if (isNaN(expectedArrivalAt.getTime()) || expectedArrivalAt <= new Date()) {
+        throw new ServiceError('expectedArrivalAt must be a date in the future', 400, 'INVALID_EXPECTED_ARRIVAL');
+      }
+    }
+
+    return mongoose.connection.transaction(async (session) => {
+      const transfer = await this.findForUser(transferId, user, false, session);
+      if (transfer.status !== 'preparing') {
+        throw new ServiceError(`Transfer is already ${transfer.status.replace('_', ' ')}`, 409, 'TRANSFER_NOT_PREPARING');
+      }
+      this.assertStationAccess(user, transfer.fromStation, 'Only the sending station can dispatch a transfer');
+
+      const items = await LostItem.find({ _id: { $in: transfer.items.map(entry => entry.item) } }).session(session);
+      const unavailable = items.filter(item =>
+        !TRANSFERABLE_STATUSES.includes(item.status) || String(item.station) !== String(transfer.fromStation)
+      );
+      if (items.length !== transfer.items.length || unavailable.length > 0) {
+        throw new ServiceError(
+          'Some items in the transfer are no longer on hand at the sending station',
+          409,
+          'ITEMS_NOT_TRANSFERABLE'
+        );
+      }
+
+      for (const item of items) {
+        const before = { status: item.status };
+        item.transfer = transfer._id as Types.ObjectId;
+        itemStatusService.assertTransition(item.status, 'inTransit', { user, fields: item.toObject() });
+        item.status = 'inTransit';
+        item.storageLocation = undefined;
+        await item.save({ session });
+
+        await itemHistoryService.record({
+          item: item._id as Types.ObjectId,
+          itemModel: 'LostItem',
+          action: 'dispatched',
+          performedBy: user._id,
+          changes: itemHistoryService.diff(before, { status: item.status }),
+          notes: `Transfer ${transfer.transferNumber}`
+        }, session);
+      }
+      await storageLocationService.release(items.map(item => item._id as Types.ObjectId), user._id, 'dispatched', session);
+
+      transfer.status = 'in_transit';
+      transfer.carrier = cleanString(input.carrier);
+      transfer.trackingNumber = cleanString(input.trackingNumber);
+      transfer.dispatchedAt = new Date();
+      transfer.expectedArrivalAt = expectedArrivalAt;
+      transfer.custody.push(this.custodyEntry('dispatched', transfer.fromStation, user._id, cleanString(input.notes)));
+      return transfer.save({ session });
+    });
+  }
+
+  /**
+   * The destination station confirms the items arrived. They now belong to
+   * that station and return to the status they left with.
+   */
+  async receive(transferId: string, notes: unknown, user: RequestUser): Promise<ITransfer> {
+    return mongoose.connection.transaction(async (session) => {
+      const transfer = await this.findForUser(transferId, user, false, session);
+      if (transfer.status !== 'in_transit') {
+        throw new ServiceError('Only transfers in transit can be received', 409, 'TRANSFER_NOT_IN_TRANSIT');
+      }
+      this.assertStationAccess(user, transfer.toStation, 'Only the receiving station can confirm receipt');
+
+      const items = await LostItem.find({ transfer: transfer._id }).session(session);
+      for (const item of items) {
+        const before = { status: item.status, station: item.station };
+        const status = itemStatusService.assertTransition(item.status, item.claimReport ? 'pending' : 'onHand', {
+          user,
+          fields: item.toObject()
+        }).to;
+        item.status = status;
+        item.station = transfer.toStation;
+        item.transfer = undefined;
+        await item.save({ session });
+
+        await itemHistoryService.record({
+          item: item._id as Types.ObjectId,
+          itemModel: 'LostItem',
+          action: 'received',
+          performedBy: user._id,
+          changes: itemHistoryService.diff(before, { status: item.status, station: item.station }),
+          notes: `Transfer ${transfer.transferNumber}`
+        }, session);
+      }
+
+      transfer.status = 'received';
+      transfer.receivedAt = new Date();
+      transfer.custody.push(this.custodyEntry('received', transfer.toStation, user._id, cleanString(notes)));
+      return transfer.save({ session });
+    });
+  }
+
+  // A transfer can be called off until it has been dispatched
+  async cancel(transferId: string, reason: unknown, user: RequestUser): Promise<ITransfer> {
+    const transfer = await this.findForUser(transferId, user);
+    if (transfer.status !== 'preparing') {
+      throw new ServiceError('Only transfers that have not been dispatched can be cancelled', 409, 'TRANSFER_NOT_PREPARING');
+    }
+    this.assertStationAccess(user, transfer.fromStation, 'Only the sending station can cancel a transfer');
+
+    transfer.status = 'cancelled';
+    transfer.cancelledAt = new Date();
+    transfer.custody.push(this.custodyEntry('cancelled', transfer.fromStation, user._id, cleanString(reason)));
+    return transfer.save();
+  }
+}
+
+export default new TransferService();
@@ -0,0 +1,145 @@
+import PDFDocument from 'pdfkit';
+import { ITransfer } from '../models/Transfer';
+import {
+  BRAND_RED,
+  BRAND_BLACK,
+  MUTED,
+  PAGE_MARGIN,
+  formatDate,
+  userName,
+  drawBrandHeader,
+  drawPageFooters
+} from '../utils/pdf';
+
+const TITLE = 'Transfer Manifest';
+
+// Column x offsets and widths for the item table
+const COLUMNS = [
+  { label: '#', width: 24 },
+  { label: 'Item', width: 170 },
+  { label: 'Category', width: 86 },
+  { label: 'Flight', width: 60 },
+  { label: 'Found', width: 64 },
+  { label: 'Claim report', width: 64 },
+  { label: 'Received', width: 64 }
+];
+const ROW_HEIGHT = 16;
+
+const stationLabel = (station: any): string => {
+  return station && station.code ? `${station.code} - ${station.name}` : String(station || '—');
+};
+
+class TransferManifestPdfService {
+  private drawTableHeader(doc: PDFKit.PDFDocument) {
+    let x = PAGE_MARGIN;
+    const top = doc.y;
+    doc.font('Helvetica-Bold').fontSize(8.5).fillColor(BRAND_BLACK);
+    for (const column of COLUMNS) {
+      doc.text(column.label, x, top, { width: column.width, lineBreak: false });
+      x += column.width;
+    }
+    doc.save()
+      .moveTo(PAGE_MARGIN, top + 12)
+      .lineTo(doc.page.width - PAGE_MARGIN, top + 12)
+      .stroke(BRAND_RED)
+      .restore();
+    doc.y = top + ROW_HEIGHT;
+  }
+
+  private drawSignatureLine(doc: PDFKit.PDFDocument, x: number, y: number, label: string, name?: string) {
+    doc.save().moveTo(x, y).lineTo(x + 220, y).stroke(BRAND_BLACK).restore();
+    doc.font('Helvetica').fontSize(8.5).fillColor(MUTED).text(label, x, y + 4, { width: 220 });
+    if (name) {
+      doc.fillColor(BRAND_BLACK).text(name, x, y + 16, { width: 220 });
+    }
+  }
+
+  /**
+   * Render the manifest travelling with a transfer as a finished PDF
+   * document, with sign-off lines for the sending and receiving stations.
+   * Expects the stations, `createdBy` and `custody.by` to be populated.
+   */
+  generate(transfer: ITransfer): PDFKit.PDFDocument {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `Air Canada Lost & Found - ${TITLE} ${transfer.transferNumber}` }
+    });
+
+    drawBrandHeader(doc, TITLE);
+
+    const dispatched = transfer.custody.find(entry => entry.action === 'dispatched');
+    const received = transfer.custody.find(entry => entry.action === 'received');
+
+    doc.font('Courier-Bold').fontSize(16).fillColor(BRAND_BLACK).text(transfer.transferNumber, PAGE_MARGIN);
+    doc.moveDown(0.3).font('Helvetica').fontSize(9.5);
+    const details: [string, string][] = [
+      ['From', stationLabel(transfer.fromStation)],
+      ['To', stationLabel(transfer.toStation)],
+      ['Status', transfer.status.replace('_', ' ')],
+      ['Carrier', transfer.carrier || '—'],
+      ['Tracking number', transfer.trackingNumber || '—'],
+      ['Prepared by', `${userName(transfer.createdBy)} on ${formatDate(transfer.createdAt)}`],
+      ['Dispatched', dispatched ? `${userName(dispatched.by)} on ${formatDate(dispatched.at)}` : 'Not yet dispatched'],
+      ['Expected arrival', formatDate(transfer.expectedArrivalAt)]
+    ];
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED).text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true })
+        .fillColor(BRAND_BLACK).text(value);
+    }
+    if (transfer.notes) {
+      doc.fillColor(MUTED).text('Notes: ', { continued: true }).fillColor(BRAND_BLACK).text(transfer.notes);
+    }
+    doc.moveDown(0.5).font('Helvetica-Bold').fontSize(11)
+      .text(`Total items: ${transfer.items.length}`, PAGE_MARGIN);
+    doc.moveDown(0.5);
+
+    this.drawTableHeader(doc);
+    transfer.items.forEach((entry, index) => {
+      if (doc.y + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+        doc.addPage();
+        drawBrandHeader(doc, TITLE);
+        this.drawTableHeader(doc);
+      }
+      const values = [
+        String(index + 1),
+        entry.itemName || entry.description,
+        entry.category,
+        entry.flightNumber,
+        formatDate(entry.dateFound),
+        entry.claimReport ? `#${entry.claimReport}` : '',
+        // Left blank for the receiving agent to tick off
+        received ? formatDate(received.at) : ''
+      ];
+      let x = PAGE_MARGIN;
+      const top = doc.y;
+      doc.font('Helvetica').fontSize(8.5).fillColor(BRAND_BLACK);
+      values.forEach((value, column) => {
+        doc.text(value || (column === COLUMNS.length - 1 ? '' : '—'), x, top, {
+          width: COLUMNS[column].width - 4,
+          lineBreak: false,
+          ellipsis: true
+        });
+        x += COLUMNS[column].width;
+      });
+      doc.y = top + ROW_HEIGHT;
+    });
+
+    if (doc.y + 80 > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      drawBrandHeader(doc, TITLE);
+    }
+    const signatureY = doc.y + 50;
+    this.drawSignatureLine(doc, PAGE_MARGIN, signatureY, 'Released by (sending station)',
+      dispatched ? userName(dispatched.by) : undefined);
+    this.drawSignatureLine(doc, doc.page.width - PAGE_MARGIN - 220, signatureY, 'Received by (receiving station)',
+      received ? userName(received.by) : undefined);
+
+    drawPageFooters(doc, `Manifest ${transfer.transferNumber}`);
+    doc.end();
+    return doc;
+  }
+}
+
+export default new TransferManifestPdfService();
@@ -10,10 +10,14 @@ declare global {
         lastName: string;
         role: string;
         permissions: string[];
+        stations: Types.ObjectId[];
         createdAt: Date;
         updatedAt: Date;
       };
       token?: string;
+      // Session the access token was issued for
+      sessionId?: string;
+      permissionScope?: 'all' | 'own';
     }
 
     namespace Multer {
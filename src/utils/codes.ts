@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+
+// Crockford-style alphabet without characters that are easy to misread (0/O, 1/I/L, U)
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Random code split into dash-separated groups, e.g. `7KQ2-M9XD-4HRT`
+export const generateCode = (length = 12, groupSize = 4): string => {
+  const bytes = crypto.randomBytes(length);
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    if (i > 0 && i % groupSize === 0) {
+      code += '-';
+    }
+    code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  }
+  return code;
+};
+
+// Accept codes typed in lower case or without dashes
+export const normalizeCode = (value: string, groupSize = 4): string => {
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return compact.replace(new RegExp(`(.{${groupSize}})(?=.)`, 'g'), '$1-');
+};
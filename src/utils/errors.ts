@@ -0,0 +1,7 @@
+// Error thrown by services that maps directly onto an HTTP response
+export class ServiceError extends Error {
+  constructor(message: string, public status: number, public code: string) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
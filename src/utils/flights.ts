@@ -0,0 +1,74 @@
+import { ServiceError } from './errors';
+
+export interface FlightDesignator {
+  // IATA (2 characters) or ICAO (3 letters) airline code
+  carrier: string;
+  // Flight number without leading zeros, with an optional operational suffix
+  number: string;
+}
+
+// Carrier assumed when only the number is given, e.g. `123`
+const getDefaultCarrier = (): string => (process.env.DEFAULT_CARRIER_CODE || 'AC').toUpperCase();
+
+const FLIGHT_PATTERN = /^([A-Z]{3}|[A-Z][A-Z0-9]|[0-9][A-Z])?0*(\d{1,4})([A-Z])?$/;
+
+/**
+ * Split a flight number as typed by an agent into carrier and number.
+ * `AC123`, `ac 0123` and `123` all give `{ carrier: 'AC', number: '123' }`.
+ * Returns null when the value is not a flight number.
+ */
+export const parseFlightNumber = (value: unknown): FlightDesignator | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const match = compact.match(FLIGHT_PATTERN);
+  if (!match || Number(match[2]) === 0) {
+    return null;
+  }
+  return { carrier: match[1] || getDefaultCarrier(), number: `${Number(match[2])}${match[3] || ''}` };
+};
+
+// Canonical form stored on items and schedules, e.g. `AC123`
+export const formatFlightNumber = (flight: FlightDesignator): string => `${flight.carrier}${flight.number}`;
+
+export const normalizeFlightNumber = (value: unknown): string => {
+  const flight = parseFlightNumber(value);
+  if (!flight) {
+    throw new ServiceError(
+      'flightNumber must be an airline code followed by up to four digits, e.g. AC123',
+      400,
+      'INVALID_FLIGHT_NUMBER'
+    );
+  }
+  return formatFlightNumber(flight);
+};
+
+export const normalizeAirportCode = (value: unknown, name: string): string => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new ServiceError(`${name} must be a three-letter IATA airport code`, 400, 'INVALID_AIRPORT_CODE');
+  }
+  return code;
+};
+
+/**
+ * Flight dates are calendar days, stored as midnight UTC. Accepts
+ * `YYYY-MM-DD` or any date string, keeping only its day.
+ */
+export const parseFlightDate = (value: unknown, name = 'flightDate'): Date => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const date = value instanceof Date
+    ? new Date(value.getTime())
+    : new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  if (isNaN(date.getTime())) {
+    throw new ServiceError(`${name} must be a date such as 2024-05-31`, 400, 'INVALID_FLIGHT_DATE');
+  }
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+};
+
+// `YUL-YVR`, or an empty string when either end is unknown
+export const routeOf = (origin?: string, destination?: string): string => {
+  return origin && destination ? `${origin}-${destination}` : '';
+};
@@ -0,0 +1,116 @@
+import { Types } from 'mongoose';
+import { ServiceError } from './errors';
+import { escapeRegex } from './text';
+import { parseFlightNumber, formatFlightNumber, normalizeAirportCode } from './flights';
+import { ITEM_STATUSES, ItemStatus, ITEM_HANDLINGS, ItemHandling } from '../models/LostItem';
+
+export const LOST_ITEM_SORT_FIELDS = ['dateFound', 'createdAt', 'updatedAt', 'flightNumber', 'flightDate', 'category', 'status', 'itemName'];
+export const DELIVERED_ITEM_SORT_FIELDS = ['dateDelivered', 'dateFound', 'createdAt', 'flightNumber', 'flightDate', 'category', 'itemName'];
+
+export const parseDate = (value: string, name: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ServiceError(`Invalid ${name} date`, 400, 'INVALID_FILTER');
+  }
+  // A bare end date includes the whole day
+  if (/to$/i.test(name) && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+const parseObjectId = (value: string, name: string): Types.ObjectId => {
+  if (!Types.ObjectId.isValid(value)) {
+    throw new ServiceError(`Invalid ${name}`, 400, 'INVALID_FILTER');
+  }
+  return new Types.ObjectId(value);
+};
+
+const exactMatch = (value: string) => ({ $regex: `^\\s*${escapeRegex(value.trim())}\\s*$`, $options: 'i' });
+
+// Filters shared by lost and delivered item listings
+const applyCommonFilters = (query: Record<string, any>, params: Record<string, any>) => {
+  if (params.category) {
+    query.category = exactMatch(String(params.category));
+  }
+  // A category with all of its subcategories
+  if (params.categoryId) {
+    query.categoryPath = parseObjectId(String(params.categoryId), 'categoryId');
+  }
+  if (params.flightNumber) {
+    // Stored flight numbers are normalized, see scripts/normalizeFlightNumbers.ts for older items
+    const flight = parseFlightNumber(String(params.flightNumber));
+    query.flightNumber = flight ? formatFlightNumber(flight) : exactMatch(String(params.flightNumber));
+  }
+  if (params.origin) {
+    query.origin = normalizeAirportCode(String(params.origin), 'origin');
+  }
+  if (params.destination) {
+    query.destination = normalizeAirportCode(String(params.destination), 'destination');
+  }
+  if (params.flightDateFrom || params.flightDateTo) {
+    query.flightDate = {
+      ...(params.flightDateFrom && { $gte: parseDate(String(params.flightDateFrom), 'flightDateFrom') }),
+      ...(params.flightDateTo && { $lte: parseDate(String(params.flightDateTo), 'flightDateTo') })
+    };
+  }
+  if (params.dateFoundFrom || params.dateFoundTo) {
+    query.dateFound = {
+      ...(params.dateFoundFrom && { $gte: parseDate(String(params.dateFoundFrom), 'dateFoundFrom') }),
+      ...(params.dateFoundTo && { $lte: parseDate(String(params.dateFoundTo), 'dateFoundTo') })
+    };
+  }
+  if (params.foundBy) {
+    query.foundBy = parseObjectId(String(params.foundBy), 'foundBy');
+  }
+  if (params.handling) {
+    if (!ITEM_HANDLINGS.includes(params.handling as ItemHandling)) {
+      throw new ServiceError(`handling must be one of ${ITEM_HANDLINGS.join(', ')}`, 400, 'INVALID_FILTER');
+    }
+    query.handling = params.handling;
+  }
+  return query;
+};
+
+export const buildLostItemFilters = (params: Record<string, any>, query: Record<string, any> = {}) => {
+  applyCommonFilters(query, params);
+
+  if (params.status) {
+    const statuses = String(params.status).split(',').map(status => status.trim());
+    const invalid = statuses.filter(status => !ITEM_STATUSES.includes(status as ItemStatus));
+    if (invalid.length > 0) {
+      throw new ServiceError(`Invalid status: ${invalid.join(', ')}`, 400, 'INVALID_FILTER');
+    }
+    query.status = { $in: statuses };
+  }
+  if (params.supervisor) {
+    query.supervisor = parseObjectId(String(params.supervisor), 'supervisor');
+  }
+  // Archived lost items are the ones with `archived` status
+  if (params.archived === 'true') {
+    query.status = 'archived';
+  } else if (params.archived === 'false' && !params.status) {
+    query.status = { $ne: 'archived' };
+  }
+  return query;
+};
+
+export const buildDeliveredItemFilters = (params: Record<string, any>, query: Record<string, any> = {}) => {
+  applyCommonFilters(query, params);
+
+  if (params.dateDeliveredFrom || params.dateDeliveredTo) {
+    query.dateDelivered = {
+      ...(params.dateDeliveredFrom && { $gte: parseDate(String(params.dateDeliveredFrom), 'dateDeliveredFrom') }),
+      ...(params.dateDeliveredTo && { $lte: parseDate(String(params.dateDeliveredTo), 'dateDeliveredTo') })
+    };
+  }
+  if (params.deliveredBy) {
+    query.deliveredBy = parseObjectId(String(params.deliveredBy), 'deliveredBy');
+  }
+  if (params.archived === 'true') {
+    query.archived = true;
+  } else if (params.archived === 'false') {
+    query.archived = { $ne: true };
+  }
+  return query;
+};
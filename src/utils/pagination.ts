@@ -0,0 +1,67 @@
+import { ServiceError } from './errors';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export interface ListOptions {
+  page: number;
+  limit: number;
+  skip: number;
+  sort: Record<string, 1 | -1>;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+interface ListOptionsConfig {
+  sortFields: string[];
+  defaultSort: string;
+}
+
+/**
+ * Parse `page`, `limit` and `sort` query parameters. `sort` is a comma
+ * separated list of fields, each optionally prefixed with `-` for descending
+ * order, e.g. `sort=-dateFound,flightNumber`.
+ */
+export const parseListOptions = (query: Record<string, any>, config: ListOptionsConfig): ListOptions => {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ServiceError('page must be a positive whole number', 400, 'INVALID_PAGE');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ServiceError(`limit must be between 1 and ${MAX_PAGE_SIZE}`, 400, 'INVALID_LIMIT');
+  }
+
+  const sort: Record<string, 1 | -1> = {};
+  for (const entry of String(query.sort || config.defaultSort).split(',')) {
+    const field = entry.trim().replace(/^-/, '');
+    if (!field) {
+      continue;
+    }
+    if (!config.sortFields.includes(field)) {
+      throw new ServiceError(`Cannot sort by ${field}. Allowed: ${config.sortFields.join(', ')}`, 400, 'INVALID_SORT');
+    }
+    sort[field] = entry.trim().startsWith('-') ? -1 : 1;
+  }
+  // Stable ordering across pages when sort values tie
+  if (!('_id' in sort)) {
+    sort._id = -1;
+  }
+
+  return { page, limit, skip: (page - 1) * limit, sort };
+};
+
+export const paginate = <T>(items: T[], total: number, options: ListOptions): Paginated<T> => ({
+  items,
+  total,
+  page: options.page,
+  limit: options.limit,
+  totalPages: Math.ceil(total / options.limit)
+});
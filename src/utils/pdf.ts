@@ -0,0 +1,88 @@
+// Shared branding and image helpers for generated PDFs
+import storageService from '../services/storage.service';
+import { StoredFileRef } from '../services/storage/types';
+
+export const BRAND_RED = '#D8292F';
+export const BRAND_BLACK = '#1A1A1A';
+export const MUTED = '#6B6B6B';
+export const PAGE_MARGIN = 40;
+
+export const formatDate = (value?: Date): string => {
+  return value ? new Date(value).toISOString().split('T')[0] : '—';
+};
+
+export const userName = (user: any): string => {
+  return user && user.firstName ? `${user.firstName} ${user.lastName}` : 'Unknown';
+};
+
+// pdfkit only embeds JPEG and PNG
+export const isEmbeddableImage = (buffer: Buffer): boolean => {
+  const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8;
+  const isPng = buffer.slice(0, 4).toString('hex') === '89504e47';
+  return isJpeg || isPng;
+};
+
+// PNG or JPEG image sent inline by a client, such as a captured signature
+export const IMAGE_DATA_URI = /^data:image\/(png|jpe?g);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+// Decode an inline image. URLs are never fetched, so client input cannot make the server send requests.
+export const decodeImageDataUri = (source?: string): Buffer | undefined => {
+  const dataUri = source?.match(IMAGE_DATA_URI);
+  if (!dataUri) {
+    return undefined;
+  }
+  const buffer = Buffer.from(dataUri[2], 'base64');
+  return isEmbeddableImage(buffer) ? buffer : undefined;
+};
+
+// Read a stored photo through its storage provider, skipping anything pdfkit cannot embed
+export const loadStoredImage = async (file?: StoredFileRef): Promise<Buffer | undefined> => {
+  if (!file?.publicId) {
+    return undefined;
+  }
+  try {
+    const buffer = await storageService.readFile(file);
+    return isEmbeddableImage(buffer) ? buffer : undefined;
+  } catch (error) {
+    console.error('Error loading image for PDF:', error);
+    return undefined;
+  }
+};
+
+// The thumbnail of a stored photo, or the photo itself when it has none
+export const thumbnailOf = (image?: StoredFileRef): StoredFileRef | undefined => {
+  return image && { publicId: image.thumbnailPublicId || image.publicId, provider: image.provider, private: image.private };
+};
+
+export const drawBrandHeader = (doc: PDFKit.PDFDocument, title: string) => {
+  doc.save()
+    .rect(0, 0, doc.page.width, 56)
+    .fill(BRAND_RED)
+    .restore();
+  doc.fillColor('#FFFFFF')
+    .font('Helvetica-Bold')
+    .fontSize(16)
+    .text('AIR CANADA', PAGE_MARGIN, 14, { continued: true })
+    .font('Helvetica')
+    .text('  Lost & Found');
+  doc.fontSize(10).text(title, PAGE_MARGIN, 34);
+  doc.fillColor(BRAND_BLACK);
+  doc.y = 72;
+};
+
+// Requires the document to be created with `bufferPages: true`
+export const drawPageFooters = (doc: PDFKit.PDFDocument, note?: string) => {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - PAGE_MARGIN + 10;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    doc.fontSize(8).fillColor(MUTED);
+    if (note) {
+      doc.text(note, PAGE_MARGIN, y, { width, align: 'left', lineBreak: false });
+    }
+    doc.text(`Page ${i + 1} of ${range.count}`, PAGE_MARGIN, y, { width, align: 'right', lineBreak: false });
+  }
+};
@@ -0,0 +1,2 @@
+// Escape user input so it can be embedded in a RegExp literally
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');